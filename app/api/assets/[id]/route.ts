@@ -0,0 +1,67 @@
+import { NextResponse } from 'next/server';
+import { deleteAsset, isValidAssetId, loadAsset } from '@/lib/assets';
+
+// Photopea runs on its own origin and fetches `files` and `resources` from
+// there, so assets are served to any origin. Chrome also asks before a public
+// site reads from localhost, which the preflight answers.
+const CORS_HEADERS: Record<string, string> = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, OPTIONS',
+};
+
+export async function OPTIONS() {
+  return new NextResponse(null, {
+    status: 204,
+    headers: {
+      ...CORS_HEADERS,
+      'Access-Control-Allow-Headers': '*',
+      'Access-Control-Allow-Private-Network': 'true',
+      'Access-Control-Max-Age': '86400',
+    },
+  });
+}
+
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  if (!isValidAssetId(id)) {
+    return NextResponse.json({ error: 'Invalid asset id' }, { status: 400, headers: CORS_HEADERS });
+  }
+  const loaded = await loadAsset(id);
+
+  if (!loaded) {
+    return NextResponse.json({ error: 'Asset not found' }, { status: 404, headers: CORS_HEADERS });
+  }
+
+  return new NextResponse(new Uint8Array(loaded.data), {
+    headers: {
+      ...CORS_HEADERS,
+      'Content-Type': loaded.asset.mimeType,
+      'Content-Length': String(loaded.data.byteLength),
+      'Cache-Control': 'public, max-age=31536000, immutable',
+      // Anyone can upload an SVG: Photopea still reads it, but it never runs
+      // as a page on this origin
+      'Content-Security-Policy': "sandbox; default-src 'none'",
+      'X-Content-Type-Options': 'nosniff',
+    },
+  });
+}
+
+export async function DELETE(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  if (!isValidAssetId(id)) {
+    return NextResponse.json({ error: 'Invalid asset id' }, { status: 400 });
+  }
+  const deleted = await deleteAsset(id);
+
+  if (!deleted) {
+    return NextResponse.json({ error: 'Asset not found' }, { status: 404 });
+  }
+
+  return NextResponse.json({ success: true });
+}
@@ -0,0 +1,41 @@
+import { NextResponse } from 'next/server';
+import { AssetError, listAssets, MAX_ASSET_BYTES, saveAsset } from '@/lib/assets';
+import { readBody, RequestBodyError } from '@/lib/request-body';
+
+export async function GET() {
+  const assets = await listAssets();
+  return NextResponse.json(assets);
+}
+
+// The body is the raw file; its name, which decides the content type it is
+// served with, comes in `?name=`
+export async function POST(request: Request) {
+  const name = new URL(request.url).searchParams.get('name')?.trim();
+  if (!name) {
+    return NextResponse.json({ error: 'name is required' }, { status: 400 });
+  }
+
+  let data: Buffer;
+  try {
+    data = await readBody(request, MAX_ASSET_BYTES);
+  } catch (error) {
+    if (error instanceof RequestBodyError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    throw error;
+  }
+
+  if (data.byteLength === 0) {
+    return NextResponse.json({ error: 'Empty asset' }, { status: 400 });
+  }
+
+  try {
+    const asset = await saveAsset(name, data);
+    return NextResponse.json(asset);
+  } catch (error) {
+    if (error instanceof AssetError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    throw error;
+  }
+}
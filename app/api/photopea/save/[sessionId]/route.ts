@@ -0,0 +1,58 @@
+import { NextResponse } from 'next/server';
+import { loadSession, saveArtifact } from '@/lib/session';
+import { isValidSessionId } from '@/lib/session-schema';
+import { formatFromExtension } from '@/lib/file-format';
+import { RequestBodyError } from '@/lib/request-body';
+import {
+  parsePhotopeaSave,
+  PhotopeaSaveError,
+  SAVE_ARTIFACT_PREFIX,
+  type PhotopeaSaveResponse,
+} from '@/lib/photopea-save';
+
+// Photopea posts from its own origin (www.photopea.com)
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type',
+};
+
+export async function OPTIONS() {
+  return new Response(null, { status: 204, headers: CORS_HEADERS });
+}
+
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ sessionId: string }> }
+) {
+  const { sessionId } = await params;
+  if (!isValidSessionId(sessionId)) {
+    return NextResponse.json({ message: 'Invalid session id', error: 'Invalid session id' }, { status: 400, headers: CORS_HEADERS });
+  }
+
+  if (!(await loadSession(sessionId))) {
+    return NextResponse.json({ message: 'Session not found', error: 'Session not found' }, { status: 404, headers: CORS_HEADERS });
+  }
+
+  try {
+    const payload = await parsePhotopeaSave(request);
+    const artifacts = [];
+    for (const version of payload.versions) {
+      const mimeType = formatFromExtension(version.format.split(':')[0])?.mimeType ?? 'application/octet-stream';
+      artifacts.push(await saveArtifact(sessionId, Buffer.from(version.data), mimeType, SAVE_ARTIFACT_PREFIX));
+    }
+
+    const response: PhotopeaSaveResponse = {
+      message: `Saved ${artifacts.map((a) => a.id).join(', ')} to session ${sessionId}`,
+    };
+    return NextResponse.json(response, { headers: CORS_HEADERS });
+  } catch (error) {
+    if (error instanceof RequestBodyError) {
+      return NextResponse.json({ message: error.message, error: error.message }, { status: error.status, headers: CORS_HEADERS });
+    }
+    if (error instanceof PhotopeaSaveError) {
+      return NextResponse.json({ message: error.message, error: error.message }, { status: 400, headers: CORS_HEADERS });
+    }
+    throw error;
+  }
+}
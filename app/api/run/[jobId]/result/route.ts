@@ -0,0 +1,38 @@
+import { NextResponse } from 'next/server';
+import { completeRunJob, RunJobError, validateRunResult } from '@/lib/run-jobs';
+import { MAX_ARTIFACT_BYTES } from '@/lib/session-schema';
+import { readJsonBody, RequestBodyError } from '@/lib/request-body';
+
+// A worker reporting how the job it claimed went. Binary outputs arrive
+// base64-encoded and are stored as artifacts of the job's session.
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ jobId: string }> }
+) {
+  const { jobId } = await params;
+
+  let body: unknown;
+  try {
+    body = await readJsonBody(request, MAX_ARTIFACT_BYTES);
+  } catch (error) {
+    if (error instanceof RequestBodyError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    throw error;
+  }
+
+  const result = validateRunResult(body);
+  if (!result.ok) {
+    return NextResponse.json({ error: 'Invalid result', fields: result.errors }, { status: 400 });
+  }
+
+  try {
+    const job = await completeRunJob(jobId, result.value.workerId, result.value.result);
+    return NextResponse.json(job);
+  } catch (error) {
+    if (error instanceof RunJobError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    throw error;
+  }
+}
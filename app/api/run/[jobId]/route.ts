@@ -0,0 +1,14 @@
+import { NextResponse } from 'next/server';
+import { getRunJob } from '@/lib/run-jobs';
+
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ jobId: string }> }
+) {
+  const { jobId } = await params;
+  const job = getRunJob(jobId);
+  if (!job) {
+    return NextResponse.json({ error: 'Job not found' }, { status: 404 });
+  }
+  return NextResponse.json(job);
+}
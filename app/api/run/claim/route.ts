@@ -0,0 +1,28 @@
+import { NextResponse } from 'next/server';
+import { claimRunJob } from '@/lib/run-jobs';
+import { readJsonBody, RequestBodyError } from '@/lib/request-body';
+
+const MAX_CLAIM_BYTES = 1024;
+
+// Hands the oldest queued job to the calling worker, or answers 204 when
+// there is nothing to do.
+export async function POST(request: Request) {
+  let body: unknown;
+  try {
+    body = await readJsonBody(request, MAX_CLAIM_BYTES);
+  } catch (error) {
+    if (error instanceof RequestBodyError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    throw error;
+  }
+
+  const workerId = (body as { workerId?: unknown } | null)?.workerId;
+  if (typeof workerId !== 'string' || !workerId) {
+    return NextResponse.json({ error: 'workerId is required' }, { status: 400 });
+  }
+
+  const job = claimRunJob(workerId);
+  if (!job) return new Response(null, { status: 204 });
+  return NextResponse.json(job);
+}
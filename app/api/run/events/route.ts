@@ -0,0 +1,44 @@
+import { subscribeToRunJobs } from '@/lib/run-jobs';
+import { SESSION_EVENTS_KEEPALIVE_MS } from '@/lib/session-events';
+
+// Server-Sent Events stream for workers: a `job` event (data: RunJob) whenever
+// a job is queued or changes status.
+export async function GET(request: Request) {
+  const encoder = new TextEncoder();
+  let stop = () => {};
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const send = (chunk: string) => controller.enqueue(encoder.encode(chunk));
+      send('retry: 3000\n\n');
+
+      const unsubscribe = subscribeToRunJobs((job) => {
+        send(`event: job\ndata: ${JSON.stringify(job)}\n\n`);
+      });
+      const keepAlive = setInterval(() => send(': keep-alive\n\n'), SESSION_EVENTS_KEEPALIVE_MS);
+      stop = () => {
+        clearInterval(keepAlive);
+        unsubscribe();
+      };
+
+      request.signal.addEventListener('abort', () => {
+        stop();
+        try {
+          controller.close();
+        } catch {
+          // Already closed by cancel()
+        }
+      });
+    },
+    cancel() {
+      stop();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+    },
+  });
+}
@@ -0,0 +1,26 @@
+import { NextResponse } from 'next/server';
+import { enqueueRunJob, validateRunRequest } from '@/lib/run-jobs';
+import { MAX_SESSION_BYTES } from '@/lib/session-schema';
+import { readJsonBody, RequestBodyError } from '@/lib/request-body';
+
+// Queues a script for the next available worker; poll `GET /api/run/{jobId}`
+// for its status and outputs.
+export async function POST(request: Request) {
+  let body: unknown;
+  try {
+    body = await readJsonBody(request, MAX_SESSION_BYTES);
+  } catch (error) {
+    if (error instanceof RequestBodyError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    throw error;
+  }
+
+  const result = validateRunRequest(body);
+  if (!result.ok) {
+    return NextResponse.json({ error: 'Invalid job', fields: result.errors }, { status: 400 });
+  }
+
+  const job = enqueueRunJob(result.value);
+  return NextResponse.json(job, { status: 202 });
+}
@@ -0,0 +1,36 @@
+import { NextResponse } from 'next/server';
+import { loadScript, deleteScript, isValidScriptId } from '@/lib/scripts';
+
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  if (!isValidScriptId(id)) {
+    return NextResponse.json({ error: 'Invalid script id' }, { status: 400 });
+  }
+  const script = await loadScript(id);
+
+  if (!script) {
+    return NextResponse.json({ error: 'Script not found' }, { status: 404 });
+  }
+
+  return NextResponse.json(script);
+}
+
+export async function DELETE(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  if (!isValidScriptId(id)) {
+    return NextResponse.json({ error: 'Invalid script id' }, { status: 400 });
+  }
+  const success = await deleteScript(id);
+
+  if (!success) {
+    return NextResponse.json({ error: 'Script not found' }, { status: 404 });
+  }
+
+  return NextResponse.json({ success: true });
+}
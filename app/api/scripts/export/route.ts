@@ -0,0 +1,12 @@
+import { NextResponse } from 'next/server';
+import { exportScripts } from '@/lib/scripts';
+
+export async function GET() {
+  const bundle = await exportScripts();
+  const date = bundle.exportedAt.slice(0, 10);
+  return NextResponse.json(bundle, {
+    headers: {
+      'Content-Disposition': `attachment; filename="photopea-scripts-${date}.json"`,
+    },
+  });
+}
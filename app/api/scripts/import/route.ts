@@ -0,0 +1,22 @@
+import { NextResponse } from 'next/server';
+import { importScripts, MAX_SCRIPT_BUNDLE_BYTES, type ScriptBundle } from '@/lib/scripts';
+import { readJsonBody, RequestBodyError } from '@/lib/request-body';
+
+export async function POST(request: Request) {
+  let bundle: Partial<ScriptBundle> | null;
+  try {
+    bundle = (await readJsonBody(request, MAX_SCRIPT_BUNDLE_BYTES)) as Partial<ScriptBundle> | null;
+  } catch (error) {
+    if (error instanceof RequestBodyError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    throw error;
+  }
+
+  if (!Array.isArray(bundle?.scripts)) {
+    return NextResponse.json({ error: 'Expected a script bundle with a scripts array' }, { status: 400 });
+  }
+
+  const imported = await importScripts(bundle as ScriptBundle);
+  return NextResponse.json({ success: true, imported });
+}
@@ -0,0 +1,49 @@
+import { NextResponse } from 'next/server';
+import {
+  listScripts,
+  loadScript,
+  saveScript,
+  generateScriptId,
+  validateScriptInput,
+  MAX_SCRIPT_BYTES,
+  type LibraryScript,
+} from '@/lib/scripts';
+import { readJsonBody, RequestBodyError } from '@/lib/request-body';
+
+export async function GET() {
+  const scripts = await listScripts();
+  return NextResponse.json(scripts);
+}
+
+export async function POST(request: Request) {
+  let body: unknown;
+  try {
+    body = await readJsonBody(request, MAX_SCRIPT_BYTES);
+  } catch (error) {
+    if (error instanceof RequestBodyError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    throw error;
+  }
+
+  const result = validateScriptInput(body);
+  if (!result.ok) {
+    return NextResponse.json({ error: 'Invalid script', fields: result.errors }, { status: 400 });
+  }
+
+  const input = result.value;
+  const existing = input.id ? await loadScript(input.id) : null;
+  const now = new Date().toISOString();
+  const script: LibraryScript = {
+    id: existing?.id ?? generateScriptId(),
+    name: input.name,
+    description: input.description,
+    tags: input.tags,
+    script: input.script,
+    createdAt: existing?.createdAt ?? now,
+    updatedAt: now,
+  };
+
+  await saveScript(script);
+  return NextResponse.json(script);
+}
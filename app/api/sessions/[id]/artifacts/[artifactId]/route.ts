@@ -0,0 +1,32 @@
+import { NextResponse } from 'next/server';
+import { loadArtifact } from '@/lib/session';
+import { isValidArtifactId, isValidSessionId } from '@/lib/session-schema';
+
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string; artifactId: string }> }
+) {
+  const { id, artifactId } = await params;
+  if (!isValidSessionId(id) || !isValidArtifactId(artifactId)) {
+    return NextResponse.json({ error: 'Invalid session or artifact id' }, { status: 400 });
+  }
+  const artifact = await loadArtifact(id, artifactId);
+
+  if (!artifact) {
+    return NextResponse.json({ error: 'Artifact not found' }, { status: 404 });
+  }
+
+  const headers: Record<string, string> = {
+    'Content-Type': artifact.mimeType,
+    'Content-Length': String(artifact.data.byteLength),
+    // Uploads can be anything, an SVG with scripts included: never let one
+    // run as a page on this origin
+    'Content-Security-Policy': "sandbox; default-src 'none'",
+    'X-Content-Type-Options': 'nosniff',
+  };
+  if (new URL(request.url).searchParams.has('download')) {
+    headers['Content-Disposition'] = `attachment; filename="${artifactId}"`;
+  }
+
+  return new NextResponse(new Uint8Array(artifact.data), { headers });
+}
@@ -0,0 +1,48 @@
+import { NextResponse } from 'next/server';
+import { listArtifacts, loadSession, saveArtifact } from '@/lib/session';
+import { isValidSessionId, MAX_ARTIFACT_BYTES } from '@/lib/session-schema';
+import { readBody, RequestBodyError } from '@/lib/request-body';
+
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  if (!isValidSessionId(id)) {
+    return NextResponse.json({ error: 'Invalid session id' }, { status: 400 });
+  }
+  const artifacts = await listArtifacts(id);
+  return NextResponse.json(artifacts);
+}
+
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  if (!isValidSessionId(id)) {
+    return NextResponse.json({ error: 'Invalid session id' }, { status: 400 });
+  }
+  // Only a stored session lists its artifacts and deletes them with itself
+  if (!(await loadSession(id))) {
+    return NextResponse.json({ error: 'Session not found' }, { status: 404 });
+  }
+
+  let data: Buffer;
+  try {
+    data = await readBody(request, MAX_ARTIFACT_BYTES);
+  } catch (error) {
+    if (error instanceof RequestBodyError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    throw error;
+  }
+
+  if (data.byteLength === 0) {
+    return NextResponse.json({ error: 'Empty artifact' }, { status: 400 });
+  }
+
+  const mimeType = request.headers.get('content-type')?.split(';')[0].trim() || 'application/octet-stream';
+  const artifact = await saveArtifact(id, data, mimeType);
+  return NextResponse.json(artifact);
+}
@@ -0,0 +1,53 @@
+import { NextResponse } from 'next/server';
+import { isValidSessionId } from '@/lib/session-schema';
+import { SESSION_EVENTS_KEEPALIVE_MS, subscribeToSession } from '@/lib/session-events';
+
+// Server-Sent Events stream of writes to one session: a `revision` event
+// (data: SessionChangeEvent) after every save.
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  if (!isValidSessionId(id)) {
+    return NextResponse.json({ error: 'Invalid session id' }, { status: 400 });
+  }
+
+  const encoder = new TextEncoder();
+  let stop = () => {};
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const send = (chunk: string) => controller.enqueue(encoder.encode(chunk));
+      send('retry: 3000\n\n');
+
+      const unsubscribe = subscribeToSession(id, (event) => {
+        send(`event: revision\ndata: ${JSON.stringify(event)}\n\n`);
+      });
+      const keepAlive = setInterval(() => send(': keep-alive\n\n'), SESSION_EVENTS_KEEPALIVE_MS);
+      stop = () => {
+        clearInterval(keepAlive);
+        unsubscribe();
+      };
+
+      request.signal.addEventListener('abort', () => {
+        stop();
+        try {
+          controller.close();
+        } catch {
+          // Already closed by cancel()
+        }
+      });
+    },
+    cancel() {
+      stop();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+    },
+  });
+}
@@ -0,0 +1,28 @@
+import { NextResponse } from 'next/server';
+import { exportSessionBundle, SESSION_BUNDLE_EXTENSION } from '@/lib/session-bundle';
+import { isValidSessionId } from '@/lib/session-schema';
+
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  if (!isValidSessionId(id)) {
+    return NextResponse.json({ error: 'Invalid session id' }, { status: 400 });
+  }
+
+  const bundle = await exportSessionBundle(id);
+  if (!bundle) {
+    return NextResponse.json({ error: 'Session not found' }, { status: 404 });
+  }
+
+  // ?format=zip for tools that only recognise the .zip extension
+  const extension = new URL(request.url).searchParams.get('format') === 'zip' ? 'zip' : SESSION_BUNDLE_EXTENSION;
+  return new NextResponse(new Uint8Array(bundle), {
+    headers: {
+      'Content-Type': 'application/zip',
+      'Content-Length': String(bundle.byteLength),
+      'Content-Disposition': `attachment; filename="photopea-session-${id}.${extension}"`,
+    },
+  });
+}
@@ -0,0 +1,37 @@
+import { NextResponse } from 'next/server';
+import { forkSession } from '@/lib/session';
+import { summarizeSession, toSummary } from '@/lib/session-query';
+import { isValidSessionId, MAX_SESSION_BYTES } from '@/lib/session-schema';
+import { readJsonBody, RequestBodyError } from '@/lib/request-body';
+
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  if (!isValidSessionId(id)) {
+    return NextResponse.json({ error: 'Invalid session id' }, { status: 400 });
+  }
+
+  let body: unknown;
+  try {
+    body = await readJsonBody(request, MAX_SESSION_BYTES);
+  } catch (error) {
+    if (error instanceof RequestBodyError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    throw error;
+  }
+
+  const messageId = (body as { messageId?: unknown } | null)?.messageId;
+  if (!Number.isInteger(messageId)) {
+    return NextResponse.json({ error: '"messageId" must be an integer' }, { status: 400 });
+  }
+
+  const fork = await forkSession(id, messageId as number);
+  if (!fork) {
+    return NextResponse.json({ error: 'Session or message not found' }, { status: 404 });
+  }
+
+  return NextResponse.json({ success: true, session: toSummary(summarizeSession(fork)) });
+}
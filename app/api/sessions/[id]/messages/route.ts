@@ -0,0 +1,47 @@
+import { NextResponse } from 'next/server';
+import { appendMessages, SessionConflictError } from '@/lib/session';
+import { SESSION_CLIENT_HEADER } from '@/lib/session-events';
+import { isValidSessionId, MAX_SESSION_BYTES, validateMessageAppend } from '@/lib/session-schema';
+import { readJsonBody, RequestBodyError } from '@/lib/request-body';
+
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  if (!isValidSessionId(id)) {
+    return NextResponse.json({ error: 'Invalid session id' }, { status: 400 });
+  }
+
+  let body: unknown;
+  try {
+    body = await readJsonBody(request, MAX_SESSION_BYTES);
+  } catch (error) {
+    if (error instanceof RequestBodyError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    throw error;
+  }
+
+  const result = validateMessageAppend(body);
+  if (!result.ok) {
+    return NextResponse.json({ error: 'Invalid messages', fields: result.errors }, { status: 400 });
+  }
+
+  try {
+    const clientId = request.headers.get(SESSION_CLIENT_HEADER) ?? undefined;
+    const revision = await appendMessages(id, result.value.messages, { revision: result.value.revision, clientId });
+    if (revision === null) {
+      return NextResponse.json({ error: 'Session not found' }, { status: 404 });
+    }
+    return NextResponse.json({ success: true, revision });
+  } catch (error) {
+    if (error instanceof SessionConflictError) {
+      return NextResponse.json(
+        { error: 'Session was changed elsewhere', session: error.current },
+        { status: 409 }
+      );
+    }
+    throw error;
+  }
+}
@@ -1,11 +1,17 @@
 import { NextResponse } from 'next/server';
-import { loadSession, deleteSession } from '@/lib/session';
+import { loadSession, deleteSession, updateSessionDetails } from '@/lib/session';
+import { summarizeSession, toSummary } from '@/lib/session-query';
+import { isValidSessionId, MAX_SESSION_BYTES, validateSessionDetails } from '@/lib/session-schema';
+import { readJsonBody, RequestBodyError } from '@/lib/request-body';
 
 export async function GET(
   request: Request,
   { params }: { params: Promise<{ id: string }> }
 ) {
   const { id } = await params;
+  if (!isValidSessionId(id)) {
+    return NextResponse.json({ error: 'Invalid session id' }, { status: 400 });
+  }
   const session = await loadSession(id);
 
   if (!session) {
@@ -15,11 +21,50 @@ export async function GET(
   return NextResponse.json(session);
 }
 
+export async function PATCH(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  if (!isValidSessionId(id)) {
+    return NextResponse.json({ error: 'Invalid session id' }, { status: 400 });
+  }
+
+  let body: unknown;
+  try {
+    body = await readJsonBody(request, MAX_SESSION_BYTES);
+  } catch (error) {
+    if (error instanceof RequestBodyError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    throw error;
+  }
+
+  const result = validateSessionDetails(body);
+  if (!result.ok) {
+    return NextResponse.json({ error: 'Invalid session details', fields: result.errors }, { status: 400 });
+  }
+
+  const session = await updateSessionDetails(id, result.value);
+  if (!session) {
+    return NextResponse.json({ error: 'Session not found' }, { status: 404 });
+  }
+
+  return NextResponse.json({
+    success: true,
+    revision: session.revision,
+    session: toSummary(summarizeSession(session)),
+  });
+}
+
 export async function DELETE(
   request: Request,
   { params }: { params: Promise<{ id: string }> }
 ) {
   const { id } = await params;
+  if (!isValidSessionId(id)) {
+    return NextResponse.json({ error: 'Invalid session id' }, { status: 400 });
+  }
   const success = await deleteSession(id);
 
   if (!success) {
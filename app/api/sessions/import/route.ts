@@ -0,0 +1,25 @@
+import { NextResponse } from 'next/server';
+import { importSessionBundle, MAX_BUNDLE_BYTES, SessionBundleError } from '@/lib/session-bundle';
+import { summarizeSession, toSummary } from '@/lib/session-query';
+import { readBody, RequestBodyError } from '@/lib/request-body';
+
+export async function POST(request: Request) {
+  try {
+    const data = await readBody(request, MAX_BUNDLE_BYTES);
+    const result = await importSessionBundle(new Uint8Array(data));
+    return NextResponse.json({
+      success: true,
+      session: toSummary(summarizeSession(result.session)),
+      originalId: result.originalId,
+      artifactCount: result.artifactCount,
+    });
+  } catch (error) {
+    if (error instanceof RequestBodyError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    if (error instanceof SessionBundleError) {
+      return NextResponse.json({ error: error.message, fields: error.fields }, { status: 400 });
+    }
+    throw error;
+  }
+}
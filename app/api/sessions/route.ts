@@ -1,13 +1,50 @@
 import { NextResponse } from 'next/server';
-import { listSessions, saveSession, type Session } from '@/lib/session';
+import { querySessions, saveSession, SessionConflictError } from '@/lib/session';
+import { SESSION_CLIENT_HEADER } from '@/lib/session-events';
+import { parseSessionQuery, SessionQueryError } from '@/lib/session-query';
+import { MAX_SESSION_BYTES, validateSession } from '@/lib/session-schema';
+import { readJsonBody, RequestBodyError } from '@/lib/request-body';
 
-export async function GET() {
-  const sessions = await listSessions();
-  return NextResponse.json(sessions);
+export async function GET(request: Request) {
+  try {
+    const query = parseSessionQuery(new URL(request.url).searchParams);
+    return NextResponse.json(await querySessions(query));
+  } catch (error) {
+    if (error instanceof SessionQueryError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    throw error;
+  }
 }
 
 export async function POST(request: Request) {
-  const session: Session = await request.json();
-  await saveSession(session);
-  return NextResponse.json({ success: true });
+  let body: unknown;
+  try {
+    body = await readJsonBody(request, MAX_SESSION_BYTES);
+  } catch (error) {
+    if (error instanceof RequestBodyError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    throw error;
+  }
+
+  const result = validateSession(body);
+  if (!result.ok) {
+    return NextResponse.json({ error: 'Invalid session', fields: result.errors }, { status: 400 });
+  }
+
+  try {
+    const clientId = request.headers.get(SESSION_CLIENT_HEADER) ?? undefined;
+    const saved = await saveSession(result.value, { clientId });
+    return NextResponse.json({ success: true, revision: saved.revision });
+  } catch (error) {
+    // Hand back the stored session so the client can merge and retry
+    if (error instanceof SessionConflictError) {
+      return NextResponse.json(
+        { error: 'Session was changed elsewhere', session: error.current },
+        { status: 409 }
+      );
+    }
+    throw error;
+  }
 }
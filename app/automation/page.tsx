@@ -0,0 +1,111 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { PhotopeaClient, PhotopeaTimeoutError } from "@/lib/photopea-client";
+import { getDefaultSourceId, getPhotopeaSource, isPhotopeaSourceId } from "@/lib/photopea-source";
+import { buildPhotopeaSrc, decodePhotopeaConfig } from "@/lib/photopea-config";
+import { base64ToBytes, encodeData, type AutomationData } from "@/lib/automation";
+import { startRunWorker } from "@/lib/run-worker";
+
+// Photopea can take a while to load, especially on a cold cache
+const READY_TIMEOUT_MS = 60000;
+
+/**
+ * A bare Photopea iframe for headless runs. `?source=live|mock` picks the
+ * Photopea to load and the page's hash is passed on as its config. Once
+ * Photopea is ready the page exposes `window.photopeaAutomation`, and with
+ * `?worker=1` it also takes jobs queued with `POST /api/run`.
+ */
+export default function AutomationPage() {
+  const iframeRef = useRef<HTMLIFrameElement>(null);
+  const [photopeaSrc, setPhotopeaSrc] = useState<string | null>(null);
+  const [status, setStatus] = useState<{ ready: boolean; error?: string }>({ ready: false });
+
+  useEffect(() => {
+    const query = new URLSearchParams(window.location.search);
+    const requested = query.get("source");
+    const source = getPhotopeaSource(isPhotopeaSourceId(requested) ? requested : getDefaultSourceId());
+    const src = buildPhotopeaSrc(source.baseUrl, decodePhotopeaConfig(window.location.href));
+
+    // Messages are collected per run, including the closing "done"
+    const received = new Map<number, AutomationData[]>();
+    let nextRunId = 0;
+    const client = new PhotopeaClient({
+      getTarget: () => iframeRef.current?.contentWindow,
+      allowedOrigins: source.allowedOrigins,
+      onMessage: (data, runId) => {
+        if (runId === null) return;
+        received.get(runId)?.push(encodeData(data));
+      },
+    });
+    const detach = client.attach();
+    let cancelled = false;
+    let stopWorker = () => {};
+
+    client
+      .waitForReady(READY_TIMEOUT_MS)
+      .then(() => {
+        if (cancelled) return;
+        window.photopeaAutomation = {
+          photopeaSrc: src,
+          run: async (payload, timeoutMs) => {
+            const runId = ++nextRunId;
+            const messages: AutomationData[] = [];
+            received.set(runId, messages);
+            const startedAt = Date.now();
+            try {
+              const result = await client.run(
+                payload.kind === "script" ? payload.script : (base64ToBytes(payload.base64).buffer as ArrayBuffer),
+                { exchangeId: runId, timeoutMs, catchErrors: true }
+              );
+              return { messages, error: result.error, durationMs: result.durationMs };
+            } catch (error) {
+              return {
+                messages,
+                failure: {
+                  dataType: error instanceof PhotopeaTimeoutError ? "timeout" : "error",
+                  message: error instanceof Error ? error.message : String(error),
+                },
+                durationMs: Date.now() - startedAt,
+              };
+            } finally {
+              received.delete(runId);
+            }
+          },
+        };
+        if (query.get("worker") === "1") {
+          stopWorker = startRunWorker(client, {
+            onJob: (job) => console.log(`Job ${job.id} ${job.status}${job.error ? `: ${job.error}` : ""}`),
+          });
+        }
+        setStatus({ ready: true });
+      })
+      .catch((error) => {
+        if (!cancelled) setStatus({ ready: false, error: `Photopea did not load: ${error.message}` });
+      });
+    setPhotopeaSrc(src);
+
+    return () => {
+      cancelled = true;
+      stopWorker();
+      detach();
+      client.cancelAll("Automation page unmounted");
+      delete window.photopeaAutomation;
+    };
+  }, []);
+
+  return (
+    <div className="relative h-screen bg-zinc-900">
+      {photopeaSrc && (
+        <iframe ref={iframeRef} src={photopeaSrc} className="w-full h-full border-0" allow="cross-origin-isolated" />
+      )}
+      {!status.ready && (
+        <div className="absolute inset-0 flex items-center justify-center bg-zinc-900 text-sm">
+          <div className={status.error ? "text-red-400" : "text-zinc-400"}>
+            {status.error ?? "Loading Photopea..."}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
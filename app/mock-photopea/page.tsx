@@ -0,0 +1,113 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { createMockPhotopea, type MockDocument, type MockPhotopea } from "@/lib/mock-photopea";
+import { decodePhotopeaConfig } from "@/lib/photopea-config";
+
+// Scripts run on this app's origin, so they are only taken from the app itself
+function isEmbeddedBySameOrigin(): boolean {
+  if (window.parent === window) return false;
+  try {
+    return window.parent.location.origin === window.location.origin;
+  } catch {
+    return false;
+  }
+}
+
+export default function MockPhotopeaPage() {
+  const [documents, setDocuments] = useState<MockDocument[]>([]);
+  const [activeName, setActiveName] = useState<string | null>(null);
+  const [log, setLog] = useState<string[]>([]);
+  const queueRef = useRef<Promise<void>>(Promise.resolve());
+  const announcedRef = useRef(false);
+  const mockRef = useRef<MockPhotopea | null>(null);
+  const [serverUrl, setServerUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    const post = (data: unknown) => window.parent.postMessage(data, window.location.origin);
+    const embedded = isEmbeddedBySameOrigin();
+    const { script: startupScript, ...config } = decodePhotopeaConfig(window.location.hash);
+    let mock: MockPhotopea | null = null;
+    const sync = () => {
+      if (!mock) return;
+      setServerUrl(config.server?.url ?? null);
+      setDocuments([...mock.app.documents]);
+      setActiveName(mock.app.documents.length > 0 ? mock.app.activeDocument.name : null);
+    };
+    mock = createMockPhotopea(embedded ? { ...config, script: startupScript } : config, {
+      post,
+      onChange: sync,
+      onLog: (line) => setLog((prev) => [...prev.slice(-199), line]),
+    });
+    if (startupScript && !embedded) {
+      console.warn("Mock Photopea: startup script skipped, the page is not embedded by the playground");
+    }
+    const instance = mock;
+    mockRef.current = mock;
+
+    const handleMessage = (e: MessageEvent) => {
+      if (e.source !== window.parent || e.origin !== window.location.origin) return;
+      // Like Photopea, handle one message at a time and finish each with "done".
+      queueRef.current = queueRef.current.then(async () => {
+        await instance.handle(e.data);
+        post("done");
+      });
+    };
+
+    window.addEventListener("message", handleMessage);
+    sync();
+    // Photopea announces it is ready with a single "done". Only send it once,
+    // even when effects run twice in development, or it would be taken as the
+    // reply to the first script.
+    if (!announcedRef.current) {
+      announcedRef.current = true;
+      post("done");
+    }
+
+    return () => window.removeEventListener("message", handleMessage);
+  }, []);
+
+  return (
+    <div className="flex h-screen bg-zinc-900 text-zinc-200 text-sm">
+      <div className="flex-1 flex flex-col items-center justify-center gap-4 p-6">
+        <div className="text-zinc-400">Mock Photopea</div>
+        {serverUrl && documents.length > 0 && (
+          <button
+            onClick={() => mockRef.current?.save()}
+            title={`Save to ${serverUrl}`}
+            className="px-3 py-1 text-xs bg-blue-600 hover:bg-blue-500 text-white rounded"
+          >
+            File › Save
+          </button>
+        )}
+        {documents.length === 0 && (
+          <div className="text-zinc-500">No documents open</div>
+        )}
+        <div className="flex flex-wrap gap-3 justify-center">
+          {documents.map((doc, i) => (
+            <div
+              key={i}
+              className={`p-3 rounded-lg bg-zinc-800 ${doc.name === activeName ? "ring-2 ring-blue-500" : ""}`}
+            >
+              <div className="font-medium">{doc.name}</div>
+              <div className="text-xs text-zinc-400">
+                {doc.width}×{doc.height} · {doc.resolution} dpi · {doc.layers.length} layer(s)
+              </div>
+              <ul className="mt-2 text-xs text-zinc-400">
+                {doc.layers.map((layer, j) => (
+                  <li key={j}>
+                    {layer.visible ? "●" : "○"} {layer.name} [{layer.bounds.join(", ")}]
+                  </li>
+                ))}
+              </ul>
+            </div>
+          ))}
+        </div>
+      </div>
+      <div className="w-80 border-l border-zinc-700 bg-zinc-800 p-3 overflow-y-auto">
+        <div className="text-xs font-medium text-zinc-400 mb-2">Script log</div>
+        <pre className="font-mono text-xs whitespace-pre-wrap break-words">{log.join("\n")}</pre>
+      </div>
+    </div>
+  );
+}
@@ -1,61 +1,270 @@
 "use client";
 
-import { useRef, useState, useEffect, useCallback } from "react";
+import { useRef, useState, useEffect, useCallback, useMemo } from "react";
 import { JsonView, darkStyles } from "react-json-view-lite";
 import "react-json-view-lite/dist/index.css";
 import { nanoid } from "nanoid";
+import { PhotopeaClient, PhotopeaTimeoutError, type PhotopeaPayload } from "@/lib/photopea-client";
+import {
+  detectSourceId,
+  getDefaultSourceId,
+  getPhotopeaSource,
+  isPhotopeaSourceId,
+  type PhotopeaSourceId,
+} from "@/lib/photopea-source";
+import { extractPlaceholders } from "@/lib/placeholders";
+import { formatDiagnostic, lintScript } from "@/lib/script-lint";
+import { scriptHistory } from "@/lib/script-history";
+import { groupExchanges, getExchangeStatus, isFailureDataType, type ExchangeStatus } from "@/lib/exchanges";
+import { describeData, describeRaw, toBlob } from "@/lib/message-format";
+import { formatFromExtension, formatFromMimeType, getFileFormat, sniffData } from "@/lib/file-format";
+import type { LibraryScript } from "@/lib/scripts";
+import ScriptLibraryPanel from "@/components/ScriptLibraryPanel";
+import AssetPickerPanel from "@/components/AssetPickerPanel";
+import ScriptParamsDialog from "@/components/ScriptParamsDialog";
+import ReplayPanel from "@/components/ReplayPanel";
+import FormatPreview from "@/components/FormatPreview";
+import BatchPanel from "@/components/BatchPanel";
+import PhotopeaConfigEditor from "@/components/PhotopeaConfigEditor";
+import SessionDetailsDialog from "@/components/SessionDetailsDialog";
+import ScriptEditor from "@/components/ScriptEditor";
+import InspectorPanel from "@/components/InspectorPanel";
+import VisualTestsPanel from "@/components/VisualTestsPanel";
+import { buildPhotopeaSrc, configFromSessionMetadata, type PhotopeaConfig } from "@/lib/photopea-config";
+import { photopeaSaveUrl, SAVE_ARTIFACT_PREFIX } from "@/lib/photopea-save";
+import { buildReplaySteps, runReplay, type ReplayRun } from "@/lib/replay";
+import { startRunWorker } from "@/lib/run-worker";
+import type { Session, SessionArtifact, SessionDetails } from "@/lib/session";
+import type { VisualTest } from "@/lib/visual-test";
+import type { SessionPage, SessionSummary } from "@/lib/session-query";
+import { SESSION_CLIENT_HEADER, type SessionChangeEvent } from "@/lib/session-events";
+import { mergeSessionMessages } from "@/lib/session-merge";
 
 interface Message {
   id: number;
   type: "sent" | "received";
+  exchangeId?: number;
   content: string;
   rawData: unknown;
   rawString: string;
   dataType: string;
   previewUrl?: string;
+  artifact?: SessionArtifact;
+  format?: string;
   timestamp: Date;
 }
 
-interface SessionData {
+interface SessionData extends SessionDetails {
   id: string;
   createdAt: string;
   updatedAt: string;
-  messages: Omit<Message, "rawData" | "previewUrl" | "timestamp">[];
+  revision?: number;
+  forkedFrom?: Session["forkedFrom"];
+  tests?: Session["tests"];
+  messages: (Omit<Message, "rawData" | "previewUrl" | "timestamp"> & { timestamp?: string })[];
   metadata?: {
     imageUrls?: string[];
     photopeaSrc?: string;
+    config?: PhotopeaConfig;
   };
 }
 
-interface SessionListItem {
-  id: string;
-  createdAt: string;
-  updatedAt: string;
-  messageCount: number;
+// Photopea can take a while to boot, especially with several images in the config
+const REPLAY_READY_TIMEOUT_MS = 60000;
+
+// How often to look for files Photopea saved into the session via its server callback
+const SAVE_POLL_INTERVAL_MS = 3000;
+// Saves retried in a row after conflicts before the tab gives up until the next change
+const MAX_CONFLICT_RETRIES = 3;
+
+// Tabs in this browser announce their saves on this channel
+const SESSION_SYNC_CHANNEL = "photopea-sessions";
+
+function artifactUrl(sessionId: string, artifact: SessionArtifact): string {
+  return `/api/sessions/${sessionId}/artifacts/${artifact.id}`;
+}
+
+function toMessage(sessionId: string, msg: SessionData["messages"][number]): Message {
+  return {
+    ...msg,
+    rawData: msg.rawString,
+    previewUrl: msg.artifact ? artifactUrl(sessionId, msg.artifact) : undefined,
+    format: msg.format ?? formatFromMimeType(msg.artifact?.mimeType ?? "")?.id,
+    // Sessions saved before timestamps were stored fall back to now
+    timestamp: msg.timestamp ? new Date(msg.timestamp) : new Date(),
+  };
+}
+
+function toStoredMessage(msg: Message): SessionData["messages"][number] {
+  return {
+    id: msg.id,
+    type: msg.type,
+    content: msg.content,
+    rawString: msg.rawString,
+    dataType: msg.dataType,
+    timestamp: msg.timestamp.toISOString(),
+    exchangeId: msg.exchangeId,
+    artifact: msg.artifact,
+    format: msg.format,
+  };
+}
+
+interface SyncState {
+  /** Revision of the stored session this tab's messages are based on. */
+  revision: number;
+  /** Ids of the messages held by that revision. */
+  syncedIds: Set<number>;
+  /** Local ids that merges renumbered, for replies to exchanges still in flight. */
+  renumbered: Map<number, number>;
+  /** Newest revision announced by another tab while a save was in flight. */
+  remoteRevision: number;
+  /** What the last save (or merge) stored, so saves that change nothing are skipped. */
+  savedSnapshot: string | null;
+}
+
+function initialSyncState(session?: SessionData): SyncState {
+  return {
+    revision: session?.revision ?? 0,
+    syncedIds: new Set(session?.messages.map((m) => m.id)),
+    renumbered: new Map(),
+    remoteRevision: 0,
+    savedSnapshot: null,
+  };
+}
+
+function sessionInfoOf(session: SessionData): SessionInfo {
+  const { title, description, tags, pinned, forkedFrom, tests } = session;
+  return { title, description, tags, pinned, forkedFrom, tests };
+}
+
+/**
+ * Stores `blob` with the session. Artifacts are only accepted for stored
+ * sessions, so on a 404 `storeSession` is given the chance to store it first.
+ */
+async function uploadArtifact(
+  sessionId: string,
+  blob: Blob,
+  storeSession?: (sessionId: string) => Promise<void>
+): Promise<SessionArtifact | null> {
+  try {
+    const post = () =>
+      fetch(`/api/sessions/${sessionId}/artifacts`, {
+        method: "POST",
+        headers: { "Content-Type": blob.type || "application/octet-stream" },
+        body: blob,
+      });
+    let res = await post();
+    if (res.status === 404 && storeSession) {
+      await storeSession(sessionId);
+      res = await post();
+    }
+    if (!res.ok) throw new Error(`Upload failed with ${res.status}`);
+    return await res.json();
+  } catch (error) {
+    console.error("Failed to upload artifact:", error);
+    return null;
+  }
+}
+
+interface SessionFilters {
+  q: string;
+  dataType: string;
+  hasErrors: "" | "true" | "false";
+  from: string;
+  to: string;
 }
 
+const EMPTY_SESSION_FILTERS: SessionFilters = { q: "", dataType: "", hasErrors: "", from: "", to: "" };
+
+const SESSION_DATA_TYPES = ["string", "ArrayBuffer", "file", "error", "save", "object", "done"];
+
+/** Fields of the current session that are not derived from the console state. */
+type SessionInfo = Pick<SessionData, "title" | "description" | "tags" | "pinned" | "forkedFrom" | "tests">;
+
 export default function PhotopeaPlayground() {
   const iframeRef = useRef<HTMLIFrameElement>(null);
   const [messages, setMessages] = useState<Message[]>([]);
   const [input, setInput] = useState("");
+  const [inputError, setInputError] = useState<string | null>(null);
   const [isLoaded, setIsLoaded] = useState(false);
   const [imageUrls, setImageUrls] = useState<string[]>([]);
   const [urlInput, setUrlInput] = useState("");
-  const [photopeaSrc, setPhotopeaSrc] = useState("https://www.photopea.com");
+  const [isDraggingFiles, setIsDraggingFiles] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [sourceId, setSourceId] = useState<PhotopeaSourceId>(getDefaultSourceId);
+  const [photopeaSrc, setPhotopeaSrc] = useState(() => getPhotopeaSource(getDefaultSourceId()).baseUrl);
+  // Everything in the hash config except `files`, which come from imageUrls
+  const [photopeaConfig, setPhotopeaConfig] = useState<PhotopeaConfig>({});
+  const [showConfig, setShowConfig] = useState(false);
+  const [showAssets, setShowAssets] = useState(false);
+  // The config editor reads resources once; remount it when the asset picker adds one
+  const [assetRevision, setAssetRevision] = useState(0);
+  // Bumped to force an iframe reload when the src itself does not change
+  const [iframeGeneration, setIframeGeneration] = useState(0);
   const [selectedMessage, setSelectedMessage] = useState<Message | null>(null);
   const [showRaw, setShowRaw] = useState(false);
+  const [showFailedOnly, setShowFailedOnly] = useState(false);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const messageIdRef = useRef(0);
+  const clientRef = useRef<PhotopeaClient | null>(null);
+
+  // Script library
+  const [libraryScripts, setLibraryScripts] = useState<LibraryScript[]>([]);
+  const [showLibrary, setShowLibrary] = useState(false);
+  const [activeTag, setActiveTag] = useState<string | null>(null);
+  const [paramsScript, setParamsScript] = useState<string | null>(null);
+
+  const [showBatch, setShowBatch] = useState(false);
+  const [showInspector, setShowInspector] = useState(false);
+  const [showTests, setShowTests] = useState(false);
+  // Console scripts finished so far, so the inspector can refresh after each
+  const [scriptRuns, setScriptRuns] = useState(0);
+  // Whether this tab takes jobs queued with POST /api/run, and how many it finished
+  const [workerEnabled, setWorkerEnabled] = useState(false);
+  const [workerJobs, setWorkerJobs] = useState(0);
+
+  // Replay
+  const [replay, setReplay] = useState<ReplayRun | null>(null);
+  const replayRunRef = useRef(0);
 
   // Session management
   const [sessionId, setSessionId] = useState<string>("");
-  const [sessions, setSessions] = useState<SessionListItem[]>([]);
+  const [sessionInfo, setSessionInfo] = useState<SessionInfo>({});
+  const [editingSession, setEditingSession] = useState<{ id: string; details: SessionDetails } | null>(null);
+  // Read by the message handler, which outlives individual sessions
+  const sessionIdRef = useRef("");
+
+  // Cross-tab sync: every save carries the revision it is based on, and
+  // saves made elsewhere are merged in rather than overwritten
+  const [clientId] = useState(() => nanoid(8));
+  const syncRef = useRef<SyncState>(initialSyncState());
+  const storingSessionRef = useRef(new Map<string, Promise<void>>());
+  const savingRef = useRef(false);
+  const channelRef = useRef<BroadcastChannel | null>(null);
+  const onRemoteRevisionRef = useRef<(event: SessionChangeEvent) => void>(() => {});
+  // Bumped to retry a save after merging a conflicting one
+  const [saveRequest, setSaveRequest] = useState(0);
+  const conflictRetriesRef = useRef(0);
+  const [sessions, setSessions] = useState<SessionSummary[]>([]);
+  const [sessionsTotal, setSessionsTotal] = useState(0);
+  const [sessionsCursor, setSessionsCursor] = useState<string | null>(null);
+  const [sessionFilters, setSessionFilters] = useState<SessionFilters>(EMPTY_SESSION_FILTERS);
+  // Responses to superseded list requests (e.g. while typing a search) are dropped
+  const sessionsRequestRef = useRef(0);
   const [showSessions, setShowSessions] = useState(false);
   const [isSaving, setIsSaving] = useState(false);
-  const saveTimeoutRef = useRef<NodeJS.Timeout>();
+  const [importStatus, setImportStatus] = useState<string | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const saveTimeoutRef = useRef<NodeJS.Timeout>(undefined);
 
   // Initialize or load session
   useEffect(() => {
+    const storedSource = localStorage.getItem("photopeaSource");
+    if (isPhotopeaSourceId(storedSource)) {
+      setSourceId(storedSource);
+      setPhotopeaSrc(getPhotopeaSource(storedSource).baseUrl);
+    }
+
     const stored = localStorage.getItem("currentSessionId");
     if (stored) {
       setSessionId(stored);
@@ -65,12 +274,63 @@ export default function PhotopeaPlayground() {
       setSessionId(newId);
       localStorage.setItem("currentSessionId", newId);
     }
-    loadSessionsList();
+    loadSessionsList(EMPTY_SESSION_FILTERS);
+    loadLibrary();
   }, []);
 
+  useEffect(() => {
+    sessionIdRef.current = sessionId;
+  }, [sessionId]);
+
+  // Artifacts already shown as messages, so saves are only added once
+  const knownArtifactsRef = useRef(new Set<string>());
+  useEffect(() => {
+    knownArtifactsRef.current = new Set(messages.flatMap((m) => (m.artifact ? [m.artifact.id] : [])));
+  }, [messages]);
+
+  // While Photopea saves into this session, show each saved file as a message
+  useEffect(() => {
+    if (!sessionId || photopeaConfig.server?.url !== photopeaSaveUrl(window.location.origin, sessionId)) return;
+
+    const poll = async () => {
+      try {
+        const res = await fetch(`/api/sessions/${sessionId}/artifacts`);
+        const artifacts: SessionArtifact[] = await res.json();
+        const saved = artifacts.filter(
+          (a) => a.id.startsWith(SAVE_ARTIFACT_PREFIX) && !knownArtifactsRef.current.has(a.id)
+        );
+        if (saved.length === 0 || sessionIdRef.current !== sessionId) return;
+
+        saved.forEach((a) => knownArtifactsRef.current.add(a.id));
+        const added: Message[] = saved.map((artifact) => {
+          const content = `Saved from Photopea: ${artifact.id} (${artifact.size} bytes)`;
+          return {
+            id: ++messageIdRef.current,
+            type: "received",
+            content,
+            rawData: content,
+            rawString: content,
+            dataType: "save",
+            previewUrl: artifactUrl(sessionId, artifact),
+            artifact,
+            format: formatFromMimeType(artifact.mimeType)?.id,
+            timestamp: new Date(artifact.createdAt),
+          };
+        });
+        setMessages((prev) => [...prev, ...added]);
+      } catch (error) {
+        console.error("Failed to check for Photopea saves:", error);
+      }
+    };
+
+    const timer = setInterval(poll, SAVE_POLL_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [sessionId, photopeaConfig.server?.url]);
+
   // Auto-save session (debounced)
   useEffect(() => {
-    if (!sessionId || messages.length === 0) return;
+    // Nothing to keep yet; tests alone are worth a save
+    if (!sessionId || (messages.length === 0 && !sessionInfo.tests?.length)) return;
 
     if (saveTimeoutRef.current) {
       clearTimeout(saveTimeoutRef.current);
@@ -85,27 +345,43 @@ export default function PhotopeaPlayground() {
         clearTimeout(saveTimeoutRef.current);
       }
     };
-  }, [messages, imageUrls, photopeaSrc, sessionId]);
+  }, [messages, imageUrls, photopeaConfig, photopeaSrc, sessionId, saveRequest, sessionInfo.tests]);
+
+  // Everything a save writes apart from ids, timestamps and the revision
+  const sessionContent = (info: SessionInfo, msgs: Message[]) => ({
+    ...info,
+    messages: msgs.map(toStoredMessage),
+    metadata: {
+      imageUrls,
+      photopeaSrc,
+      config: { ...photopeaConfig, files: imageUrls },
+    },
+  });
 
   const saveSession = async () => {
     if (!sessionId) return;
 
+    const content = sessionContent(sessionInfo, messages);
+    const snapshot = JSON.stringify(content);
+    if (snapshot === syncRef.current.savedSnapshot) return;
+
+    // When the only change is new messages at the end, append just those
+    const { syncedIds, savedSnapshot } = syncRef.current;
+    const firstNew = messages.findIndex((m) => !syncedIds.has(m.id));
+    const appended = firstNew === -1 ? [] : content.messages.slice(firstNew);
+    const appendOnly =
+      appended.length > 0 &&
+      appended.every((m) => !syncedIds.has(m.id)) &&
+      JSON.stringify(sessionContent(sessionInfo, messages.slice(0, firstNew))) === savedSnapshot;
+
     setIsSaving(true);
+    savingRef.current = true;
     const session: SessionData = {
       id: sessionId,
       createdAt: localStorage.getItem(`session_${sessionId}_created`) || new Date().toISOString(),
       updatedAt: new Date().toISOString(),
-      messages: messages.map((msg) => ({
-        id: msg.id,
-        type: msg.type,
-        content: msg.content,
-        rawString: msg.rawString,
-        dataType: msg.dataType,
-      })),
-      metadata: {
-        imageUrls,
-        photopeaSrc,
-      },
+      revision: syncRef.current.revision,
+      ...content,
     };
 
     if (!localStorage.getItem(`session_${sessionId}_created`)) {
@@ -113,77 +389,354 @@ export default function PhotopeaPlayground() {
     }
 
     try {
-      await fetch("/api/sessions", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify(session),
-      });
-      await loadSessionsList();
+      const headers = { "Content-Type": "application/json", [SESSION_CLIENT_HEADER]: clientId };
+      const res = appendOnly
+        ? await fetch(`/api/sessions/${sessionId}/messages`, {
+            method: "POST",
+            headers,
+            body: JSON.stringify({ revision: session.revision, messages: appended }),
+          })
+        : await fetch("/api/sessions", { method: "POST", headers, body: JSON.stringify(session) });
+      const result = await res.json();
+      if (res.status === 409) {
+        // Another tab saved first: take in its changes, then save on top of them
+        const merged = !!result.session && applyRemoteSession(result.session, { conflict: true });
+        if (merged && conflictRetriesRef.current < MAX_CONFLICT_RETRIES) {
+          conflictRetriesRef.current++;
+          setSaveRequest((n) => n + 1);
+        } else {
+          console.error("Failed to save session:", result.error);
+          conflictRetriesRef.current = 0;
+        }
+        return;
+      }
+      if (!res.ok) {
+        console.error("Failed to save session:", result.error);
+        // Send the whole session next time
+        syncRef.current.savedSnapshot = null;
+        return;
+      }
+
+      conflictRetriesRef.current = 0;
+      syncRef.current.revision = result.revision;
+      syncRef.current.syncedIds = new Set(session.messages.map((m) => m.id));
+      syncRef.current.savedSnapshot = snapshot;
+      const event: SessionChangeEvent = { sessionId, revision: result.revision, updatedAt: session.updatedAt, clientId };
+      channelRef.current?.postMessage(event);
+      await loadSessionsList(sessionFilters);
     } catch (error) {
       console.error("Failed to save session:", error);
     } finally {
       setIsSaving(false);
+      savingRef.current = false;
+      if (syncRef.current.remoteRevision > syncRef.current.revision) pullRemoteSession(sessionId);
     }
   };
 
-  const loadSessionData = async (id: string) => {
+  /**
+   * Merges a session saved elsewhere into the console. Messages from both
+   * sides are kept; title and tags follow the stored session, while images
+   * and config stay as this tab has them. Returns whether it was merged.
+   *
+   * A conflict is always merged, whatever the revisions: the stored session
+   * wins even when it is behind this tab (e.g. after the store was reset), and
+   * then messages it lacks are kept as unsaved rather than dropped.
+   */
+  const applyRemoteSession = (session: SessionData, { conflict = false } = {}): boolean => {
+    if (session.id !== sessionIdRef.current) return false;
+    const behind = (session.revision ?? 0) <= syncRef.current.revision;
+    if (behind && !conflict) return false;
+
+    const remote = session.messages.map((m) => toMessage(session.id, m));
+    const remoteIds = new Set(remote.map((m) => m.id));
+    const synced = behind
+      ? new Set([...syncRef.current.syncedIds].filter((id) => remoteIds.has(id)))
+      : syncRef.current.syncedIds;
+    const info = sessionInfoOf(session);
+    setMessages((prev) => {
+      const { messages: merged, renumbered } = mergeSessionMessages(remote, prev, synced);
+      const ids = syncRef.current.renumbered;
+      ids.forEach((to, from) => ids.set(from, renumbered.get(to) ?? to));
+      renumbered.forEach((to, from) => ids.set(from, to));
+      messageIdRef.current = Math.max(messageIdRef.current, ...merged.map((m) => m.id));
+      return merged;
+    });
+    setSessionInfo(info);
+
+    syncRef.current.revision = session.revision ?? 0;
+    syncRef.current.syncedIds = remoteIds;
+    // After a conflict the local changes still have to be saved
+    if (!conflict) syncRef.current.savedSnapshot = JSON.stringify(sessionContent(info, remote));
+    return true;
+  };
+
+  const pullRemoteSession = async (id: string) => {
+    try {
+      const res = await fetch(`/api/sessions/${id}`);
+      if (res.ok) applyRemoteSession(await res.json());
+    } catch (error) {
+      console.error("Failed to sync session:", error);
+    }
+  };
+
+  const handleRemoteRevision = (event: SessionChangeEvent) => {
+    if (event.sessionId !== sessionIdRef.current || event.clientId === clientId) return;
+    if (event.revision <= syncRef.current.revision) return;
+
+    syncRef.current.remoteRevision = Math.max(syncRef.current.remoteRevision, event.revision);
+    // A save in flight either gets a 409 or pulls once it is done
+    if (!savingRef.current) pullRemoteSession(event.sessionId);
+  };
+
+  useEffect(() => {
+    onRemoteRevisionRef.current = handleRemoteRevision;
+  });
+
+  useEffect(() => {
+    if (typeof BroadcastChannel === "undefined") return;
+    const channel = new BroadcastChannel(SESSION_SYNC_CHANNEL);
+    channel.onmessage = (e: MessageEvent<SessionChangeEvent>) => onRemoteRevisionRef.current(e.data);
+    channelRef.current = channel;
+    return () => {
+      channel.close();
+      channelRef.current = null;
+    };
+  }, []);
+
+  // Saves from other browsers, and detail edits, arrive over Server-Sent Events
+  useEffect(() => {
+    if (!sessionId) return;
+    const events = new EventSource(`/api/sessions/${sessionId}/events`);
+    events.addEventListener("revision", (e) => {
+      onRemoteRevisionRef.current(JSON.parse((e as MessageEvent<string>).data));
+    });
+    return () => events.close();
+  }, [sessionId]);
+
+
+  const loadSessionData = async (id: string): Promise<SessionData | null> => {
     try {
       const res = await fetch(`/api/sessions/${id}`);
       if (res.ok) {
         const session: SessionData = await res.json();
-        setMessages(
-          session.messages.map((msg) => ({
-            ...msg,
-            rawData: msg.rawString,
-            timestamp: new Date(),
-          }))
-        );
-        if (session.metadata?.imageUrls) {
-          setImageUrls(session.metadata.imageUrls);
-        }
+        syncRef.current = initialSyncState(session);
+        setMessages(session.messages.map((msg) => toMessage(id, msg)));
+        setSessionInfo(sessionInfoOf(session));
+        const { files, ...config } = configFromSessionMetadata(session.metadata);
+        setImageUrls(files ?? []);
+        setPhotopeaConfig(config);
         if (session.metadata?.photopeaSrc) {
           setPhotopeaSrc(session.metadata.photopeaSrc);
+          const detected = detectSourceId(session.metadata.photopeaSrc);
+          if (detected) setSourceId(detected);
         }
         messageIdRef.current = Math.max(0, ...session.messages.map((m) => m.id));
+        return session;
       }
     } catch (error) {
       console.error("Failed to load session:", error);
     }
+    return null;
   };
 
-  const loadSessionsList = async () => {
+  /** Loads the first page of sessions matching the filters, or the page after `cursor`. */
+  const loadSessionsList = async (filters: SessionFilters, cursor?: string) => {
+    const params = new URLSearchParams(
+      Object.entries(filters).filter(([, value]) => value !== "")
+    );
+    if (cursor) params.set("cursor", cursor);
+    const request = ++sessionsRequestRef.current;
+
     try {
-      const res = await fetch("/api/sessions");
-      const allSessions: SessionData[] = await res.json();
-      setSessions(
-        allSessions.map((s) => ({
-          id: s.id,
-          createdAt: s.createdAt,
-          updatedAt: s.updatedAt,
-          messageCount: s.messages.length,
-        }))
-      );
+      const res = await fetch(`/api/sessions?${params}`);
+      if (!res.ok || request !== sessionsRequestRef.current) return;
+      const page: SessionPage = await res.json();
+      setSessions((prev) => (cursor ? [...prev, ...page.sessions] : page.sessions));
+      setSessionsTotal(page.total);
+      setSessionsCursor(page.nextCursor);
     } catch (error) {
       console.error("Failed to load sessions list:", error);
     }
   };
 
+  const importSessionBundle = async (file: File) => {
+    setImportStatus(`Importing ${file.name}…`);
+    try {
+      const res = await fetch("/api/sessions/import", {
+        method: "POST",
+        headers: { "Content-Type": "application/zip" },
+        body: file,
+      });
+      const result = await res.json();
+      if (!res.ok) {
+        setImportStatus(`Import failed: ${result.error}`);
+        return;
+      }
+      const summary: SessionSummary = result.session;
+      setImportStatus(
+        result.originalId
+          ? `Imported as ${summary.id} (${result.originalId} already exists)`
+          : `Imported ${summary.id} with ${result.artifactCount} artifact(s)`
+      );
+      await loadSessionsList(sessionFilters);
+    } catch (error) {
+      console.error("Failed to import session:", error);
+      setImportStatus("Import failed");
+    }
+  };
+
+  const updateSessionDetails = async (id: string, details: SessionDetails) => {
+    try {
+      const res = await fetch(`/api/sessions/${id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(details),
+      });
+      const isCurrent = id === sessionIdRef.current;
+      // The current session may not have been saved yet; its first auto-save stores them
+      if (!res.ok && !(isCurrent && res.status === 404)) {
+        console.error("Failed to update session:", (await res.json()).error);
+        return;
+      }
+      // Keep the next auto-save from writing the old details back
+      if (isCurrent) setSessionInfo((prev) => ({ ...prev, ...details }));
+      await loadSessionsList(sessionFilters);
+    } catch (error) {
+      console.error("Failed to update session:", error);
+    }
+  };
+
+  const updateTests = (tests: VisualTest[]) => {
+    setSessionInfo((prev) => ({ ...prev, tests }));
+  };
+
+  const acceptGolden = async (testId: string, data: ArrayBuffer) => {
+    const artifact = await uploadArtifact(sessionId, new Blob([data]), storeNewSession);
+    if (!artifact) throw new Error("Could not store the golden image");
+    setSessionInfo((prev) => ({
+      ...prev,
+      tests: prev.tests?.map((t) => (t.id === testId ? { ...t, golden: artifact } : t)),
+    }));
+  };
+
+  const forkFromMessage = async (msg: Message) => {
+    // The fork is made server-side, so flush any pending auto-save first
+    if (saveTimeoutRef.current) clearTimeout(saveTimeoutRef.current);
+    await saveSession();
+
+    try {
+      const res = await fetch(`/api/sessions/${sessionId}/fork`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ messageId: msg.id }),
+      });
+      const result = await res.json();
+      if (!res.ok) {
+        console.error("Failed to fork session:", result.error);
+        return;
+      }
+      setSelectedMessage(null);
+      await switchSession(result.session.id);
+      await loadSessionsList(sessionFilters);
+    } catch (error) {
+      console.error("Failed to fork session:", error);
+    }
+  };
+
+  const updateSessionFilters = (patch: Partial<SessionFilters>) => {
+    const filters = { ...sessionFilters, ...patch };
+    setSessionFilters(filters);
+    loadSessionsList(filters);
+  };
+
+  const loadLibrary = async () => {
+    try {
+      const res = await fetch("/api/scripts");
+      setLibraryScripts(await res.json());
+    } catch (error) {
+      console.error("Failed to load script library:", error);
+    }
+  };
+
   const createNewSession = () => {
     const newId = nanoid(16);
     setSessionId(newId);
     localStorage.setItem("currentSessionId", newId);
     localStorage.removeItem(`session_${newId}_created`);
+    syncRef.current = initialSyncState();
+    setSessionInfo({});
     setMessages([]);
     messageIdRef.current = 0;
     setImageUrls([]);
-    setPhotopeaSrc("https://www.photopea.com");
+    setPhotopeaConfig({});
+    setPhotopeaSrc(getPhotopeaSource(sourceId).baseUrl);
   };
 
   const switchSession = async (id: string) => {
     setSessionId(id);
     localStorage.setItem("currentSessionId", id);
-    await loadSessionData(id);
+    const session = await loadSessionData(id);
     setShowSessions(false);
+    return session;
+  };
+
+  const startReplay = async (id: string, e: React.MouseEvent) => {
+    e.stopPropagation();
+    const client = clientRef.current;
+    if (!client) return;
+
+    const runId = ++replayRunRef.current;
+    const isCurrent = () => replayRunRef.current === runId;
+    const session = await switchSession(id);
+    if (!session || !isCurrent()) return;
+
+    const steps = buildReplaySteps(session.messages);
+    setReplay({ sessionId: id, status: "loading", steps });
+
+    // Reload Photopea exactly as the session had it, then wait for its ready "done"
+    client.cancelAll("Replay started");
+    const ready = client.waitForReady(REPLAY_READY_TIMEOUT_MS);
+    setIsLoaded(false);
+    setPhotopeaSrc(
+      session.metadata?.photopeaSrc ||
+        buildPhotopeaSrc(getPhotopeaSource(sourceId).baseUrl, configFromSessionMetadata(session.metadata))
+    );
+    setIframeGeneration((g) => g + 1);
+
+    try {
+      await ready;
+    } catch {
+      if (isCurrent()) {
+        setReplay((r) => r && { ...r, status: "failed", error: "Photopea did not finish loading" });
+      }
+      return;
+    }
+    if (!isCurrent()) return;
+
+    setReplay((r) => r && { ...r, status: "running" });
+    await runReplay(client, steps, {
+      readArtifact: async (artifact) => {
+        const res = await fetch(artifactUrl(id, artifact));
+        if (!res.ok) throw new Error(`Could not load ${artifact.id}: ${res.status}`);
+        return res.arrayBuffer();
+      },
+      onUpdate: (updated) => {
+        if (isCurrent()) setReplay((r) => r && { ...r, steps: updated });
+      },
+      isCancelled: () => !isCurrent(),
+    });
+    if (isCurrent()) setReplay((r) => r && { ...r, status: "finished" });
+  };
+
+  const stopReplay = () => {
+    replayRunRef.current++;
+    clientRef.current?.cancelAll("Replay stopped");
+    setReplay((r) => r && { ...r, status: "cancelled" });
+  };
+
+  const closeReplay = () => {
+    replayRunRef.current++;
+    setReplay(null);
   };
 
   const deleteSessionById = async (id: string, e: React.MouseEvent) => {
@@ -192,7 +745,7 @@ export default function PhotopeaPlayground() {
 
     try {
       await fetch(`/api/sessions/${id}`, { method: "DELETE" });
-      await loadSessionsList();
+      await loadSessionsList(sessionFilters);
       if (id === sessionId) {
         createNewSession();
       }
@@ -209,132 +762,181 @@ export default function PhotopeaPlayground() {
     scrollToBottom();
   }, [messages]);
 
-  const handleMessage = useCallback((e: MessageEvent) => {
-    // Only accept messages from Photopea
-    if (!e.origin.includes("photopea.com")) {
-      return;
-    }
-
-    const data = e.data;
+  const exchanges = useMemo(() => groupExchanges(messages), [messages]);
+  const sentScripts = useMemo(() => scriptHistory(messages), [messages]);
+  const failedCount = useMemo(() => messages.filter((m) => isFailureDataType(m.dataType)).length, [messages]);
+  const visibleExchanges = useMemo(
+    () =>
+      showFailedOnly && failedCount > 0
+        ? exchanges.filter((exchange) => {
+            const status = getExchangeStatus(exchange);
+            return status === "failed" || status === "timeout";
+          })
+        : exchanges,
+    [exchanges, showFailedOnly, failedCount]
+  );
 
-    // Create raw string representation
-    let rawString: string;
-    try {
-      if (data instanceof ArrayBuffer) {
-        const bytes = new Uint8Array(data);
-        rawString = `[ArrayBuffer(${data.byteLength})] ${Array.from(bytes.slice(0, 50)).map(b => b.toString(16).padStart(2, '0')).join(' ')}${bytes.length > 50 ? '...' : ''}`;
-      } else if (data instanceof Uint8Array || ArrayBuffer.isView(data)) {
-        const arr = data as Uint8Array;
-        rawString = `[${data.constructor.name}(${arr.length})] ${Array.from(arr.slice(0, 50)).map(b => b.toString(16).padStart(2, '0')).join(' ')}${arr.length > 50 ? '...' : ''}`;
-      } else if (data instanceof Blob) {
-        rawString = `[Blob(${data.size}, ${data.type || 'unknown'})]`;
-      } else if (typeof data === 'object' && data !== null) {
-        rawString = JSON.stringify(data, null, 2);
-      } else {
-        rawString = String(data);
-      }
-    } catch {
-      rawString = String(data);
+  // Stores a session that has not been saved yet, with no messages, so its
+  // first artifacts have somewhere to go; the next auto-save fills it in
+  const storeNewSession = useCallback((id: string) => {
+    const storing = storingSessionRef.current;
+    if (syncRef.current.revision > 0 || id !== sessionIdRef.current) return Promise.resolve();
+    if (!storing.has(id)) {
+      const createdAt = localStorage.getItem(`session_${id}_created`) || new Date().toISOString();
+      localStorage.setItem(`session_${id}_created`, createdAt);
+      const session: SessionData = { id, createdAt, updatedAt: createdAt, revision: 0, messages: [] };
+      storing.set(
+        id,
+        fetch("/api/sessions", {
+          method: "POST",
+          headers: { "Content-Type": "application/json", [SESSION_CLIENT_HEADER]: clientId },
+          body: JSON.stringify(session),
+        })
+          .then(async (res) => {
+            const result = await res.json();
+            if (res.ok && id === sessionIdRef.current && syncRef.current.revision === 0) {
+              syncRef.current.revision = result.revision;
+            }
+          })
+          .catch((error) => console.error("Failed to store session:", error))
+          .finally(() => storing.delete(id))
+      );
     }
+    return storing.get(id)!;
+  }, [clientId]);
+
+  const handleMessage = useCallback((data: unknown, exchangeId: number | null) => {
+    const { content, rawString, dataType } = describeData(data);
 
     // Log for debugging
     console.log("Photopea raw:", rawString);
 
-    let content: string;
-    let dataType: string;
-    let previewUrl: string | undefined;
-
-    if (data === "done") {
-      content = "✓ done";
-      dataType = "done";
-    } else if (typeof data === "string") {
-      content = data;
-      dataType = "string";
-    } else if (data instanceof ArrayBuffer) {
-      const bytes = new Uint8Array(data);
-      const preview = Array.from(bytes.slice(0, 20))
-        .map((b) => b.toString(16).padStart(2, "0"))
-        .join(" ");
-      content = `ArrayBuffer (${data.byteLength} bytes)\nHex: ${preview}${bytes.length > 20 ? "..." : ""}`;
-      dataType = "ArrayBuffer";
-
-      // Try to create image preview
-      const blob = new Blob([data]);
-      previewUrl = URL.createObjectURL(blob);
-    } else if (data instanceof Uint8Array) {
-      const preview = Array.from(data.slice(0, 20))
-        .map((b) => b.toString(16).padStart(2, "0"))
-        .join(" ");
-      content = `Uint8Array (${data.length} bytes)\nHex: ${preview}${data.length > 20 ? "..." : ""}`;
-      dataType = "Uint8Array";
-
-      const blob = new Blob([data]);
-      previewUrl = URL.createObjectURL(blob);
-    } else if (data instanceof Blob) {
-      content = `Blob (${data.size} bytes, type: ${data.type || "unknown"})`;
-      dataType = "Blob";
-      previewUrl = URL.createObjectURL(data);
-    } else if (ArrayBuffer.isView(data)) {
-      // Handle other TypedArrays
-      const arr = data as Uint8Array;
-      const preview = Array.from(arr.slice(0, 20))
-        .map((b) => b.toString(16).padStart(2, "0"))
-        .join(" ");
-      content = `${data.constructor.name} (${arr.length} bytes)\nHex: ${preview}${arr.length > 20 ? "..." : ""}`;
-      dataType = data.constructor.name;
-
-      const blob = new Blob([data]);
-      previewUrl = URL.createObjectURL(blob);
-    } else if (typeof data === "object" && data !== null) {
-      try {
-        content = JSON.stringify(data, null, 2);
-        dataType = "object";
-      } catch {
-        content = String(data);
-        dataType = "unknown";
-      }
-    } else if (typeof data === "number") {
-      content = String(data);
-      dataType = "number";
-    } else if (typeof data === "boolean") {
-      content = String(data);
-      dataType = "boolean";
-    } else {
-      content = String(data);
-      dataType = typeof data;
-    }
+    const blob = toBlob(data);
+
+    // Merges with other tabs may have renumbered this tab's messages since
+    const currentId = (messageId: number) => syncRef.current.renumbered.get(messageId) ?? messageId;
 
+    const id = ++messageIdRef.current;
     setMessages((prev) => [
       ...prev,
       {
-        id: ++messageIdRef.current,
+        id,
         type: "received",
+        exchangeId: exchangeId !== null ? currentId(exchangeId) : undefined,
         content,
         rawData: data,
         rawString,
         dataType,
-        previewUrl,
         timestamp: new Date(),
       },
     ]);
-  }, []);
+
+    if (!blob) return;
+
+    // Label binary data with its real format for previews and downloads, then
+    // keep it with the session so it survives reloads
+    const uploadSessionId = sessionIdRef.current;
+    sniffData(data).then(async (format) => {
+      const typed = format ? new Blob([blob], { type: format.mimeType }) : blob;
+      const previewUrl = URL.createObjectURL(typed);
+      setMessages((prev) =>
+        prev.map((m) => (m.id === currentId(id) ? { ...m, previewUrl, format: format?.id } : m))
+      );
+
+      if (!uploadSessionId) return;
+      const artifact = await uploadArtifact(uploadSessionId, typed, storeNewSession);
+      if (!artifact || sessionIdRef.current !== uploadSessionId) return;
+      setMessages((prev) => prev.map((m) => (m.id === currentId(id) ? { ...m, artifact } : m)));
+    });
+  }, [storeNewSession]);
 
   useEffect(() => {
-    window.addEventListener("message", handleMessage);
-    return () => window.removeEventListener("message", handleMessage);
+    const client = new PhotopeaClient({
+      getTarget: () => iframeRef.current?.contentWindow,
+      onMessage: handleMessage,
+    });
+    clientRef.current = client;
+    const detach = client.attach();
+    return () => {
+      detach();
+      client.cancelAll("Photopea console unmounted");
+      clientRef.current = null;
+    };
   }, [handleMessage]);
 
-  const sendMessage = () => {
-    if (!input.trim() || !iframeRef.current?.contentWindow) return;
+  useEffect(() => {
+    clientRef.current?.setAllowedOrigins(getPhotopeaSource(sourceId).allowedOrigins);
+  }, [sourceId, handleMessage]);
+
+  useEffect(() => {
+    const client = clientRef.current;
+    if (!workerEnabled || !client) return;
+    return startRunWorker(client, {
+      onJob: (job) => {
+        if (job.finishedAt) setWorkerJobs((n) => n + 1);
+      },
+    });
+  }, [workerEnabled, handleMessage]);
 
+  const sendMessage = () => {
     const script = input.trim();
-    iframeRef.current.contentWindow.postMessage(script, "*");
+    if (!script) return;
+
+    // Photopea reports syntax errors without a position, so catch them here
+    const [syntaxError] = lintScript(script);
+    if (syntaxError) {
+      setInputError(formatDiagnostic(syntaxError));
+      return;
+    }
+
+    // Scripts with {{placeholders}} are only sent once their values are filled in
+    if (extractPlaceholders(script).length > 0) {
+      setParamsScript(script);
+      return;
+    }
+    sendScript(script);
+  };
+
+  // Posts a payload for an exchange whose sent message is already listed; a
+  // run that never finishes is recorded as its reply
+  const runExchange = async (payload: PhotopeaPayload, exchangeId: number) => {
+    const client = clientRef.current;
+    if (!client) return;
+
+    try {
+      await client.run(payload, { exchangeId, catchErrors: true });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      const timedOut = error instanceof PhotopeaTimeoutError;
+      setMessages((prev) => [
+        ...prev,
+        {
+          id: ++messageIdRef.current,
+          type: "received",
+          exchangeId: syncRef.current.renumbered.get(exchangeId) ?? exchangeId,
+          content: message,
+          rawData: message,
+          rawString: message,
+          dataType: timedOut ? "timeout" : "error",
+          timestamp: new Date(),
+        },
+      ]);
+    } finally {
+      setScriptRuns((n) => n + 1);
+    }
+  };
+
+  const sendScript = async (script: string) => {
+    if (!clientRef.current) return;
+
+    const exchangeId = ++messageIdRef.current;
 
     setMessages((prev) => [
       ...prev,
       {
-        id: ++messageIdRef.current,
+        id: exchangeId,
         type: "sent",
+        exchangeId,
         content: script,
         rawData: script,
         rawString: script,
@@ -343,13 +945,67 @@ export default function PhotopeaPlayground() {
       },
     ]);
     setInput("");
+
+    await runExchange(script, exchangeId);
   };
 
-  const handleKeyDown = (e: React.KeyboardEvent) => {
-    if (e.key === "Enter" && (e.metaKey || e.ctrlKey)) {
-      e.preventDefault();
-      sendMessage();
+  // Photopea opens file bytes posted to it as a new document. The file is
+  // kept with the session, so the exchange can be replayed later.
+  const openFile = async (name: string, data: ArrayBuffer) => {
+    if (!clientRef.current) return;
+
+    const format = (await sniffData(data)) ?? formatFromExtension(name.split(".").pop() ?? "");
+    const typed = new Blob([data], { type: format?.mimeType ?? "application/octet-stream" });
+    const exchangeId = ++messageIdRef.current;
+    setMessages((prev) => [
+      ...prev,
+      {
+        id: exchangeId,
+        type: "sent",
+        exchangeId,
+        content: name,
+        rawData: data,
+        rawString: describeRaw(data),
+        dataType: "file",
+        previewUrl: URL.createObjectURL(typed),
+        format: format?.id,
+        timestamp: new Date(),
+      },
+    ]);
+
+    const uploadSessionId = sessionIdRef.current;
+    if (uploadSessionId) {
+      uploadArtifact(uploadSessionId, typed, storeNewSession).then((artifact) => {
+        if (!artifact || sessionIdRef.current !== uploadSessionId) return;
+        const id = syncRef.current.renumbered.get(exchangeId) ?? exchangeId;
+        setMessages((prev) => prev.map((m) => (m.id === id ? { ...m, artifact } : m)));
+      });
+    }
+
+    await runExchange(data, exchangeId);
+  };
+
+  const openFiles = async (files: FileList | File[]) => {
+    for (const file of Array.from(files)) {
+      await openFile(file.name, await file.arrayBuffer());
+    }
+  };
+
+  const rerunMessage = async (msg: Message) => {
+    setSelectedMessage(null);
+    if (msg.dataType !== "file") {
+      sendScript(msg.content);
+      return;
     }
+    if (!msg.previewUrl) return;
+    const res = await fetch(msg.previewUrl);
+    if (res.ok) openFile(msg.content, await res.arrayBuffer());
+  };
+
+  const editAndResend = (msg: Message) => {
+    setSelectedMessage(null);
+    setInput(msg.content);
+    setInputError(null);
   };
 
   const addImageUrl = () => {
@@ -362,15 +1018,16 @@ export default function PhotopeaPlayground() {
     setImageUrls((prev) => prev.filter((_, i) => i !== index));
   };
 
-  const loadPhotopea = () => {
+  const loadPhotopea = (id: PhotopeaSourceId = sourceId) => {
+    clientRef.current?.cancelAll("Photopea reloaded");
     setIsLoaded(false);
-    if (imageUrls.length > 0) {
-      const config = { files: imageUrls };
-      const encoded = encodeURIComponent(JSON.stringify(config));
-      setPhotopeaSrc(`https://www.photopea.com#${encoded}`);
-    } else {
-      setPhotopeaSrc("https://www.photopea.com");
-    }
+    setPhotopeaSrc(buildPhotopeaSrc(getPhotopeaSource(id).baseUrl, { ...photopeaConfig, files: imageUrls }));
+  };
+
+  const switchSource = (id: PhotopeaSourceId) => {
+    setSourceId(id);
+    localStorage.setItem("photopeaSource", id);
+    loadPhotopea(id);
   };
 
   const clearMessages = () => {
@@ -384,7 +1041,7 @@ export default function PhotopeaPlayground() {
     if (!msg.previewUrl) return;
     const a = document.createElement("a");
     a.href = msg.previewUrl;
-    a.download = `photopea-export-${msg.id}.png`;
+    a.download = `photopea-export-${msg.id}.${getFileFormat(msg.format)?.extension ?? "bin"}`;
     a.click();
   };
 
@@ -415,13 +1072,10 @@ export default function PhotopeaPlayground() {
     return data;
   };
 
-  const exampleScripts = [
-    { label: "Get doc name", script: "app.activeDocument.name" },
-    { label: "List layers", script: "app.activeDocument.layers.length" },
-    { label: "Move layer", script: "app.activeDocument.activeLayer.translate(10, 10)" },
-    { label: "New doc", script: 'app.documents.add(800, 600, 72, "Untitled")' },
-    { label: "Export PNG", script: 'app.activeDocument.saveToOE("png")' },
-  ];
+  const libraryTags = [...new Set(libraryScripts.flatMap((s) => s.tags))].sort();
+  const quickScripts = activeTag
+    ? libraryScripts.filter((s) => s.tags.includes(activeTag))
+    : libraryScripts;
 
   const sampleImages = [
     "https://www.photopea.com/api/img2/pug.png",
@@ -432,10 +1086,17 @@ export default function PhotopeaPlayground() {
     switch (dataType) {
       case "done":
         return "bg-green-600";
+      case "error":
+        return "bg-red-600";
+      case "timeout":
+        return "bg-amber-600";
+      case "save":
+        return "bg-blue-600";
       case "string":
         return "bg-purple-600";
       case "ArrayBuffer":
       case "Uint8Array":
+      case "file":
         return "bg-orange-600";
       case "Blob":
         return "bg-pink-600";
@@ -448,13 +1109,117 @@ export default function PhotopeaPlayground() {
     }
   };
 
+  const formatDataType = (msg: Message) => {
+    const format = getFileFormat(msg.format);
+    return format ? `${msg.dataType} · ${format.label}` : msg.dataType;
+  };
+
+  const getStatusBadgeColor = (status: ExchangeStatus) => {
+    switch (status) {
+      case "done":
+        return "bg-green-700";
+      case "failed":
+        return "bg-red-700";
+      case "timeout":
+        return "bg-amber-700";
+      default:
+        return "bg-zinc-600 animate-pulse";
+    }
+  };
+
+  const renderMessage = (msg: Message) => (
+    <div
+      key={msg.id}
+      onClick={() => setSelectedMessage(msg)}
+      className={`p-3 rounded-lg text-sm cursor-pointer hover:ring-2 hover:ring-blue-400 transition-all ${
+        msg.type === "sent"
+          ? "bg-blue-600 text-white ml-8"
+          : "bg-zinc-700 text-zinc-100 mr-4"
+      }`}
+    >
+      <div className="flex items-center gap-2 mb-2">
+        <span className="text-xs opacity-70">
+          {msg.type === "sent" ? "→ Sent" : "← Received"}
+        </span>
+        <span className={`text-xs px-1.5 py-0.5 rounded ${getDataTypeBadgeColor(msg.dataType)}`}>
+          {formatDataType(msg)}
+        </span>
+        <span className="text-xs opacity-50 ml-auto">
+          {msg.timestamp.toLocaleTimeString()}
+        </span>
+      </div>
+      <pre className="whitespace-pre-wrap break-words font-mono text-xs">
+        {showRaw
+          ? (msg.rawString.length > 500 ? msg.rawString.slice(0, 500) + "..." : msg.rawString)
+          : (msg.content.length > 200 ? msg.content.slice(0, 200) + "..." : msg.content)
+        }
+      </pre>
+
+      {/* Image preview for binary data */}
+      {msg.previewUrl && (
+        <div className="mt-2 p-2 bg-zinc-800 rounded">
+          <FormatPreview url={msg.previewUrl} format={msg.format} />
+          <button
+            onClick={(e) => {
+              e.stopPropagation();
+              downloadBlob(msg);
+            }}
+            className="mt-2 px-2 py-1 text-xs bg-blue-500 hover:bg-blue-400 rounded"
+          >
+            Download
+          </button>
+        </div>
+      )}
+
+      <div className="flex items-center gap-1 mt-2 text-xs">
+        <span className="opacity-50">Click to view full</span>
+        {msg.type === "sent" && (
+          <>
+            <button
+              onClick={(e) => {
+                e.stopPropagation();
+                rerunMessage(msg);
+              }}
+              title={msg.dataType === "file" ? "Open this file again" : "Send this script again"}
+              className="ml-auto px-1.5 py-0.5 rounded opacity-60 hover:opacity-100 hover:bg-black/20"
+            >
+              Re-run
+            </button>
+            {msg.dataType !== "file" && (
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  editAndResend(msg);
+                }}
+                title="Copy this script into the editor"
+                className="px-1.5 py-0.5 rounded opacity-60 hover:opacity-100 hover:bg-black/20"
+              >
+                Edit & resend
+              </button>
+            )}
+          </>
+        )}
+        <button
+          onClick={(e) => {
+            e.stopPropagation();
+            forkFromMessage(msg);
+          }}
+          title="Start a new session with the history up to this message"
+          className={`${msg.type === "sent" ? "" : "ml-auto "}px-1.5 py-0.5 rounded opacity-60 hover:opacity-100 hover:bg-black/20`}
+        >
+          Fork from here
+        </button>
+      </div>
+    </div>
+  );
+
   return (
     <div className="flex h-screen bg-zinc-900">
       {/* Photopea iframe */}
       <div className="flex-1 relative">
         <iframe
           ref={iframeRef}
-          key={photopeaSrc}
+          key={`${iframeGeneration}:${photopeaSrc}`}
           src={photopeaSrc}
           className="w-full h-full border-0"
           onLoad={() => setIsLoaded(true)}
@@ -462,7 +1227,9 @@ export default function PhotopeaPlayground() {
         />
         {!isLoaded && (
           <div className="absolute inset-0 flex items-center justify-center bg-zinc-900">
-            <div className="text-zinc-400">Loading Photopea...</div>
+            <div className="text-zinc-400">
+              Loading {sourceId === "mock" ? "mock " : ""}Photopea...
+            </div>
           </div>
         )}
       </div>
@@ -476,6 +1243,40 @@ export default function PhotopeaPlayground() {
               <p className="text-sm text-zinc-400">postMessage API</p>
             </div>
             <div className="flex items-center gap-2">
+              <select
+                value={sourceId}
+                onChange={(e) => switchSource(e.target.value as PhotopeaSourceId)}
+                title="Photopea source"
+                className="px-1 py-1 text-xs bg-zinc-700 text-zinc-300 rounded focus:outline-none"
+              >
+                <option value="live">Live</option>
+                <option value="mock">Mock</option>
+              </select>
+              <button
+                onClick={() => setShowBatch(!showBatch)}
+                className={`px-2 py-1 text-xs rounded ${showBatch ? 'bg-blue-600 text-white' : 'bg-zinc-700 hover:bg-zinc-600 text-zinc-300'}`}
+              >
+                Batch
+              </button>
+              <button
+                onClick={() => setShowTests(!showTests)}
+                className={`px-2 py-1 text-xs rounded ${showTests ? 'bg-blue-600 text-white' : 'bg-zinc-700 hover:bg-zinc-600 text-zinc-300'}`}
+              >
+                Tests
+              </button>
+              <button
+                onClick={() => setShowInspector(!showInspector)}
+                className={`px-2 py-1 text-xs rounded ${showInspector ? 'bg-blue-600 text-white' : 'bg-zinc-700 hover:bg-zinc-600 text-zinc-300'}`}
+              >
+                Inspect
+              </button>
+              <button
+                onClick={() => setWorkerEnabled(!workerEnabled)}
+                title="Run scripts queued with POST /api/run in this tab"
+                className={`px-2 py-1 text-xs rounded ${workerEnabled ? 'bg-blue-600 text-white' : 'bg-zinc-700 hover:bg-zinc-600 text-zinc-300'}`}
+              >
+                {workerJobs > 0 ? `Worker · ${workerJobs}` : 'Worker'}
+              </button>
               <button
                 onClick={() => setShowRaw(!showRaw)}
                 className={`px-2 py-1 text-xs rounded ${showRaw ? 'bg-orange-600 text-white' : 'bg-zinc-700 hover:bg-zinc-600 text-zinc-300'}`}
@@ -495,14 +1296,25 @@ export default function PhotopeaPlayground() {
           <div className="flex items-center gap-2 text-xs">
             <div className="flex-1 flex items-center gap-2 bg-zinc-900 px-2 py-1.5 rounded">
               <span className="text-zinc-500">Session:</span>
-              <code className="text-blue-400 font-mono">{sessionId.slice(0, 8)}</code>
+              {sessionInfo.title ? (
+                <span className="text-zinc-200 truncate" title={sessionId}>{sessionInfo.title}</span>
+              ) : (
+                <code className="text-blue-400 font-mono">{sessionId.slice(0, 8)}</code>
+              )}
               {isSaving && <span className="text-green-400 animate-pulse">●</span>}
+              <button
+                onClick={() => setEditingSession({ id: sessionId, details: sessionInfo })}
+                title="Edit title, description and tags"
+                className="ml-auto text-zinc-500 hover:text-zinc-300"
+              >
+                Edit
+              </button>
             </div>
             <button
               onClick={() => setShowSessions(!showSessions)}
               className="px-2 py-1.5 bg-zinc-700 hover:bg-zinc-600 text-zinc-300 rounded"
             >
-              {sessions.length} sessions
+              {sessionsTotal} sessions
             </button>
             <button
               onClick={createNewSession}
@@ -519,12 +1331,87 @@ export default function PhotopeaPlayground() {
             <div className="p-3">
               <div className="flex items-center justify-between mb-2">
                 <h3 className="text-sm font-semibold text-zinc-100">All Sessions</h3>
-                <button
-                  onClick={() => setShowSessions(false)}
-                  className="text-zinc-500 hover:text-zinc-300"
-                >
-                  ✕
-                </button>
+                <div className="flex items-center gap-2">
+                  <button
+                    onClick={() => importInputRef.current?.click()}
+                    className="px-2 py-1 text-xs bg-zinc-700 hover:bg-zinc-600 text-zinc-300 rounded"
+                  >
+                    Import
+                  </button>
+                  <input
+                    ref={importInputRef}
+                    type="file"
+                    accept=".ppsession,.zip,application/zip"
+                    className="hidden"
+                    onChange={(e) => {
+                      const file = e.target.files?.[0];
+                      if (file) importSessionBundle(file);
+                      e.target.value = "";
+                    }}
+                  />
+                  <button
+                    onClick={() => setShowSessions(false)}
+                    className="text-zinc-500 hover:text-zinc-300"
+                  >
+                    ✕
+                  </button>
+                </div>
+              </div>
+              {importStatus && <div className="text-xs text-zinc-400 mb-2">{importStatus}</div>}
+              <div className="space-y-1 mb-2 text-xs">
+                <input
+                  type="search"
+                  value={sessionFilters.q}
+                  onChange={(e) => updateSessionFilters({ q: e.target.value })}
+                  placeholder="Search titles, tags and messages…"
+                  className="w-full bg-zinc-700 text-zinc-100 rounded px-2 py-1 focus:outline-none focus:ring-1 focus:ring-blue-500"
+                />
+                <div className="flex gap-1">
+                  <select
+                    value={sessionFilters.dataType}
+                    onChange={(e) => updateSessionFilters({ dataType: e.target.value })}
+                    className="flex-1 bg-zinc-700 text-zinc-300 rounded px-1 py-0.5 focus:outline-none"
+                  >
+                    <option value="">Any type</option>
+                    {SESSION_DATA_TYPES.map((type) => (
+                      <option key={type} value={type}>
+                        {type}
+                      </option>
+                    ))}
+                  </select>
+                  <select
+                    value={sessionFilters.hasErrors}
+                    onChange={(e) => updateSessionFilters({ hasErrors: e.target.value as SessionFilters["hasErrors"] })}
+                    className="flex-1 bg-zinc-700 text-zinc-300 rounded px-1 py-0.5 focus:outline-none"
+                  >
+                    <option value="">Errors: any</option>
+                    <option value="true">With errors</option>
+                    <option value="false">Without errors</option>
+                  </select>
+                </div>
+                <div className="flex items-center gap-1 text-zinc-500">
+                  <input
+                    type="date"
+                    value={sessionFilters.from}
+                    onChange={(e) => updateSessionFilters({ from: e.target.value })}
+                    className="flex-1 bg-zinc-700 text-zinc-300 rounded px-1 py-0.5 focus:outline-none"
+                  />
+                  –
+                  <input
+                    type="date"
+                    value={sessionFilters.to}
+                    onChange={(e) => updateSessionFilters({ to: e.target.value })}
+                    className="flex-1 bg-zinc-700 text-zinc-300 rounded px-1 py-0.5 focus:outline-none"
+                  />
+                  {Object.values(sessionFilters).some(Boolean) && (
+                    <button
+                      onClick={() => updateSessionFilters(EMPTY_SESSION_FILTERS)}
+                      className="px-1 hover:text-zinc-300"
+                    >
+                      Clear
+                    </button>
+                  )}
+                </div>
               </div>
               <div className="space-y-1">
                 {sessions.map((session) => (
@@ -538,14 +1425,72 @@ export default function PhotopeaPlayground() {
                     }`}
                   >
                     <div className="flex items-center justify-between">
+                      <button
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          updateSessionDetails(session.id, { pinned: !session.pinned });
+                        }}
+                        title={session.pinned ? "Unpin" : "Pin to the top"}
+                        className={`mr-2 text-sm ${session.pinned ? "text-yellow-400" : "opacity-40 hover:opacity-100"}`}
+                      >
+                        {session.pinned ? "★" : "☆"}
+                      </button>
                       <div className="flex-1 min-w-0">
-                        <code className="text-xs font-mono block truncate">
-                          {session.id}
-                        </code>
+                        {session.title ? (
+                          <div className="text-xs font-medium truncate" title={session.id}>{session.title}</div>
+                        ) : (
+                          <code className="text-xs font-mono block truncate">
+                            {session.id}
+                          </code>
+                        )}
+                        {session.tags && session.tags.length > 0 && (
+                          <div className="flex flex-wrap gap-1 mt-0.5">
+                            {session.tags.map((tag) => (
+                              <span key={tag} className="px-1 rounded bg-zinc-600/60 text-[10px]">
+                                {tag}
+                              </span>
+                            ))}
+                          </div>
+                        )}
                         <div className="text-xs opacity-70 mt-0.5">
-                          {session.messageCount} msg · {new Date(session.updatedAt).toLocaleString()}
+                          {session.messageCount} msg
+                          {session.errorCount > 0 && ` · ${session.errorCount} err`}
+                          {" · "}
+                          {new Date(session.updatedAt).toLocaleString()}
                         </div>
+                        {session.preview && (
+                          <div className="text-xs opacity-50 font-mono truncate">{session.preview}</div>
+                        )}
                       </div>
+                      <button
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          setEditingSession({ id: session.id, details: session });
+                        }}
+                        title="Edit title, description and tags"
+                        className="ml-2 px-2 py-1 text-xs bg-zinc-600/40 hover:bg-zinc-600 rounded"
+                      >
+                        Edit
+                      </button>
+                      <button
+                        onClick={(e) => startReplay(session.id, e)}
+                        disabled={session.messageCount === 0}
+                        title="Reload Photopea and re-send this session's scripts"
+                        className="ml-2 px-2 py-1 text-xs bg-blue-600/20 hover:bg-blue-600 disabled:opacity-40 rounded"
+                      >
+                        Replay
+                      </button>
+                      <button
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          // Served as an attachment, so this downloads without navigating away
+                          window.location.href = `/api/sessions/${session.id}/export`;
+                        }}
+                        title="Download this session with its outputs as a .ppsession bundle"
+                        className="ml-2 px-2 py-1 text-xs bg-zinc-600/40 hover:bg-zinc-600 rounded"
+                      >
+                        Export
+                      </button>
                       <button
                         onClick={(e) => deleteSessionById(session.id, e)}
                         className="ml-2 px-2 py-1 text-xs bg-red-600/20 hover:bg-red-600 rounded"
@@ -557,17 +1502,58 @@ export default function PhotopeaPlayground() {
                 ))}
                 {sessions.length === 0 && (
                   <div className="text-center text-zinc-500 py-4 text-xs">
-                    No saved sessions yet
+                    {Object.values(sessionFilters).some(Boolean) ? "No matching sessions" : "No saved sessions yet"}
                   </div>
                 )}
+                {sessionsCursor && (
+                  <button
+                    onClick={() => loadSessionsList(sessionFilters, sessionsCursor)}
+                    className="w-full py-1 text-xs text-zinc-400 hover:text-zinc-200"
+                  >
+                    Load more ({sessions.length} of {sessionsTotal})
+                  </button>
+                )}
               </div>
             </div>
           </div>
         )}
 
-        {/* Image URLs section */}
-        <div className="p-3 border-b border-zinc-700">
-          <div className="text-xs font-medium text-zinc-400 mb-2">Load Images</div>
+        {/* Image URLs section; local files can be dropped anywhere on it */}
+        <div
+          onDragOver={(e) => {
+            if (!e.dataTransfer.types.includes("Files")) return;
+            e.preventDefault();
+            setIsDraggingFiles(true);
+          }}
+          onDragLeave={(e) => {
+            if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setIsDraggingFiles(false);
+          }}
+          onDrop={(e) => {
+            if (e.dataTransfer.files.length === 0) return;
+            e.preventDefault();
+            setIsDraggingFiles(false);
+            openFiles(e.dataTransfer.files);
+          }}
+          className={`p-3 border-b border-zinc-700 ${isDraggingFiles ? "bg-blue-950 ring-2 ring-inset ring-blue-500" : ""}`}
+        >
+          <div className="flex items-center justify-between mb-2">
+            <span className="text-xs font-medium text-zinc-400">Load Images</span>
+            <div className="flex gap-1">
+              <button
+                onClick={() => setShowAssets(!showAssets)}
+                title="Images, fonts and brushes served from this app"
+                className={`px-2 py-0.5 text-xs rounded ${showAssets ? 'bg-blue-600 text-white' : 'bg-zinc-700 hover:bg-zinc-600 text-zinc-300'}`}
+              >
+                Assets
+              </button>
+              <button
+                onClick={() => setShowConfig(!showConfig)}
+                className={`px-2 py-0.5 text-xs rounded ${showConfig ? 'bg-blue-600 text-white' : 'bg-zinc-700 hover:bg-zinc-600 text-zinc-300'}`}
+              >
+                Config
+              </button>
+            </div>
+          </div>
           <div className="flex gap-2 mb-2">
             <input
               type="text"
@@ -595,6 +1581,24 @@ export default function PhotopeaPlayground() {
                 Sample {i + 1}
               </button>
             ))}
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              title="Open local PSD, PNG, JPG or SVG files in Photopea (or drop them here)"
+              className="ml-auto px-2 py-1 text-xs bg-zinc-700 hover:bg-zinc-600 text-zinc-300 rounded"
+            >
+              Open files…
+            </button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              multiple
+              accept="image/*,.psd,.svg"
+              className="hidden"
+              onChange={(e) => {
+                if (e.target.files) openFiles(e.target.files);
+                e.target.value = "";
+              }}
+            />
           </div>
 
           {imageUrls.length > 0 && (
@@ -614,102 +1618,191 @@ export default function PhotopeaPlayground() {
           )}
 
           <button
-            onClick={loadPhotopea}
+            onClick={() => loadPhotopea()}
             className="w-full px-2 py-1.5 text-xs bg-green-600 hover:bg-green-500 text-white rounded font-medium"
           >
             {imageUrls.length > 0 ? `Load Photopea with ${imageUrls.length} image(s)` : "Reload Photopea"}
           </button>
         </div>
 
+        {/* Local asset server */}
+        {showAssets && (
+          <AssetPickerPanel
+            imageUrls={imageUrls}
+            resources={photopeaConfig.resources ?? []}
+            onAddImage={(url) => setImageUrls((prev) => [...prev, url])}
+            onAddResource={(url) => {
+              setPhotopeaConfig((prev) => ({ ...prev, resources: [...(prev.resources ?? []), url] }));
+              setAssetRevision((r) => r + 1);
+            }}
+            onClose={() => setShowAssets(false)}
+          />
+        )}
+
+        {/* Photopea hash config */}
+        {showConfig && (
+          <PhotopeaConfigEditor
+            key={`${sessionId}:${assetRevision}`}
+            config={photopeaConfig}
+            imageUrls={imageUrls}
+            baseUrl={getPhotopeaSource(sourceId).baseUrl}
+            saveUrl={photopeaSaveUrl(window.location.origin, sessionId)}
+            onChange={setPhotopeaConfig}
+            onApply={() => {
+              loadPhotopea();
+              setIframeGeneration((g) => g + 1);
+            }}
+            onClose={() => setShowConfig(false)}
+          />
+        )}
+
+        {/* Script library */}
+        {showLibrary && (
+          <ScriptLibraryPanel
+            scripts={libraryScripts}
+            currentInput={input}
+            onPick={(script) => setInput(script.script)}
+            onChange={loadLibrary}
+            onClose={() => setShowLibrary(false)}
+          />
+        )}
+
+        {/* Document inspector */}
+        {showInspector && (
+          <InspectorPanel
+            getClient={() => clientRef.current}
+            scriptRuns={scriptRuns}
+            onClose={() => setShowInspector(false)}
+          />
+        )}
+
         {/* Quick actions */}
-        <div className="p-3 border-b border-zinc-700 flex flex-wrap gap-2">
-          {exampleScripts.map((ex) => (
+        <div className="p-3 border-b border-zinc-700">
+          {libraryTags.length > 0 && (
+            <div className="flex flex-wrap gap-1 mb-2">
+              {libraryTags.map((tag) => (
+                <button
+                  key={tag}
+                  onClick={() => setActiveTag(activeTag === tag ? null : tag)}
+                  className={`px-1.5 py-0.5 text-[10px] rounded ${
+                    activeTag === tag ? "bg-blue-600 text-white" : "bg-zinc-900 text-zinc-400 hover:text-zinc-200"
+                  }`}
+                >
+                  #{tag}
+                </button>
+              ))}
+            </div>
+          )}
+          <div className="flex flex-wrap gap-2">
+            {quickScripts.map((ex) => (
+              <button
+                key={ex.id}
+                onClick={() => setInput(ex.script)}
+                title={ex.description || ex.script}
+                className="px-2 py-1 text-xs bg-zinc-700 hover:bg-zinc-600 text-zinc-300 rounded transition-colors"
+              >
+                {ex.name}
+              </button>
+            ))}
             <button
-              key={ex.label}
-              onClick={() => setInput(ex.script)}
-              className="px-2 py-1 text-xs bg-zinc-700 hover:bg-zinc-600 text-zinc-300 rounded transition-colors"
+              onClick={() => setShowLibrary(!showLibrary)}
+              className={`px-2 py-1 text-xs rounded transition-colors ${
+                showLibrary ? "bg-blue-600 text-white" : "bg-zinc-900 hover:bg-zinc-700 text-zinc-400"
+              }`}
             >
-              {ex.label}
+              Library…
             </button>
-          ))}
+          </div>
         </div>
 
         {/* Messages */}
-        <div className="flex-1 overflow-y-auto p-4 space-y-3 min-h-0">
-          {messages.length === 0 && (
-            <div className="text-zinc-500 text-sm text-center py-8">
-              No messages yet. Send a command to interact with Photopea.
-            </div>
-          )}
-          {messages.map((msg) => (
-            <div
-              key={msg.id}
-              onClick={() => setSelectedMessage(msg)}
-              className={`p-3 rounded-lg text-sm cursor-pointer hover:ring-2 hover:ring-blue-400 transition-all ${
-                msg.type === "sent"
-                  ? "bg-blue-600 text-white ml-8"
-                  : "bg-zinc-700 text-zinc-100 mr-4"
-              }`}
-            >
-              <div className="flex items-center gap-2 mb-2">
-                <span className="text-xs opacity-70">
-                  {msg.type === "sent" ? "→ Sent" : "← Received"}
-                </span>
-                <span className={`text-xs px-1.5 py-0.5 rounded ${getDataTypeBadgeColor(msg.dataType)}`}>
-                  {msg.dataType}
-                </span>
-                <span className="text-xs opacity-50 ml-auto">
-                  {msg.timestamp.toLocaleTimeString()}
-                </span>
+        {replay ? (
+          <ReplayPanel replay={replay} onStop={stopReplay} onClose={closeReplay} />
+        ) : showBatch ? (
+          <BatchPanel
+            getClient={() => clientRef.current}
+            scripts={libraryScripts}
+            onClose={() => setShowBatch(false)}
+          />
+        ) : showTests ? (
+          <VisualTestsPanel
+            key={sessionId}
+            getClient={() => clientRef.current}
+            sessionId={sessionId}
+            tests={sessionInfo.tests ?? []}
+            currentScript={input}
+            imageUrls={imageUrls}
+            onChange={updateTests}
+            onAccept={acceptGolden}
+            onClose={() => setShowTests(false)}
+          />
+        ) : (
+          <div className="flex-1 overflow-y-auto p-4 space-y-3 min-h-0">
+            {messages.length === 0 && (
+              <div className="text-zinc-500 text-sm text-center py-8">
+                No messages yet. Send a command to interact with Photopea.
               </div>
-              <pre className="whitespace-pre-wrap break-words font-mono text-xs">
-                {showRaw
-                  ? (msg.rawString.length > 500 ? msg.rawString.slice(0, 500) + "..." : msg.rawString)
-                  : (msg.content.length > 200 ? msg.content.slice(0, 200) + "..." : msg.content)
-                }
-              </pre>
-
-              {/* Image preview for binary data */}
-              {msg.previewUrl && (
-                <div className="mt-2 p-2 bg-zinc-800 rounded">
-                  <img
-                    src={msg.previewUrl}
-                    alt="Preview"
-                    className="max-h-32 rounded"
-                    onError={(e) => {
-                      (e.target as HTMLImageElement).style.display = "none";
-                    }}
-                  />
-                  <button
-                    onClick={(e) => {
-                      e.stopPropagation();
-                      downloadBlob(msg);
-                    }}
-                    className="mt-2 px-2 py-1 text-xs bg-blue-500 hover:bg-blue-400 rounded"
-                  >
-                    Download
-                  </button>
+            )}
+            {failedCount > 0 && (
+              <div className="flex justify-end">
+                <button
+                  onClick={() => setShowFailedOnly(!showFailedOnly)}
+                  title="Errors and timeouts in this session"
+                  className={`px-2 py-0.5 text-xs rounded ${
+                    showFailedOnly ? "bg-red-600 text-white" : "bg-red-900/60 text-red-200 hover:bg-red-800"
+                  }`}
+                >
+                  {showFailedOnly ? `Showing ${failedCount} error(s) · show all` : `${failedCount} error(s)`}
+                </button>
+              </div>
+            )}
+            {visibleExchanges.map((exchange) => {
+              const status = getExchangeStatus(exchange);
+              return (
+                <div
+                  key={exchange.key}
+                  className={exchange.sent ? "rounded-lg border border-zinc-700 p-2 space-y-2" : "space-y-2"}
+                >
+                  {exchange.sent && (
+                    <div className="flex items-center gap-2 text-xs text-zinc-500 px-1">
+                      <span>Exchange #{exchange.sent.id}</span>
+                      <span className={`px-1.5 py-0.5 rounded text-zinc-100 ${getStatusBadgeColor(status)}`}>
+                        {status}
+                      </span>
+                      {exchange.responses.length > 0 && (
+                        <span className="ml-auto">
+                          {exchange.responses.length} response(s) ·{" "}
+                          {exchange.responses[exchange.responses.length - 1].timestamp.getTime() -
+                            exchange.sent.timestamp.getTime()}
+                          ms
+                        </span>
+                      )}
+                    </div>
+                  )}
+                  {exchange.sent && renderMessage(exchange.sent)}
+                  {exchange.responses.map(renderMessage)}
                 </div>
-              )}
-
-              <div className="text-xs opacity-50 mt-2">Click to view full</div>
-            </div>
-          ))}
-          <div ref={messagesEndRef} />
-        </div>
+              );
+            })}
+            <div ref={messagesEndRef} />
+          </div>
+        )}
 
         {/* Input */}
         <div className="p-4 border-t border-zinc-700">
-          <textarea
+          <ScriptEditor
             value={input}
-            onChange={(e) => setInput(e.target.value)}
-            onKeyDown={handleKeyDown}
-            placeholder="app.activeDocument.name&#10;&#10;// Multi-line scripts supported"
-            className="w-full bg-zinc-700 text-zinc-100 rounded-lg px-4 py-3 text-sm resize-none focus:outline-none focus:ring-2 focus:ring-blue-500 font-mono"
-            rows={8}
+            onChange={(value) => {
+              setInput(value);
+              setInputError(null);
+            }}
+            onSubmit={sendMessage}
+            history={sentScripts}
+            placeholder={"app.activeDocument.name\n\n// Multi-line scripts supported"}
           />
+          {inputError && <p className="mt-2 text-xs text-red-400">{inputError}</p>}
           <div className="flex items-center justify-between mt-2">
-            <span className="text-xs text-zinc-500">⌘/Ctrl + Enter to send</span>
+            <span className="text-xs text-zinc-500">⌘/Ctrl + Enter to send · ↑/↓ history · Ctrl + R search</span>
             <button
               onClick={sendMessage}
               disabled={!input.trim()}
@@ -721,6 +1814,30 @@ export default function PhotopeaPlayground() {
         </div>
       </div>
 
+      {/* Script parameters prompt */}
+      {paramsScript && (
+        <ScriptParamsDialog
+          script={paramsScript}
+          onSubmit={(filled) => {
+            setParamsScript(null);
+            sendScript(filled);
+          }}
+          onCancel={() => setParamsScript(null)}
+        />
+      )}
+
+      {editingSession && (
+        <SessionDetailsDialog
+          sessionId={editingSession.id}
+          details={editingSession.details}
+          onSubmit={(details) => {
+            updateSessionDetails(editingSession.id, details);
+            setEditingSession(null);
+          }}
+          onCancel={() => setEditingSession(null)}
+        />
+      )}
+
       {/* JSON Viewer Modal */}
       {selectedMessage && (
         <div
@@ -742,7 +1859,7 @@ export default function PhotopeaPlayground() {
                   </p>
                 </div>
                 <span className={`text-xs px-2 py-1 rounded ${getDataTypeBadgeColor(selectedMessage.dataType)}`}>
-                  {selectedMessage.dataType}
+                  {formatDataType(selectedMessage)}
                 </span>
               </div>
               <button
@@ -770,7 +1887,7 @@ export default function PhotopeaPlayground() {
                   </pre>
                 ) : (
                   <JsonView
-                    data={formatRawData(selectedMessage.rawData)}
+                    data={formatRawData(selectedMessage.rawData) as object}
                     style={{
                       ...darkStyles,
                       container: "bg-transparent",
@@ -782,15 +1899,10 @@ export default function PhotopeaPlayground() {
               {/* Large image preview in modal */}
               {selectedMessage.previewUrl && (
                 <div className="mt-4 p-4 bg-zinc-900 rounded-lg">
-                  <p className="text-xs text-zinc-400 mb-2">Image Preview:</p>
-                  <img
-                    src={selectedMessage.previewUrl}
-                    alt="Full Preview"
-                    className="max-w-full max-h-96 rounded"
-                    onError={(e) => {
-                      (e.target as HTMLImageElement).style.display = "none";
-                    }}
-                  />
+                  <p className="text-xs text-zinc-400 mb-2">
+                    {getFileFormat(selectedMessage.format)?.label ?? "Unknown format"} Preview:
+                  </p>
+                  <FormatPreview url={selectedMessage.previewUrl} format={selectedMessage.format} size="full" />
                 </div>
               )}
             </div>
@@ -803,6 +1915,31 @@ export default function PhotopeaPlayground() {
                   Download File
                 </button>
               )}
+              <button
+                onClick={() => forkFromMessage(selectedMessage)}
+                title="Start a new session with the history up to this message"
+                className="px-4 py-2 text-sm bg-zinc-700 hover:bg-zinc-600 text-zinc-200 rounded-lg mr-auto"
+              >
+                Fork from here
+              </button>
+              {selectedMessage.type === "sent" && (
+                <>
+                  <button
+                    onClick={() => rerunMessage(selectedMessage)}
+                    className="px-4 py-2 text-sm bg-zinc-700 hover:bg-zinc-600 text-zinc-200 rounded-lg"
+                  >
+                    Re-run
+                  </button>
+                  {selectedMessage.dataType !== "file" && (
+                    <button
+                      onClick={() => editAndResend(selectedMessage)}
+                      className="px-4 py-2 text-sm bg-zinc-700 hover:bg-zinc-600 text-zinc-200 rounded-lg"
+                    >
+                      Edit & resend
+                    </button>
+                  )}
+                </>
+              )}
               <button
                 onClick={() => {
                   navigator.clipboard.writeText(selectedMessage.rawString);
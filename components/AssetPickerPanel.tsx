@@ -0,0 +1,167 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { Asset, AssetKind } from "@/lib/assets";
+
+interface AssetPickerPanelProps {
+  imageUrls: string[];
+  resources: string[];
+  onAddImage: (url: string) => void;
+  onAddResource: (url: string) => void;
+  onClose: () => void;
+}
+
+const kindColors: Record<AssetKind, string> = {
+  image: "bg-green-900 text-green-300",
+  font: "bg-purple-900 text-purple-300",
+  resource: "bg-orange-900 text-orange-300",
+};
+
+function formatSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+/** Absolute, since Photopea fetches it from its own origin. */
+function assetUrl(asset: Asset): string {
+  return `${window.location.origin}/api/assets/${encodeURIComponent(asset.id)}`;
+}
+
+export default function AssetPickerPanel({
+  imageUrls,
+  resources,
+  onAddImage,
+  onAddResource,
+  onClose,
+}: AssetPickerPanelProps) {
+  const [assets, setAssets] = useState<Asset[]>([]);
+  const [status, setStatus] = useState<string | null>(null);
+  const [uploading, setUploading] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const loadAssets = useCallback(async () => {
+    try {
+      const res = await fetch("/api/assets");
+      setAssets(await res.json());
+    } catch (error) {
+      console.error("Failed to load assets:", error);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadAssets();
+  }, [loadAssets]);
+
+  const upload = async (files: FileList) => {
+    setUploading(true);
+    const failed: string[] = [];
+    for (const file of Array.from(files)) {
+      try {
+        const res = await fetch(`/api/assets?name=${encodeURIComponent(file.name)}`, {
+          method: "POST",
+          headers: { "Content-Type": file.type || "application/octet-stream" },
+          body: file,
+        });
+        if (!res.ok) throw new Error((await res.json()).error);
+      } catch (error) {
+        console.error(`Failed to upload ${file.name}:`, error);
+        failed.push(file.name);
+      }
+    }
+    setUploading(false);
+    setStatus(failed.length > 0 ? `Could not upload ${failed.join(", ")}` : `Uploaded ${files.length} file(s)`);
+    await loadAssets();
+  };
+
+  const deleteAsset = async (asset: Asset) => {
+    if (!confirm(`Delete "${asset.name}"? Configs that use its URL will no longer load it.`)) return;
+
+    try {
+      await fetch(`/api/assets/${encodeURIComponent(asset.id)}`, { method: "DELETE" });
+      await loadAssets();
+    } catch (error) {
+      console.error("Failed to delete asset:", error);
+    }
+  };
+
+  return (
+    <div className="border-b border-zinc-700 bg-zinc-900 max-h-80 overflow-y-auto">
+      <div className="p-3">
+        <div className="flex items-center justify-between mb-2">
+          <h3 className="text-sm font-semibold text-zinc-100">Assets</h3>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              disabled={uploading}
+              className="px-2 py-1 text-xs bg-zinc-700 hover:bg-zinc-600 disabled:opacity-50 text-zinc-300 rounded"
+            >
+              {uploading ? "Uploading…" : "Upload…"}
+            </button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              multiple
+              accept="image/*,.psd,.svg,.ttf,.otf,.woff,.woff2,.abr,.pat,.asl,.grd,.csh,.aco"
+              className="hidden"
+              onChange={(e) => {
+                if (e.target.files?.length) upload(e.target.files);
+                e.target.value = "";
+              }}
+            />
+            <button onClick={onClose} className="text-zinc-500 hover:text-zinc-300">
+              ✕
+            </button>
+          </div>
+        </div>
+
+        <div className="text-[10px] text-zinc-500 mb-2">
+          Served from this app. Images are opened as documents; fonts, brushes and other resources are added to the
+          config&apos;s resources. Reload Photopea to use them.
+        </div>
+
+        {status && <div className="text-xs text-zinc-400 mb-2">{status}</div>}
+
+        <div className="space-y-1">
+          {assets.map((asset) => {
+            const url = assetUrl(asset);
+            const added = asset.kind === "image" ? imageUrls.includes(url) : resources.includes(url);
+            return (
+              <div key={asset.id} className="flex items-center gap-2 p-2 rounded bg-zinc-800 text-zinc-300">
+                <span className={`text-[10px] px-1 rounded ${kindColors[asset.kind]}`}>{asset.kind}</span>
+                <a
+                  href={url}
+                  target="_blank"
+                  rel="noreferrer"
+                  title={url}
+                  className="flex-1 min-w-0 text-xs truncate hover:text-blue-400"
+                >
+                  {asset.name}
+                </a>
+                <span className="text-[10px] text-zinc-500">{formatSize(asset.size)}</span>
+                <button
+                  onClick={() => (asset.kind === "image" ? onAddImage(url) : onAddResource(url))}
+                  disabled={added}
+                  className="px-2 py-1 text-xs bg-blue-600 hover:bg-blue-500 disabled:bg-zinc-700 disabled:text-zinc-500 text-white rounded"
+                >
+                  {added ? "Added" : "Add"}
+                </button>
+                <button
+                  onClick={() => deleteAsset(asset)}
+                  className="px-2 py-1 text-xs bg-red-600/20 hover:bg-red-600 rounded"
+                >
+                  Del
+                </button>
+              </div>
+            );
+          })}
+          {assets.length === 0 && (
+            <div className="text-center text-zinc-500 py-4 text-xs">
+              No assets yet: upload images, fonts or brushes to serve them to Photopea
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,245 @@
+"use client";
+
+import { useRef, useState } from "react";
+import { nanoid } from "nanoid";
+import type { PhotopeaClient } from "@/lib/photopea-client";
+import type { LibraryScript } from "@/lib/scripts";
+import {
+  BATCH_FORMATS,
+  buildBatchZip,
+  itemNameFromUrl,
+  runBatch,
+  type BatchItem,
+  type BatchItemResult,
+  type BatchItemStatus,
+} from "@/lib/batch";
+
+interface BatchPanelProps {
+  getClient: () => PhotopeaClient | null;
+  scripts: LibraryScript[];
+  onClose: () => void;
+}
+
+const statusColors: Record<BatchItemStatus, string> = {
+  pending: "bg-zinc-600",
+  running: "bg-blue-600 animate-pulse",
+  success: "bg-green-700",
+  failed: "bg-red-700",
+  skipped: "bg-zinc-700",
+};
+
+export default function BatchPanel({ getClient, scripts, onClose }: BatchPanelProps) {
+  const [urlsText, setUrlsText] = useState("");
+  const [files, setFiles] = useState<BatchItem[]>([]);
+  const [script, setScript] = useState("");
+  const [format, setFormat] = useState("png");
+  const [results, setResults] = useState<BatchItemResult[]>([]);
+  const [running, setRunning] = useState(false);
+  const runRef = useRef(0);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const urlItems: BatchItem[] = urlsText
+    .split("\n")
+    .map((line) => line.trim())
+    .filter(Boolean)
+    .map((url, i) => ({ id: `url-${i}`, name: itemNameFromUrl(url), source: { kind: "url", url } }));
+  const items = [...urlItems, ...files];
+
+  const addFiles = async (list: FileList) => {
+    const added = await Promise.all(
+      Array.from(list).map(async (file): Promise<BatchItem> => ({
+        id: nanoid(8),
+        name: file.name,
+        source: { kind: "file", data: await file.arrayBuffer() },
+      }))
+    );
+    setFiles((prev) => [...prev, ...added]);
+  };
+
+  const start = async () => {
+    const client = getClient();
+    if (!client || items.length === 0) return;
+
+    const runId = ++runRef.current;
+    setRunning(true);
+    await runBatch(client, items, {
+      script,
+      format,
+      onUpdate: (updated) => {
+        if (runRef.current === runId) setResults(updated);
+      },
+      isCancelled: () => runRef.current !== runId,
+    });
+    if (runRef.current === runId) setRunning(false);
+  };
+
+  const stop = () => {
+    runRef.current++;
+    getClient()?.cancelAll("Batch stopped");
+    setRunning(false);
+  };
+
+  const downloadZip = () => {
+    const zip = buildBatchZip(results, { script, format });
+    const url = URL.createObjectURL(new Blob([zip as BlobPart], { type: "application/zip" }));
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = `photopea-batch-${new Date().toISOString().slice(0, 19).replace(/:/g, "-")}.zip`;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const succeeded = results.filter((r) => r.status === "success").length;
+  const failed = results.filter((r) => r.status === "failed").length;
+
+  return (
+    <div className="flex-1 overflow-y-auto p-4 space-y-3 min-h-0 text-xs">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-semibold text-zinc-100">Batch Processing</h3>
+        <button onClick={onClose} disabled={running} className="text-zinc-500 hover:text-zinc-300 disabled:opacity-40">
+          ✕
+        </button>
+      </div>
+
+      <div>
+        <div className="font-medium text-zinc-400 mb-1">Images</div>
+        <textarea
+          value={urlsText}
+          onChange={(e) => setUrlsText(e.target.value)}
+          placeholder="One image URL per line"
+          rows={4}
+          disabled={running}
+          className="w-full bg-zinc-700 text-zinc-100 rounded px-2 py-1 font-mono resize-none focus:outline-none focus:ring-1 focus:ring-blue-500"
+        />
+        <div className="flex items-center gap-2 mt-1">
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            disabled={running}
+            className="px-2 py-1 bg-zinc-700 hover:bg-zinc-600 text-zinc-300 rounded"
+          >
+            Add files…
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            multiple
+            accept="image/*,.psd"
+            className="hidden"
+            onChange={(e) => {
+              if (e.target.files) addFiles(e.target.files);
+              e.target.value = "";
+            }}
+          />
+          <span className="text-zinc-500">{items.length} item(s)</span>
+          {files.length > 0 && (
+            <button
+              onClick={() => setFiles([])}
+              disabled={running}
+              className="ml-auto text-zinc-500 hover:text-red-400"
+            >
+              Clear files
+            </button>
+          )}
+        </div>
+      </div>
+
+      <div>
+        <div className="flex items-center justify-between mb-1">
+          <span className="font-medium text-zinc-400">Script</span>
+          <select
+            value=""
+            onChange={(e) => {
+              const picked = scripts.find((s) => s.id === e.target.value);
+              if (picked) setScript(picked.script);
+            }}
+            disabled={running}
+            className="bg-zinc-700 text-zinc-300 rounded px-1 py-0.5 focus:outline-none"
+          >
+            <option value="">From library…</option>
+            {scripts.map((s) => (
+              <option key={s.id} value={s.id}>
+                {s.name}
+              </option>
+            ))}
+          </select>
+        </div>
+        <textarea
+          value={script}
+          onChange={(e) => setScript(e.target.value)}
+          placeholder="app.activeDocument.resizeImage(512, 512)&#10;&#10;// {{name}} and {{index}} are filled in per image"
+          rows={5}
+          disabled={running}
+          className="w-full bg-zinc-700 text-zinc-100 rounded px-2 py-1 font-mono resize-none focus:outline-none focus:ring-1 focus:ring-blue-500"
+        />
+      </div>
+
+      <div className="flex items-center gap-2">
+        <span className="font-medium text-zinc-400">Export as</span>
+        <select
+          value={format}
+          onChange={(e) => setFormat(e.target.value)}
+          disabled={running}
+          className="bg-zinc-700 text-zinc-300 rounded px-1 py-0.5 focus:outline-none"
+        >
+          {BATCH_FORMATS.map((f) => (
+            <option key={f} value={f}>
+              {f.toUpperCase()}
+            </option>
+          ))}
+        </select>
+        {running ? (
+          <button onClick={stop} className="ml-auto px-3 py-1.5 bg-red-600 hover:bg-red-500 text-white rounded">
+            Stop
+          </button>
+        ) : (
+          <button
+            onClick={start}
+            disabled={items.length === 0}
+            className="ml-auto px-3 py-1.5 bg-green-600 hover:bg-green-500 disabled:bg-zinc-600 text-white rounded"
+          >
+            Run batch
+          </button>
+        )}
+      </div>
+
+      {results.length > 0 && (
+        <div className="space-y-1">
+          <div className="flex items-center gap-2 text-zinc-400">
+            <span>
+              {succeeded} succeeded · {failed} failed · {results.length} total
+            </span>
+            <button
+              onClick={downloadZip}
+              disabled={running || succeeded === 0}
+              className="ml-auto px-2 py-1 bg-blue-600 hover:bg-blue-500 disabled:bg-zinc-600 text-white rounded"
+            >
+              Download ZIP
+            </button>
+          </div>
+          {results.map((result) => (
+            <div key={result.itemId} className="flex items-start gap-2 p-2 rounded bg-zinc-900">
+              <span className={`px-1.5 py-0.5 rounded text-zinc-100 ${statusColors[result.status]}`}>
+                {result.status}
+              </span>
+              <div className="flex-1 min-w-0">
+                <div className="truncate text-zinc-200">{result.name}</div>
+                {result.error && <div className="text-red-400">{result.error}</div>}
+                {result.output && (
+                  <div className="text-zinc-500">
+                    {result.output.fileName} · {result.output.data.byteLength} bytes
+                  </div>
+                )}
+                {result.echoes.length > 0 && (
+                  <div className="text-zinc-400 font-mono truncate">{result.echoes.join(" · ")}</div>
+                )}
+              </div>
+              {result.durationMs !== undefined && (
+                <span className="text-zinc-500">{result.durationMs}ms</span>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
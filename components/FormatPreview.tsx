@@ -0,0 +1,128 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { getFileFormat, readPsdSummary, type PsdSummary } from "@/lib/file-format";
+
+interface FormatPreviewProps {
+  url: string;
+  /** Detected format id, e.g. "png" or "psd". */
+  format?: string;
+  size?: "compact" | "full";
+}
+
+function PsdSummaryView({ url }: { url: string }) {
+  const [summary, setSummary] = useState<PsdSummary | null | undefined>(undefined);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetch(url)
+      .then((res) => res.arrayBuffer())
+      .then((buffer) => {
+        if (!cancelled) setSummary(readPsdSummary(buffer));
+      })
+      .catch(() => {
+        if (!cancelled) setSummary(null);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [url]);
+
+  if (summary === undefined) {
+    return <div className="text-xs text-zinc-400">Reading PSD header...</div>;
+  }
+  if (summary === null) {
+    return <div className="text-xs text-red-400">Could not read PSD header</div>;
+  }
+
+  const rows: [string, string][] = [
+    ["Format", summary.version === 2 ? "PSB (large document)" : "PSD"],
+    ["Dimensions", `${summary.width} × ${summary.height}px`],
+    ["Color mode", `${summary.colorMode}, ${summary.depth}-bit`],
+    ["Channels", String(summary.channels)],
+    ["Layers", summary.layerCount > 0 ? String(summary.layerCount) : "none (flattened)"],
+  ];
+
+  return (
+    <table className="text-xs text-zinc-300">
+      <tbody>
+        {rows.map(([label, value]) => (
+          <tr key={label}>
+            <td className="pr-3 text-zinc-500">{label}</td>
+            <td className="font-mono">{value}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+// Stored artifacts are served in a CSP sandbox, where the browser's PDF viewer
+// will not run, so the document is shown from a blob: URL instead
+function PdfView({ url }: { url: string }) {
+  const [blobUrl, setBlobUrl] = useState<string | null | undefined>(url.startsWith("blob:") ? url : undefined);
+
+  useEffect(() => {
+    if (url.startsWith("blob:")) return;
+    let cancelled = false;
+    let created: string | null = null;
+    fetch(url)
+      .then((res) => res.blob())
+      .then((blob) => {
+        if (cancelled) return;
+        created = URL.createObjectURL(new Blob([blob], { type: "application/pdf" }));
+        setBlobUrl(created);
+      })
+      .catch(() => {
+        if (!cancelled) setBlobUrl(null);
+      });
+    return () => {
+      cancelled = true;
+      if (created) URL.revokeObjectURL(created);
+    };
+  }, [url]);
+
+  if (blobUrl === undefined) {
+    return <div className="text-xs text-zinc-400">Loading PDF...</div>;
+  }
+  if (blobUrl === null) {
+    return <div className="text-xs text-red-400">Could not load PDF</div>;
+  }
+  return <iframe src={blobUrl} title="PDF preview" className="w-full h-96 rounded bg-white" />;
+}
+
+export default function FormatPreview({ url, format, size = "compact" }: FormatPreviewProps) {
+  const fileFormat = getFileFormat(format);
+  const [failed, setFailed] = useState(false);
+
+  if (fileFormat?.image && !failed) {
+    return (
+      <img
+        src={url}
+        alt={`${fileFormat.label} preview`}
+        className={size === "compact" ? "max-h-32 rounded" : "max-w-full max-h-96 rounded"}
+        onError={() => setFailed(true)}
+      />
+    );
+  }
+
+  if (fileFormat?.id === "psd") {
+    return <PsdSummaryView url={url} />;
+  }
+
+  if (fileFormat?.id === "pdf") {
+    return size === "compact" ? (
+      <div className="text-xs text-zinc-400">PDF document</div>
+    ) : (
+      <PdfView key={url} url={url} />
+    );
+  }
+
+  return (
+    <div className="text-xs text-zinc-400">
+      {failed
+        ? `${fileFormat?.label ?? "Image"} preview failed to render`
+        : `No inline preview for ${fileFormat?.label ?? "unknown format"}`}
+    </div>
+  );
+}
@@ -0,0 +1,153 @@
+"use client";
+
+import { useEffect, useMemo, useRef, useState } from "react";
+import { JsonView, darkStyles } from "react-json-view-lite";
+import type { PhotopeaClient } from "@/lib/photopea-client";
+import { formatScriptError } from "@/lib/script-errors";
+import {
+  diffSnapshots,
+  INSPECT_SCRIPT,
+  parseSnapshot,
+  type InspectorSnapshot,
+  type SnapshotChange,
+} from "@/lib/document-inspector";
+
+interface InspectorPanelProps {
+  getClient: () => PhotopeaClient | null;
+  /** Number of console scripts that have finished; a change triggers an automatic refresh. */
+  scriptRuns: number;
+  onClose: () => void;
+}
+
+const changeStyles: Record<SnapshotChange["kind"], { sign: string; className: string }> = {
+  added: { sign: "+", className: "text-green-400" },
+  removed: { sign: "−", className: "text-red-400" },
+  changed: { sign: "~", className: "text-amber-400" },
+};
+
+function formatValue(value: unknown): string {
+  const text = JSON.stringify(value) ?? "undefined";
+  return text.length > 60 ? `${text.slice(0, 60)}…` : text;
+}
+
+export default function InspectorPanel({ getClient, scriptRuns, onClose }: InspectorPanelProps) {
+  const [snapshot, setSnapshot] = useState<InspectorSnapshot | null>(null);
+  const [previous, setPrevious] = useState<InspectorSnapshot | null>(null);
+  const [autoRefresh, setAutoRefresh] = useState(true);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const seenRunsRef = useRef(scriptRuns);
+
+  const diff = useMemo(
+    () => (previous && snapshot ? diffSnapshots(previous, snapshot) : null),
+    [previous, snapshot]
+  );
+
+  const refresh = async () => {
+    const client = getClient();
+    if (!client) return;
+    setLoading(true);
+    try {
+      const result = await client.run(INSPECT_SCRIPT, { silent: true, catchErrors: true });
+      const taken = parseSnapshot(result.outputs);
+      if (result.error) {
+        setError(formatScriptError(result.error));
+      } else if (!taken) {
+        setError("Photopea did not report a snapshot");
+      } else {
+        setError(null);
+        setPrevious(snapshot);
+        setSnapshot(taken);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // The effects below only decide when to refresh; they call the latest `refresh`
+  const refreshRef = useRef(refresh);
+  useEffect(() => {
+    refreshRef.current = refresh;
+  });
+
+  useEffect(() => {
+    refreshRef.current();
+  }, []);
+
+  useEffect(() => {
+    if (!autoRefresh || seenRunsRef.current === scriptRuns) return;
+    seenRunsRef.current = scriptRuns;
+    refreshRef.current();
+  }, [scriptRuns, autoRefresh]);
+
+  return (
+    <div className="border-b border-zinc-700 bg-zinc-900 max-h-96 overflow-y-auto">
+      <div className="p-3 space-y-2 text-xs">
+        <div className="flex items-center justify-between">
+          <h3 className="text-sm font-semibold text-zinc-100">Document Inspector</h3>
+          <div className="flex items-center gap-2">
+            <label className="flex items-center gap-1 text-zinc-400">
+              <input type="checkbox" checked={autoRefresh} onChange={(e) => setAutoRefresh(e.target.checked)} />
+              After each script
+            </label>
+            <button
+              onClick={refresh}
+              disabled={loading}
+              className="px-2 py-1 bg-zinc-700 hover:bg-zinc-600 disabled:opacity-50 text-zinc-300 rounded"
+            >
+              {loading ? "Inspecting…" : "Refresh"}
+            </button>
+            <button onClick={onClose} className="text-zinc-500 hover:text-zinc-300">
+              ✕
+            </button>
+          </div>
+        </div>
+
+        {error && <div className="text-red-400">{error}</div>}
+
+        {snapshot && (
+          <>
+            <div className="text-zinc-500">
+              {snapshot.documents.length} document(s) · taken {new Date(snapshot.takenAt).toLocaleTimeString()}
+            </div>
+            {snapshot.documents.length > 0 && (
+              <div className="rounded bg-zinc-800 p-2 overflow-x-auto">
+                <JsonView
+                  key={snapshot.takenAt}
+                  data={snapshot.documents}
+                  style={darkStyles}
+                  shouldExpandNode={(level, value) => level < 2 || !!diff?.changedNodes.has(value)}
+                />
+              </div>
+            )}
+          </>
+        )}
+
+        {previous && diff && (
+          <div>
+            <div className="font-medium text-zinc-400 mb-1">
+              Changes since {new Date(previous.takenAt).toLocaleTimeString()}
+            </div>
+            {diff.changes.length === 0 ? (
+              <div className="text-zinc-500">No changes</div>
+            ) : (
+              <ul className="font-mono space-y-0.5">
+                {diff.changes.map((change) => {
+                  const style = changeStyles[change.kind];
+                  return (
+                    <li key={`${change.kind}:${change.path}`} className={`break-all ${style.className}`}>
+                      {style.sign} {change.path}
+                      {change.kind === "changed" && `: ${formatValue(change.before)} → ${formatValue(change.after)}`}
+                    </li>
+                  );
+                })}
+              </ul>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
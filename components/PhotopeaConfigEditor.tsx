@@ -0,0 +1,355 @@
+"use client";
+
+import { useState } from "react";
+import {
+  buildPhotopeaSrc,
+  validatePhotopeaConfig,
+  type PhotopeaConfig,
+  type PhotopeaEnvironment,
+  type PhotopeaPlugin,
+} from "@/lib/photopea-config";
+
+interface PhotopeaConfigEditorProps {
+  /** Everything except `files`, which come from the image list. */
+  config: PhotopeaConfig;
+  imageUrls: string[];
+  baseUrl: string;
+  /** Save endpoint for the current session. */
+  saveUrl: string;
+  onChange: (config: PhotopeaConfig) => void;
+  onApply: () => void;
+  onClose: () => void;
+}
+
+const inputClass =
+  "w-full bg-zinc-700 text-zinc-100 rounded px-2 py-1 text-xs focus:outline-none focus:ring-1 focus:ring-blue-500";
+
+function parseNumberList(text: string): number[] | undefined {
+  const values = text.split(",").map((v) => v.trim()).filter(Boolean).map(Number);
+  return values.length > 0 ? values : undefined;
+}
+
+function parseLines(text: string): string[] | undefined {
+  const lines = text.split("\n").map((l) => l.trim()).filter(Boolean);
+  return lines.length > 0 ? lines : undefined;
+}
+
+/** Text field holding JSON; only reports a value once it parses. */
+function JsonField({
+  label,
+  value,
+  placeholder,
+  onChange,
+}: {
+  label: string;
+  value: unknown;
+  placeholder: string;
+  onChange: (value: unknown) => void;
+}) {
+  const [text, setText] = useState(value === undefined ? "" : JSON.stringify(value));
+  const [invalid, setInvalid] = useState(false);
+
+  return (
+    <label className="block">
+      <span className="text-zinc-400">{label}</span>
+      <input
+        value={text}
+        placeholder={placeholder}
+        onChange={(e) => {
+          setText(e.target.value);
+          if (!e.target.value.trim()) {
+            setInvalid(false);
+            onChange(undefined);
+            return;
+          }
+          try {
+            onChange(JSON.parse(e.target.value));
+            setInvalid(false);
+          } catch {
+            setInvalid(true);
+          }
+        }}
+        className={`${inputClass} font-mono ${invalid ? "ring-1 ring-red-500" : ""}`}
+      />
+      {invalid && <span className="text-red-400">Invalid JSON</span>}
+    </label>
+  );
+}
+
+export default function PhotopeaConfigEditor({
+  config,
+  imageUrls,
+  baseUrl,
+  saveUrl,
+  onChange,
+  onApply,
+  onClose,
+}: PhotopeaConfigEditorProps) {
+  const env = config.environment ?? {};
+  const fullConfig: PhotopeaConfig = { ...config, files: imageUrls };
+  const errors = validatePhotopeaConfig(fullConfig);
+  const src = buildPhotopeaSrc(baseUrl, fullConfig);
+
+  const setEnv = <K extends keyof PhotopeaEnvironment>(key: K, value: PhotopeaEnvironment[K]) => {
+    onChange({ ...config, environment: { ...env, [key]: value } });
+  };
+
+  const setPlugin = (index: number, patch: Partial<PhotopeaPlugin>) => {
+    const plugins = (env.plugins ?? []).map((p, i) => (i === index ? { ...p, ...patch } : p));
+    setEnv("plugins", plugins);
+  };
+
+  return (
+    <div className="border-b border-zinc-700 bg-zinc-900 max-h-96 overflow-y-auto text-xs">
+      <div className="p-3 space-y-3">
+        <div className="flex items-center justify-between">
+          <h3 className="text-sm font-semibold text-zinc-100">Photopea Config</h3>
+          <button onClick={onClose} className="text-zinc-500 hover:text-zinc-300">
+            ✕
+          </button>
+        </div>
+
+        {/* Environment */}
+        <div className="space-y-2">
+          <div className="font-medium text-zinc-300">Environment</div>
+          <div className="grid grid-cols-3 gap-2">
+            <label className="block">
+              <span className="text-zinc-400">Theme</span>
+              <input
+                type="number"
+                min={0}
+                value={env.theme ?? ""}
+                onChange={(e) => setEnv("theme", e.target.value === "" ? undefined : Number(e.target.value))}
+                className={inputClass}
+              />
+            </label>
+            <label className="block">
+              <span className="text-zinc-400">Language</span>
+              <input
+                value={env.lang ?? ""}
+                placeholder="en"
+                onChange={(e) => setEnv("lang", e.target.value || undefined)}
+                className={inputClass}
+              />
+            </label>
+            <label className="block">
+              <span className="text-zinc-400">View mode</span>
+              <select
+                value={env.vmode ?? ""}
+                onChange={(e) => setEnv("vmode", e.target.value === "" ? undefined : Number(e.target.value))}
+                className={inputClass}
+              >
+                <option value="">Default</option>
+                <option value="0">0 · Normal</option>
+                <option value="1">1 · No side panels</option>
+                <option value="2">2 · No panels or tools</option>
+              </select>
+            </label>
+          </div>
+          <div className="flex items-center gap-4">
+            <label className="flex items-center gap-1 text-zinc-400">
+              <input
+                type="checkbox"
+                checked={env.intro ?? true}
+                onChange={(e) => setEnv("intro", e.target.checked ? undefined : false)}
+              />
+              Intro screen
+            </label>
+            <label className="flex items-center gap-1 text-zinc-400">
+              <input
+                type="checkbox"
+                checked={env.localsave ?? true}
+                onChange={(e) => setEnv("localsave", e.target.checked ? undefined : false)}
+              />
+              Local save
+            </label>
+            <label className="flex items-center gap-1 text-zinc-400">
+              Autosave (s)
+              <input
+                type="number"
+                min={0}
+                value={env.autosave ?? ""}
+                onChange={(e) => setEnv("autosave", e.target.value === "" ? undefined : Number(e.target.value))}
+                className={`${inputClass} w-16`}
+              />
+            </label>
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            <label className="block">
+              <span className="text-zinc-400">Visible panels</span>
+              <input
+                defaultValue={env.panels?.join(", ") ?? ""}
+                placeholder="0, 1, 2, 3"
+                onChange={(e) => setEnv("panels", parseNumberList(e.target.value))}
+                className={inputClass}
+              />
+            </label>
+            <label className="block">
+              <span className="text-zinc-400">Visible tools</span>
+              <input
+                defaultValue={env.showtools?.join(", ") ?? ""}
+                placeholder="0, 1, 2, 3"
+                onChange={(e) => setEnv("showtools", parseNumberList(e.target.value))}
+                className={inputClass}
+              />
+            </label>
+          </div>
+          <JsonField
+            label="Menus"
+            value={env.menus}
+            placeholder="[[1,1,1,1,1],1,0,1,1,1,1,1,1]"
+            onChange={(value) => setEnv("menus", value as unknown[] | undefined)}
+          />
+          <JsonField
+            label="Custom IO"
+            value={env.customIO}
+            placeholder={'{"save": "app.echoToOE(\\"saved\\")"}'}
+            onChange={(value) => setEnv("customIO", value as Record<string, string> | undefined)}
+          />
+
+          <div>
+            <div className="flex items-center justify-between">
+              <span className="text-zinc-400">Plugins</span>
+              <button
+                onClick={() => setEnv("plugins", [...(env.plugins ?? []), { name: "", url: "" }])}
+                className="px-2 py-0.5 bg-zinc-700 hover:bg-zinc-600 text-zinc-300 rounded"
+              >
+                + Plugin
+              </button>
+            </div>
+            {(env.plugins ?? []).map((plugin, i) => (
+              <div key={i} className="flex gap-1 mt-1">
+                <input
+                  value={plugin.name}
+                  placeholder="Name"
+                  onChange={(e) => setPlugin(i, { name: e.target.value })}
+                  className={`${inputClass} w-1/4`}
+                />
+                <input
+                  value={plugin.url}
+                  placeholder="https://plugin.example.com"
+                  onChange={(e) => setPlugin(i, { url: e.target.value })}
+                  className={inputClass}
+                />
+                <input
+                  value={plugin.icon ?? ""}
+                  placeholder="Icon URL"
+                  onChange={(e) => setPlugin(i, { icon: e.target.value || undefined })}
+                  className={`${inputClass} w-1/4`}
+                />
+                <button
+                  onClick={() => setEnv("plugins", env.plugins?.filter((_, j) => j !== i))}
+                  className="text-zinc-500 hover:text-red-400 px-1"
+                >
+                  ×
+                </button>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        {/* Resources */}
+        <label className="block">
+          <span className="font-medium text-zinc-300">Resources</span>
+          <textarea
+            defaultValue={config.resources?.join("\n") ?? ""}
+            placeholder="Fonts, brushes, gradients… one URL per line"
+            rows={2}
+            onChange={(e) => onChange({ ...config, resources: parseLines(e.target.value) })}
+            className={`${inputClass} font-mono resize-none`}
+          />
+        </label>
+
+        {/* Server */}
+        <div className="space-y-1">
+          <label className="flex items-center gap-1 font-medium text-zinc-300">
+            <input
+              type="checkbox"
+              checked={!!config.server}
+              onChange={(e) =>
+                onChange({
+                  ...config,
+                  server: e.target.checked ? { version: 1, url: "", formats: ["psd:true", "png"] } : undefined,
+                })
+              }
+            />
+            Save to server
+          </label>
+          <button
+            onClick={() =>
+              onChange({
+                ...config,
+                server: { version: 1, url: saveUrl, formats: config.server?.formats ?? ["psd:true", "png"] },
+              })
+            }
+            disabled={config.server?.url === saveUrl}
+            className="px-2 py-0.5 bg-zinc-700 hover:bg-zinc-600 disabled:opacity-50 text-zinc-300 rounded"
+          >
+            {config.server?.url === saveUrl ? "Saving into this session" : "Save into this session"}
+          </button>
+          {config.server && (
+            <div className="grid grid-cols-2 gap-2">
+              <input
+                value={config.server.url}
+                placeholder="https://example.com/save"
+                onChange={(e) => onChange({ ...config, server: { ...config.server!, url: e.target.value } })}
+                className={inputClass}
+              />
+              <input
+                value={config.server.formats.join(", ")}
+                placeholder="psd:true, png, jpg:0.5"
+                onChange={(e) =>
+                  onChange({
+                    ...config,
+                    server: {
+                      ...config.server!,
+                      formats: e.target.value.split(",").map((f) => f.trim()).filter(Boolean),
+                    },
+                  })
+                }
+                className={inputClass}
+              />
+            </div>
+          )}
+        </div>
+
+        {/* Startup script */}
+        <label className="block">
+          <span className="font-medium text-zinc-300">Startup script</span>
+          <textarea
+            value={config.script ?? ""}
+            placeholder="Runs once the files are open"
+            rows={2}
+            onChange={(e) => onChange({ ...config, script: e.target.value || undefined })}
+            className={`${inputClass} font-mono resize-none`}
+          />
+        </label>
+
+        {/* Preview */}
+        <div>
+          <div className="font-medium text-zinc-300 mb-1">Encoded URL</div>
+          <pre className="p-2 bg-zinc-800 rounded font-mono text-zinc-400 whitespace-pre-wrap break-all max-h-24 overflow-auto">
+            {src}
+          </pre>
+          {errors.length > 0 && (
+            <ul className="mt-1 text-red-400">
+              {errors.map((error) => (
+                <li key={error.field}>
+                  <code>{error.field}</code>: {error.message}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        <button
+          onClick={onApply}
+          disabled={errors.length > 0}
+          className="w-full px-2 py-1.5 bg-green-600 hover:bg-green-500 disabled:bg-zinc-600 text-white rounded font-medium"
+        >
+          Apply & reload Photopea
+        </button>
+      </div>
+    </div>
+  );
+}
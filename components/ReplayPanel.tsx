@@ -0,0 +1,117 @@
+"use client";
+
+import type { ReplayRecord, ReplayRun, ReplayStepStatus } from "@/lib/replay";
+
+interface ReplayPanelProps {
+  replay: ReplayRun;
+  onStop: () => void;
+  onClose: () => void;
+}
+
+const statusColors: Record<ReplayStepStatus, string> = {
+  pending: "bg-zinc-600",
+  running: "bg-blue-600 animate-pulse",
+  match: "bg-green-700",
+  mismatch: "bg-yellow-600",
+  failed: "bg-red-700",
+  skipped: "bg-zinc-700",
+};
+
+function RecordList({ records }: { records: ReplayRecord[] | null }) {
+  if (records === null) {
+    return <div className="text-zinc-500 italic">—</div>;
+  }
+  if (records.length === 0) {
+    return <div className="text-zinc-500 italic">no output</div>;
+  }
+  return (
+    <div className="space-y-1">
+      {records.map((record, i) => (
+        <div key={i} className="bg-zinc-900 rounded p-1">
+          <span className="text-[10px] px-1 rounded bg-zinc-700 text-zinc-300">{record.dataType}</span>
+          <pre className="mt-1 whitespace-pre-wrap break-all font-mono text-[11px] text-zinc-300">
+            {record.content.length > 160 ? record.content.slice(0, 160) + "..." : record.content}
+          </pre>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export default function ReplayPanel({ replay, onStop, onClose }: ReplayPanelProps) {
+  const active = replay.status === "loading" || replay.status === "running";
+  const counts = replay.steps.reduce<Partial<Record<ReplayStepStatus, number>>>((acc, step) => {
+    acc[step.status] = (acc[step.status] ?? 0) + 1;
+    return acc;
+  }, {});
+
+  return (
+    <div className="flex-1 overflow-y-auto p-4 space-y-3 min-h-0">
+      <div className="flex items-center gap-2">
+        <div className="flex-1">
+          <div className="text-sm font-semibold text-zinc-100">
+            Replay of <code className="text-blue-400">{replay.sessionId.slice(0, 8)}</code>
+          </div>
+          <div className="text-xs text-zinc-400">
+            {replay.status} · {counts.match ?? 0} match · {counts.mismatch ?? 0} mismatch ·{" "}
+            {counts.failed ?? 0} failed · {replay.steps.length} step(s)
+          </div>
+        </div>
+        {active ? (
+          <button
+            onClick={onStop}
+            className="px-2 py-1 text-xs bg-red-600 hover:bg-red-500 text-white rounded"
+          >
+            Stop
+          </button>
+        ) : (
+          <button
+            onClick={onClose}
+            className="px-2 py-1 text-xs bg-zinc-700 hover:bg-zinc-600 text-zinc-300 rounded"
+          >
+            Close
+          </button>
+        )}
+      </div>
+
+      {replay.error && (
+        <div className="p-2 rounded bg-red-900/40 text-xs text-red-300">{replay.error}</div>
+      )}
+
+      {replay.steps.length === 0 && (
+        <div className="text-zinc-500 text-sm text-center py-8">
+          This session has no sent scripts to replay.
+        </div>
+      )}
+
+      {replay.steps.map((step) => (
+        <div key={step.index} className="rounded-lg border border-zinc-700 p-2 text-xs">
+          <div className="flex items-center gap-2 mb-2 text-zinc-500">
+            <span>Step {step.index + 1}</span>
+            <span className={`px-1.5 py-0.5 rounded text-zinc-100 ${statusColors[step.status]}`}>
+              {step.status}
+            </span>
+            {step.durationMs !== undefined && <span className="ml-auto">{step.durationMs}ms</span>}
+          </div>
+          <pre className="p-2 mb-2 rounded bg-blue-600 text-white whitespace-pre-wrap break-words font-mono">
+            {step.script.length > 200 ? step.script.slice(0, 200) + "..." : step.script}
+          </pre>
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <div className="text-zinc-500 mb-1">Original</div>
+              <RecordList records={step.original} />
+            </div>
+            <div>
+              <div className="text-zinc-500 mb-1">Replay</div>
+              {step.error ? (
+                <div className="text-red-400">{step.error}</div>
+              ) : (
+                <RecordList records={step.replayed} />
+              )}
+            </div>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,236 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { basicSetup, EditorView } from "codemirror";
+import { EditorState, Prec } from "@codemirror/state";
+import { keymap, placeholder as placeholderText } from "@codemirror/view";
+import { ifNotIn, type CompletionContext, type CompletionResult } from "@codemirror/autocomplete";
+import { javascript, javascriptLanguage } from "@codemirror/lang-javascript";
+import { linter, type Diagnostic } from "@codemirror/lint";
+import { oneDark } from "@codemirror/theme-one-dark";
+import { completeApi } from "@/lib/photopea-api";
+import { lintScript } from "@/lib/script-lint";
+import { searchHistory } from "@/lib/script-history";
+
+interface ScriptEditorProps {
+  value: string;
+  onChange: (value: string) => void;
+  /** Called on ⌘/Ctrl + Enter. */
+  onSubmit: () => void;
+  /** Previously sent scripts, oldest first, for ↑/↓ and Ctrl + R. */
+  history?: string[];
+  placeholder?: string;
+}
+
+interface HistorySearch {
+  query: string;
+  /** Index of the matching history entry, or -1. */
+  match: number;
+}
+
+function completePhotopeaApi(context: CompletionContext): CompletionResult | null {
+  const line = context.state.doc.lineAt(context.pos);
+  const result = completeApi(line.text.slice(0, context.pos - line.from));
+  if (!result) return null;
+  return {
+    from: line.from + result.from,
+    options: result.options.map((option) => ({
+      label: option.label,
+      type: option.kind,
+      detail: option.detail,
+      info: option.doc,
+    })),
+    validFor: /^[\w$]*$/,
+  };
+}
+
+function lintSyntax(view: EditorView): Diagnostic[] {
+  return lintScript(view.state.doc.toString()).map(({ from, to, message }) => ({
+    from,
+    to,
+    message,
+    severity: "error",
+  }));
+}
+
+const editorTheme = EditorView.theme({
+  "&": { height: "12rem", fontSize: "0.875rem", borderRadius: "0.5rem", overflow: "hidden" },
+  "&.cm-focused": { outline: "2px solid #3b82f6" },
+  ".cm-scroller": { overflow: "auto" },
+});
+
+/** CodeMirror editor for Photopea scripts, with API completions and syntax linting. */
+export default function ScriptEditor({ value, onChange, onSubmit, history = [], placeholder }: ScriptEditorProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const viewRef = useRef<EditorView | null>(null);
+  const searchInputRef = useRef<HTMLInputElement>(null);
+  // The editor is created once; it calls whatever handlers were passed last
+  const onChangeRef = useRef(onChange);
+  const onSubmitRef = useRef(onSubmit);
+  const historyRef = useRef(history);
+  const initialRef = useRef({ value, placeholder });
+  // History entry being shown (null while editing a new script) and the script it replaced
+  const navRef = useRef<{ index: number | null; draft: string }>({ index: null, draft: "" });
+  const applyingHistoryRef = useRef(false);
+  const [search, setSearch] = useState<HistorySearch | null>(null);
+
+  useEffect(() => {
+    onChangeRef.current = onChange;
+    onSubmitRef.current = onSubmit;
+    historyRef.current = history;
+  });
+
+  useEffect(() => {
+    if (search) searchInputRef.current?.focus();
+  }, [search]);
+
+  /** Replaces the script with a history entry (or the draft, for `history.length`). */
+  const showHistoryEntry = (view: EditorView, index: number, cursorAtStart = false) => {
+    const entries = historyRef.current;
+    const nav = navRef.current;
+    if (nav.index === null) nav.draft = view.state.doc.toString();
+    nav.index = index < entries.length ? index : null;
+    const text = nav.index === null ? nav.draft : entries[index];
+
+    applyingHistoryRef.current = true;
+    try {
+      view.dispatch({
+        changes: { from: 0, to: view.state.doc.length, insert: text },
+        selection: { anchor: cursorAtStart ? 0 : text.length },
+        scrollIntoView: true,
+      });
+    } finally {
+      applyingHistoryRef.current = false;
+    }
+  };
+
+  const closeSearch = (accept: boolean) => {
+    const view = viewRef.current;
+    if (view && accept && search && search.match >= 0) showHistoryEntry(view, search.match);
+    setSearch(null);
+    view?.focus();
+  };
+
+  const handleSearchKeyDown = (e: React.KeyboardEvent) => {
+    if (!search) return;
+    if (e.key === "Enter") {
+      e.preventDefault();
+      closeSearch(true);
+    } else if (e.key === "Escape") {
+      e.preventDefault();
+      closeSearch(false);
+    } else if (e.key === "r" && e.ctrlKey) {
+      // Next older match, staying on the current one when there is none
+      e.preventDefault();
+      const older = search.match >= 0 ? searchHistory(history, search.query, search.match) : -1;
+      if (older >= 0) setSearch({ ...search, match: older });
+    }
+  };
+
+  // The keymap below is built once, so it reaches this through a ref
+  const showHistoryEntryRef = useRef(showHistoryEntry);
+  useEffect(() => {
+    showHistoryEntryRef.current = showHistoryEntry;
+  });
+
+  useEffect(() => {
+    // ↑ on the first line steps to older scripts, ↓ on the last line to newer ones
+    const stepHistory = (view: EditorView, step: -1 | 1): boolean => {
+      const { main } = view.state.selection;
+      if (!main.empty) return false;
+      const line = view.state.doc.lineAt(main.head).number;
+      if (step < 0 ? line !== 1 : line !== view.state.doc.lines) return false;
+
+      const length = historyRef.current.length;
+      const next = Math.min(navRef.current.index ?? length, length) + step;
+      if (next < 0) return true;
+      if (next > length) return false;
+      showHistoryEntryRef.current(view, next, step < 0);
+      return true;
+    };
+
+    const view = new EditorView({
+      parent: containerRef.current!,
+      state: EditorState.create({
+        doc: initialRef.current.value,
+        extensions: [
+          basicSetup,
+          javascript(),
+          javascriptLanguage.data.of({
+            autocomplete: ifNotIn(["LineComment", "BlockComment", "String", "TemplateString"], completePhotopeaApi),
+          }),
+          linter(lintSyntax, { delay: 300 }),
+          Prec.highest(
+            keymap.of([
+              {
+                key: "Mod-Enter",
+                run: () => {
+                  onSubmitRef.current();
+                  return true;
+                },
+              },
+              { key: "ArrowUp", run: (view) => stepHistory(view, -1) },
+              { key: "ArrowDown", run: (view) => stepHistory(view, 1) },
+              {
+                key: "Ctrl-r",
+                run: () => {
+                  const entries = historyRef.current;
+                  setSearch({ query: "", match: searchHistory(entries, "", entries.length) });
+                  return true;
+                },
+              },
+            ])
+          ),
+          placeholderText(initialRef.current.placeholder ?? ""),
+          oneDark,
+          editorTheme,
+          EditorView.updateListener.of((update) => {
+            if (!update.docChanged) return;
+            // Editing a history entry makes it the new draft
+            if (!applyingHistoryRef.current) navRef.current.index = null;
+            onChangeRef.current(update.state.doc.toString());
+          }),
+        ],
+      }),
+    });
+    viewRef.current = view;
+    return () => {
+      view.destroy();
+      viewRef.current = null;
+    };
+  }, []);
+
+  // Pick up changes made outside the editor, e.g. loading a library script
+  useEffect(() => {
+    const view = viewRef.current;
+    if (!view) return;
+    const current = view.state.doc.toString();
+    if (current !== value) {
+      view.dispatch({ changes: { from: 0, to: current.length, insert: value } });
+    }
+  }, [value]);
+
+  return (
+    <div>
+      <div ref={containerRef} />
+      {search && (
+        <div className="mt-2 flex items-center gap-2 text-xs font-mono">
+          <span className="text-zinc-400 shrink-0">reverse-i-search:</span>
+          <input
+            ref={searchInputRef}
+            value={search.query}
+            onChange={(e) =>
+              setSearch({ query: e.target.value, match: searchHistory(history, e.target.value, history.length) })
+            }
+            onKeyDown={handleSearchKeyDown}
+            onBlur={() => setSearch(null)}
+            className="w-40 bg-zinc-700 text-zinc-100 rounded px-2 py-1 focus:outline-none focus:ring-1 focus:ring-blue-500"
+          />
+          <span className={`truncate ${search.match >= 0 ? "text-zinc-300" : "text-red-400"}`}>
+            {search.match >= 0 ? history[search.match].split("\n")[0] : "no match"}
+          </span>
+        </div>
+      )}
+    </div>
+  );
+}
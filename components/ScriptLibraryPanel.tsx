@@ -0,0 +1,201 @@
+"use client";
+
+import { useRef, useState } from "react";
+import type { LibraryScript } from "@/lib/scripts";
+import { extractPlaceholders } from "@/lib/placeholders";
+
+interface ScriptLibraryPanelProps {
+  scripts: LibraryScript[];
+  currentInput: string;
+  onPick: (script: LibraryScript) => void;
+  onChange: () => Promise<void>;
+  onClose: () => void;
+}
+
+export default function ScriptLibraryPanel({
+  scripts,
+  currentInput,
+  onPick,
+  onChange,
+  onClose,
+}: ScriptLibraryPanelProps) {
+  const [name, setName] = useState("");
+  const [tags, setTags] = useState("");
+  const [description, setDescription] = useState("");
+  const [status, setStatus] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const saveCurrent = async () => {
+    if (!name.trim() || !currentInput.trim()) return;
+
+    try {
+      const res = await fetch("/api/scripts", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          name,
+          description,
+          tags: tags.split(","),
+          script: currentInput.trim(),
+        }),
+      });
+      if (!res.ok) throw new Error((await res.json()).error);
+      setName("");
+      setTags("");
+      setDescription("");
+      setStatus(`Saved "${name.trim()}"`);
+      await onChange();
+    } catch (error) {
+      console.error("Failed to save script:", error);
+      setStatus("Failed to save script");
+    }
+  };
+
+  const deleteScript = async (script: LibraryScript) => {
+    if (!confirm(`Delete "${script.name}" from the library?`)) return;
+
+    try {
+      await fetch(`/api/scripts/${script.id}`, { method: "DELETE" });
+      await onChange();
+    } catch (error) {
+      console.error("Failed to delete script:", error);
+    }
+  };
+
+  const importBundle = async (file: File) => {
+    try {
+      const res = await fetch("/api/scripts/import", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: await file.text(),
+      });
+      const result = await res.json();
+      if (!res.ok) throw new Error(result.error);
+      setStatus(`Imported ${result.imported} script(s)`);
+      await onChange();
+    } catch (error) {
+      console.error("Failed to import scripts:", error);
+      setStatus("Import failed: not a valid script bundle");
+    }
+  };
+
+  return (
+    <div className="border-b border-zinc-700 bg-zinc-900 max-h-80 overflow-y-auto">
+      <div className="p-3">
+        <div className="flex items-center justify-between mb-2">
+          <h3 className="text-sm font-semibold text-zinc-100">Script Library</h3>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => {
+                // Served as an attachment, so this downloads without navigating away
+                window.location.href = "/api/scripts/export";
+              }}
+              className="px-2 py-1 text-xs bg-zinc-700 hover:bg-zinc-600 text-zinc-300 rounded"
+            >
+              Export
+            </button>
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              className="px-2 py-1 text-xs bg-zinc-700 hover:bg-zinc-600 text-zinc-300 rounded"
+            >
+              Import
+            </button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="application/json,.json"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) importBundle(file);
+                e.target.value = "";
+              }}
+            />
+            <button onClick={onClose} className="text-zinc-500 hover:text-zinc-300">
+              ✕
+            </button>
+          </div>
+        </div>
+
+        {status && <div className="text-xs text-zinc-400 mb-2">{status}</div>}
+
+        <div className="space-y-1 mb-3">
+          {scripts.map((script) => (
+            <div
+              key={script.id}
+              onClick={() => onPick(script)}
+              className="p-2 rounded cursor-pointer bg-zinc-800 hover:bg-zinc-700 text-zinc-300"
+            >
+              <div className="flex items-center justify-between">
+                <div className="flex-1 min-w-0">
+                  <div className="text-xs font-medium truncate">{script.name}</div>
+                  {script.description && (
+                    <div className="text-xs opacity-70 truncate">{script.description}</div>
+                  )}
+                  <div className="flex flex-wrap gap-1 mt-1">
+                    {script.tags.map((tag) => (
+                      <span key={tag} className="text-[10px] px-1 rounded bg-zinc-700 text-zinc-400">
+                        {tag}
+                      </span>
+                    ))}
+                    {extractPlaceholders(script.script).map((p) => (
+                      <span key={p.name} className="text-[10px] px-1 rounded bg-blue-900 text-blue-300">
+                        {`{{${p.name}}}`}
+                      </span>
+                    ))}
+                  </div>
+                </div>
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    deleteScript(script);
+                  }}
+                  className="ml-2 px-2 py-1 text-xs bg-red-600/20 hover:bg-red-600 rounded"
+                >
+                  Del
+                </button>
+              </div>
+            </div>
+          ))}
+          {scripts.length === 0 && (
+            <div className="text-center text-zinc-500 py-4 text-xs">
+              The library is empty
+            </div>
+          )}
+        </div>
+
+        <div className="text-xs font-medium text-zinc-400 mb-1">Save current input</div>
+        <div className="space-y-1">
+          <input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Name"
+            className="w-full bg-zinc-700 text-zinc-100 rounded px-2 py-1 text-xs focus:outline-none focus:ring-1 focus:ring-blue-500"
+          />
+          <input
+            value={tags}
+            onChange={(e) => setTags(e.target.value)}
+            placeholder="Tags, comma separated"
+            className="w-full bg-zinc-700 text-zinc-100 rounded px-2 py-1 text-xs focus:outline-none focus:ring-1 focus:ring-blue-500"
+          />
+          <input
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
+            placeholder="Description (optional)"
+            className="w-full bg-zinc-700 text-zinc-100 rounded px-2 py-1 text-xs focus:outline-none focus:ring-1 focus:ring-blue-500"
+          />
+          <button
+            onClick={saveCurrent}
+            disabled={!name.trim() || !currentInput.trim()}
+            className="w-full px-2 py-1.5 text-xs bg-green-700 hover:bg-green-600 disabled:bg-zinc-700 disabled:text-zinc-500 text-white rounded"
+          >
+            Save to library
+          </button>
+          <div className="text-[10px] text-zinc-500">
+            Use {"{{name}}"} or {"{{name:default}}"} in the script for parameters.
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,71 @@
+"use client";
+
+import { useState } from "react";
+import { extractPlaceholders, fillPlaceholders } from "@/lib/placeholders";
+
+interface ScriptParamsDialogProps {
+  script: string;
+  onSubmit: (filled: string) => void;
+  onCancel: () => void;
+}
+
+export default function ScriptParamsDialog({ script, onSubmit, onCancel }: ScriptParamsDialogProps) {
+  const placeholders = extractPlaceholders(script);
+  const [values, setValues] = useState<Record<string, string>>(() =>
+    Object.fromEntries(placeholders.map((p) => [p.name, p.defaultValue ?? ""]))
+  );
+
+  const submit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onSubmit(fillPlaceholders(script, values));
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/70 flex items-center justify-center z-50 p-8"
+      onClick={onCancel}
+    >
+      <form
+        onSubmit={submit}
+        onClick={(e) => e.stopPropagation()}
+        className="bg-zinc-800 rounded-xl w-full max-w-md flex flex-col"
+      >
+        <div className="p-4 border-b border-zinc-700">
+          <h3 className="text-lg font-semibold text-zinc-100">Script parameters</h3>
+          <p className="text-xs text-zinc-400">Fill in the placeholders before sending</p>
+        </div>
+        <div className="p-4 space-y-3">
+          {placeholders.map((p, i) => (
+            <label key={p.name} className="block">
+              <span className="text-xs font-medium text-zinc-400">{p.name}</span>
+              <input
+                autoFocus={i === 0}
+                value={values[p.name] ?? ""}
+                onChange={(e) => setValues((prev) => ({ ...prev, [p.name]: e.target.value }))}
+                className="mt-1 w-full bg-zinc-700 text-zinc-100 rounded px-2 py-1 text-sm font-mono focus:outline-none focus:ring-1 focus:ring-blue-500"
+              />
+            </label>
+          ))}
+          <pre className="p-2 bg-zinc-900 rounded text-xs text-zinc-300 font-mono whitespace-pre-wrap break-all max-h-40 overflow-auto">
+            {fillPlaceholders(script, values)}
+          </pre>
+        </div>
+        <div className="p-4 border-t border-zinc-700 flex justify-end gap-2">
+          <button
+            type="button"
+            onClick={onCancel}
+            className="px-4 py-2 text-sm bg-zinc-700 hover:bg-zinc-600 text-zinc-200 rounded-lg"
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            className="px-4 py-2 text-sm bg-blue-600 hover:bg-blue-500 text-white rounded-lg"
+          >
+            Send
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
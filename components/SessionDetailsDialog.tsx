@@ -0,0 +1,95 @@
+"use client";
+
+import { useState } from "react";
+import type { SessionDetails } from "@/lib/session";
+
+interface SessionDetailsDialogProps {
+  sessionId: string;
+  details: SessionDetails;
+  onSubmit: (details: SessionDetails) => void;
+  onCancel: () => void;
+}
+
+function parseTags(value: string): string[] {
+  return [...new Set(value.split(",").map((t) => t.trim()).filter(Boolean))];
+}
+
+export default function SessionDetailsDialog({ sessionId, details, onSubmit, onCancel }: SessionDetailsDialogProps) {
+  const [title, setTitle] = useState(details.title ?? "");
+  const [description, setDescription] = useState(details.description ?? "");
+  const [tags, setTags] = useState((details.tags ?? []).join(", "));
+  const [pinned, setPinned] = useState(details.pinned ?? false);
+
+  const submit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onSubmit({ title: title.trim(), description: description.trim(), tags: parseTags(tags), pinned });
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/70 flex items-center justify-center z-50 p-8"
+      onClick={onCancel}
+    >
+      <form
+        onSubmit={submit}
+        onClick={(e) => e.stopPropagation()}
+        className="bg-zinc-800 rounded-xl w-full max-w-md flex flex-col"
+      >
+        <div className="p-4 border-b border-zinc-700">
+          <h3 className="text-lg font-semibold text-zinc-100">Session details</h3>
+          <p className="text-xs text-zinc-400 font-mono">{sessionId}</p>
+        </div>
+        <div className="p-4 space-y-3">
+          <label className="block">
+            <span className="text-xs font-medium text-zinc-400">Title</span>
+            <input
+              autoFocus
+              value={title}
+              maxLength={200}
+              onChange={(e) => setTitle(e.target.value)}
+              placeholder="Untitled session"
+              className="mt-1 w-full bg-zinc-700 text-zinc-100 rounded px-2 py-1 text-sm focus:outline-none focus:ring-1 focus:ring-blue-500"
+            />
+          </label>
+          <label className="block">
+            <span className="text-xs font-medium text-zinc-400">Description</span>
+            <textarea
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              rows={3}
+              className="mt-1 w-full bg-zinc-700 text-zinc-100 rounded px-2 py-1 text-sm resize-y focus:outline-none focus:ring-1 focus:ring-blue-500"
+            />
+          </label>
+          <label className="block">
+            <span className="text-xs font-medium text-zinc-400">Tags</span>
+            <input
+              value={tags}
+              onChange={(e) => setTags(e.target.value)}
+              placeholder="comma, separated"
+              className="mt-1 w-full bg-zinc-700 text-zinc-100 rounded px-2 py-1 text-sm focus:outline-none focus:ring-1 focus:ring-blue-500"
+            />
+          </label>
+          <label className="flex items-center gap-2 text-sm text-zinc-300">
+            <input type="checkbox" checked={pinned} onChange={(e) => setPinned(e.target.checked)} />
+            Pin to the top of the session list
+          </label>
+        </div>
+        <div className="p-4 border-t border-zinc-700 flex justify-end gap-2">
+          <button
+            type="button"
+            onClick={onCancel}
+            className="px-4 py-2 text-sm bg-zinc-700 hover:bg-zinc-600 text-zinc-200 rounded-lg"
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            className="px-4 py-2 text-sm bg-blue-600 hover:bg-blue-500 text-white rounded-lg"
+          >
+            Save
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
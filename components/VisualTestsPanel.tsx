@@ -0,0 +1,420 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { nanoid } from "nanoid";
+import type { PhotopeaClient } from "@/lib/photopea-client";
+import type { SessionArtifact } from "@/lib/session";
+import {
+  DEFAULT_MAX_DIFF_RATIO,
+  DEFAULT_TOLERANCE,
+  runVisualTests,
+  VISUAL_TEST_FORMATS,
+  type PixelImage,
+  type VisualTest,
+  type VisualTestEnvironment,
+  type VisualTestResult,
+  type VisualTestStatus,
+} from "@/lib/visual-test";
+
+interface VisualTestsPanelProps {
+  getClient: () => PhotopeaClient | null;
+  sessionId: string;
+  tests: VisualTest[];
+  /** Prefill for new tests: the script in the editor and the loaded images. */
+  currentScript: string;
+  imageUrls: string[];
+  onChange: (tests: VisualTest[]) => void;
+  /** Stores an export as the test's golden. */
+  onAccept: (testId: string, data: ArrayBuffer) => Promise<void>;
+  onClose: () => void;
+}
+
+/** A result with object URLs for its images, released when it is replaced. */
+interface DisplayedResult extends VisualTestResult {
+  actualUrl?: string;
+  diffUrl?: string;
+}
+
+const statusColors: Record<VisualTestStatus, string> = {
+  pending: "bg-zinc-600",
+  running: "bg-blue-600 animate-pulse",
+  passed: "bg-green-700",
+  failed: "bg-red-700",
+  "no-golden": "bg-amber-700",
+  error: "bg-red-900",
+};
+
+const inputClass =
+  "w-full bg-zinc-700 text-zinc-100 rounded px-2 py-1 focus:outline-none focus:ring-1 focus:ring-blue-500";
+
+function artifactUrl(sessionId: string, artifact: SessionArtifact): string {
+  return `/api/sessions/${sessionId}/artifacts/${artifact.id}`;
+}
+
+async function decodeImage(data: ArrayBuffer): Promise<PixelImage> {
+  const bitmap = await createImageBitmap(new Blob([data]));
+  const canvas = document.createElement("canvas");
+  canvas.width = bitmap.width;
+  canvas.height = bitmap.height;
+  const context = canvas.getContext("2d")!;
+  context.drawImage(bitmap, 0, 0);
+  bitmap.close();
+  return { width: canvas.width, height: canvas.height, data: context.getImageData(0, 0, canvas.width, canvas.height).data };
+}
+
+function encodeImage(image: PixelImage): Promise<string> {
+  const canvas = document.createElement("canvas");
+  canvas.width = image.width;
+  canvas.height = image.height;
+  canvas.getContext("2d")!.putImageData(new ImageData(new Uint8ClampedArray(image.data), image.width, image.height), 0, 0);
+  return new Promise((resolve, reject) =>
+    canvas.toBlob((blob) => (blob ? resolve(URL.createObjectURL(blob)) : reject(new Error("Could not encode diff"))))
+  );
+}
+
+async function readBytes(url: string): Promise<ArrayBuffer> {
+  const res = await fetch(url);
+  if (!res.ok) throw new Error(`Could not load ${url} (${res.status})`);
+  return res.arrayBuffer();
+}
+
+function newTest(script: string, imageUrls: string[], count: number): VisualTest {
+  return {
+    id: nanoid(10),
+    name: `Test ${count + 1}`,
+    inputs: imageUrls,
+    script,
+    format: "png",
+    tolerance: DEFAULT_TOLERANCE,
+    maxDiffRatio: DEFAULT_MAX_DIFF_RATIO,
+  };
+}
+
+function TestEditor({
+  test,
+  onSave,
+  onCancel,
+}: {
+  test: VisualTest;
+  onSave: (test: VisualTest) => void;
+  onCancel: () => void;
+}) {
+  const [draft, setDraft] = useState(test);
+  const [inputsText, setInputsText] = useState(test.inputs.join("\n"));
+
+  const save = (e: React.FormEvent) => {
+    e.preventDefault();
+    const inputs = inputsText.split("\n").map((line) => line.trim()).filter(Boolean);
+    onSave({ ...draft, name: draft.name.trim() || test.name, inputs });
+  };
+
+  return (
+    <form onSubmit={save} className="rounded border border-zinc-700 p-2 space-y-2">
+      <label className="block">
+        <span className="text-zinc-400">Name</span>
+        <input value={draft.name} onChange={(e) => setDraft({ ...draft, name: e.target.value })} className={inputClass} />
+      </label>
+      <label className="block">
+        <span className="text-zinc-400">Input images (one URL per line, opened in order)</span>
+        <textarea
+          value={inputsText}
+          onChange={(e) => setInputsText(e.target.value)}
+          rows={3}
+          className={`${inputClass} font-mono resize-none`}
+        />
+      </label>
+      <label className="block">
+        <span className="text-zinc-400">Script (runs on the last input)</span>
+        <textarea
+          value={draft.script}
+          onChange={(e) => setDraft({ ...draft, script: e.target.value })}
+          rows={5}
+          className={`${inputClass} font-mono resize-none`}
+        />
+      </label>
+      <div className="grid grid-cols-3 gap-2">
+        <label className="block">
+          <span className="text-zinc-400">Export as</span>
+          <select
+            value={draft.format}
+            onChange={(e) => setDraft({ ...draft, format: e.target.value })}
+            className={inputClass}
+          >
+            {VISUAL_TEST_FORMATS.map((f) => (
+              <option key={f} value={f}>
+                {f.toUpperCase()}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="block" title="Largest per-channel difference (0-255) for two pixels to count as the same">
+          <span className="text-zinc-400">Tolerance</span>
+          <input
+            type="number"
+            min={0}
+            max={255}
+            value={draft.tolerance}
+            onChange={(e) => setDraft({ ...draft, tolerance: Math.min(255, Math.max(0, Number(e.target.value))) })}
+            className={inputClass}
+          />
+        </label>
+        <label className="block" title="Share of pixels that may differ and still pass">
+          <span className="text-zinc-400">Max diff %</span>
+          <input
+            type="number"
+            min={0}
+            max={100}
+            step="any"
+            value={draft.maxDiffRatio * 100}
+            onChange={(e) =>
+              setDraft({ ...draft, maxDiffRatio: Math.min(1, Math.max(0, Number(e.target.value) / 100)) })
+            }
+            className={inputClass}
+          />
+        </label>
+      </div>
+      <div className="flex justify-end gap-2">
+        <button type="button" onClick={onCancel} className="px-2 py-1 bg-zinc-700 hover:bg-zinc-600 text-zinc-300 rounded">
+          Cancel
+        </button>
+        <button type="submit" className="px-2 py-1 bg-blue-600 hover:bg-blue-500 text-white rounded">
+          Save test
+        </button>
+      </div>
+    </form>
+  );
+}
+
+export default function VisualTestsPanel({
+  getClient,
+  sessionId,
+  tests,
+  currentScript,
+  imageUrls,
+  onChange,
+  onAccept,
+  onClose,
+}: VisualTestsPanelProps) {
+  const [results, setResults] = useState<Record<string, DisplayedResult>>({});
+  const [editing, setEditing] = useState<VisualTest | null>(null);
+  const [running, setRunning] = useState(false);
+  const [accepting, setAccepting] = useState<string | null>(null);
+  const runRef = useRef(0);
+  const urlsRef = useRef(new Set<string>());
+
+  useEffect(() => {
+    const urls = urlsRef.current;
+    return () => urls.forEach((url) => URL.revokeObjectURL(url));
+  }, []);
+
+  const environment: VisualTestEnvironment = {
+    // Photopea cannot fetch from this server itself, so local files are posted as bytes
+    readInput: async (url) => (url.startsWith("/") || url.startsWith(window.location.origin) ? readBytes(url) : null),
+    readGolden: (golden) => readBytes(artifactUrl(sessionId, golden)),
+    decode: decodeImage,
+  };
+
+  const showResult = async (result: VisualTestResult) => {
+    const displayed: DisplayedResult = { ...result };
+    if (result.actual) displayed.actualUrl = URL.createObjectURL(new Blob([result.actual]));
+    if (result.diff) displayed.diffUrl = await encodeImage(result.diff.image);
+    setResults((prev) => {
+      for (const url of [prev[result.testId]?.actualUrl, prev[result.testId]?.diffUrl]) {
+        if (url) {
+          URL.revokeObjectURL(url);
+          urlsRef.current.delete(url);
+        }
+      }
+      for (const url of [displayed.actualUrl, displayed.diffUrl]) if (url) urlsRef.current.add(url);
+      return { ...prev, [result.testId]: displayed };
+    });
+  };
+
+  const run = async (selected: VisualTest[]) => {
+    const client = getClient();
+    if (!client || selected.length === 0) return;
+
+    const runId = ++runRef.current;
+    const shown = new Set<VisualTestResult>();
+    setRunning(true);
+    await runVisualTests(client, selected, {
+      ...environment,
+      onUpdate: (updated) => {
+        if (runRef.current !== runId) return;
+        for (const result of updated) {
+          if (result.status === "pending" || shown.has(result)) continue;
+          shown.add(result);
+          showResult(result);
+        }
+      },
+      isCancelled: () => runRef.current !== runId,
+    });
+    if (runRef.current === runId) setRunning(false);
+  };
+
+  const stop = () => {
+    runRef.current++;
+    getClient()?.cancelAll("Tests stopped");
+    setRunning(false);
+  };
+
+  const saveTest = (test: VisualTest) => {
+    const exists = tests.some((t) => t.id === test.id);
+    onChange(exists ? tests.map((t) => (t.id === test.id ? test : t)) : [...tests, test]);
+    setEditing(null);
+  };
+
+  const deleteTest = (test: VisualTest) => {
+    if (!confirm(`Delete test "${test.name}"?`)) return;
+    onChange(tests.filter((t) => t.id !== test.id));
+  };
+
+  const accept = async (result: DisplayedResult) => {
+    if (!result.actual) return;
+    setAccepting(result.testId);
+    try {
+      await onAccept(result.testId, result.actual);
+      setResults((prev) => ({ ...prev, [result.testId]: { ...result, status: "passed", diff: undefined, error: undefined } }));
+    } finally {
+      setAccepting(null);
+    }
+  };
+
+  const passed = tests.filter((t) => results[t.id]?.status === "passed").length;
+  const finished = tests.filter((t) => {
+    const status = results[t.id]?.status;
+    return status && status !== "pending" && status !== "running";
+  }).length;
+
+  return (
+    <div className="flex-1 overflow-y-auto p-4 space-y-3 min-h-0 text-xs">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-semibold text-zinc-100">Visual Tests</h3>
+        <button onClick={onClose} disabled={running} className="text-zinc-500 hover:text-zinc-300 disabled:opacity-40">
+          ✕
+        </button>
+      </div>
+
+      <div className="flex items-center gap-2">
+        <button
+          onClick={() => setEditing(newTest(currentScript, imageUrls, tests.length))}
+          disabled={running || editing !== null}
+          className="px-2 py-1 bg-zinc-700 hover:bg-zinc-600 disabled:opacity-50 text-zinc-300 rounded"
+          title="New test from the script in the editor and the loaded images"
+        >
+          New test
+        </button>
+        {finished > 0 && (
+          <span className="text-zinc-400">
+            {passed}/{finished} passed
+          </span>
+        )}
+        {running ? (
+          <button onClick={stop} className="ml-auto px-3 py-1.5 bg-red-600 hover:bg-red-500 text-white rounded">
+            Stop
+          </button>
+        ) : (
+          <button
+            onClick={() => run(tests)}
+            disabled={tests.length === 0}
+            className="ml-auto px-3 py-1.5 bg-green-600 hover:bg-green-500 disabled:bg-zinc-600 text-white rounded"
+          >
+            Run all
+          </button>
+        )}
+      </div>
+
+      {editing && !tests.some((t) => t.id === editing.id) && (
+        <TestEditor test={editing} onSave={saveTest} onCancel={() => setEditing(null)} />
+      )}
+
+      {tests.length === 0 && !editing && (
+        <div className="text-zinc-500 text-center py-6">
+          No tests in this session. A test opens its input images, runs a script and compares the export with an
+          accepted golden image.
+        </div>
+      )}
+
+      {tests.map((test) => {
+        if (editing?.id === test.id) {
+          return <TestEditor key={test.id} test={editing} onSave={saveTest} onCancel={() => setEditing(null)} />;
+        }
+        const result = results[test.id];
+        return (
+          <div key={test.id} className="rounded border border-zinc-700 p-2 space-y-2">
+            <div className="flex items-center gap-2">
+              <span className={`px-1.5 py-0.5 rounded text-zinc-100 ${statusColors[result?.status ?? "pending"]}`}>
+                {result?.status ?? (test.golden ? "not run" : "no golden")}
+              </span>
+              <span className="font-medium text-zinc-200 truncate">{test.name}</span>
+              <span className="text-zinc-500">
+                {test.format.toUpperCase()} · {test.inputs.length} input(s)
+              </span>
+              <div className="ml-auto flex gap-1">
+                <button
+                  onClick={() => run([test])}
+                  disabled={running}
+                  className="px-1.5 py-0.5 bg-zinc-700 hover:bg-zinc-600 disabled:opacity-50 text-zinc-300 rounded"
+                >
+                  Run
+                </button>
+                <button
+                  onClick={() => setEditing(test)}
+                  disabled={running || editing !== null}
+                  className="px-1.5 py-0.5 bg-zinc-700 hover:bg-zinc-600 disabled:opacity-50 text-zinc-300 rounded"
+                >
+                  Edit
+                </button>
+                <button
+                  onClick={() => deleteTest(test)}
+                  disabled={running}
+                  className="px-1.5 py-0.5 text-zinc-500 hover:text-red-400 disabled:opacity-50"
+                >
+                  ✕
+                </button>
+              </div>
+            </div>
+
+            {result?.error && <div className="text-red-400">{result.error}</div>}
+            {result?.diff && (
+              <div className="text-zinc-400">
+                {result.diff.differing} of {result.diff.total} pixels differ (
+                {(result.diff.ratio * 100).toFixed(3)}%, allowed {(test.maxDiffRatio * 100).toFixed(3)}%)
+                {result.durationMs !== undefined && ` · ${result.durationMs}ms`}
+              </div>
+            )}
+
+            {(result?.actualUrl || test.golden) && (
+              <div className="grid grid-cols-3 gap-2">
+                {[
+                  { label: "Golden", url: test.golden && artifactUrl(sessionId, test.golden) },
+                  { label: "Actual", url: result?.actualUrl },
+                  { label: "Diff", url: result?.diffUrl },
+                ].map(({ label, url }) => (
+                  <figure key={label} className="space-y-1">
+                    <figcaption className="text-zinc-500">{label}</figcaption>
+                    {url ? (
+                      <img src={url} alt={`${test.name}: ${label}`} className="w-full rounded bg-zinc-800 object-contain" />
+                    ) : (
+                      <div className="aspect-square rounded bg-zinc-800" />
+                    )}
+                  </figure>
+                ))}
+              </div>
+            )}
+
+            {result?.actual && result.status !== "passed" && (
+              <button
+                onClick={() => accept(result)}
+                disabled={accepting !== null}
+                className="px-2 py-1 bg-amber-600 hover:bg-amber-500 disabled:opacity-50 text-white rounded"
+              >
+                {accepting === test.id ? "Saving…" : test.golden ? "Accept as new golden" : "Accept as golden"}
+              </button>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,126 @@
+import { nanoid } from 'nanoid';
+import fs from 'fs/promises';
+import path from 'path';
+import { formatFromExtension, sniffFormat } from './file-format';
+
+// Images, fonts and brushes served to Photopea by this app, so the `files`
+// and `resources` of its hash config do not need outside hosting. Files are
+// stored as uploaded in `.assets/`; the file name carries the original name,
+// and the extension decides the content type.
+
+/** Images are opened as documents; fonts and the other resources are loaded into Photopea. */
+export type AssetKind = 'image' | 'font' | 'resource';
+
+export interface Asset {
+  /** File name in `.assets/`: a random prefix, then the uploaded name. */
+  id: string;
+  name: string;
+  kind: AssetKind;
+  mimeType: string;
+  size: number;
+  createdAt: string;
+}
+
+export class AssetError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = 'AssetError';
+  }
+}
+
+/** Largest asset accepted by `POST /api/assets`. */
+export const MAX_ASSET_BYTES = 100 * 1024 * 1024;
+
+const ASSETS_DIR = path.join(process.cwd(), '.assets');
+const ASSET_ID_PATTERN = /^[A-Za-z0-9_-]{8}-[A-Za-z0-9_.-]{1,100}$/;
+
+const FONT_TYPES: Record<string, string> = {
+  ttf: 'font/ttf',
+  otf: 'font/otf',
+  woff: 'font/woff',
+  woff2: 'font/woff2',
+};
+
+// Photopea's own resource files: brushes, patterns, layer styles, gradients,
+// custom shapes and swatches
+const RESOURCE_EXTENSIONS = ['abr', 'pat', 'asl', 'grd', 'csh', 'aco'];
+
+export function isValidAssetId(id: unknown): id is string {
+  return typeof id === 'string' && ASSET_ID_PATTERN.test(id);
+}
+
+function extensionOf(name: string): string {
+  return path.extname(name).slice(1).toLowerCase();
+}
+
+function describeExtension(extension: string): Pick<Asset, 'kind' | 'mimeType'> | null {
+  const format = formatFromExtension(extension);
+  if (format) return { kind: 'image', mimeType: format.mimeType };
+  if (FONT_TYPES[extension]) return { kind: 'font', mimeType: FONT_TYPES[extension] };
+  if (RESOURCE_EXTENSIONS.includes(extension)) return { kind: 'resource', mimeType: 'application/octet-stream' };
+  return null;
+}
+
+async function toAsset(id: string): Promise<Asset | null> {
+  const described = describeExtension(extensionOf(id));
+  if (!described) return null;
+  try {
+    const stat = await fs.stat(path.join(ASSETS_DIR, id));
+    return { id, name: id.slice(9), ...described, size: stat.size, createdAt: stat.mtime.toISOString() };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Stores an uploaded file under its own name, made safe for a URL. A file
+ * without a known extension is accepted when its bytes are a known image
+ * format; anything else throws AssetError.
+ */
+export async function saveAsset(name: string, data: Buffer): Promise<Asset> {
+  let base = path.basename(name).replace(/[^A-Za-z0-9_.-]+/g, '_').replace(/^\.+/, '').slice(-100) || 'asset';
+  if (!describeExtension(extensionOf(base))) {
+    const format = sniffFormat(data);
+    if (!format) throw new AssetError(`Unsupported file type: ${name}`, 415);
+    base = `${base.replace(/\.[^.]*$/, '')}.${format.extension}`.slice(-100);
+  }
+
+  const id = `${nanoid(8)}-${base}`;
+  await fs.mkdir(ASSETS_DIR, { recursive: true });
+  await fs.writeFile(path.join(ASSETS_DIR, id), data);
+  return (await toAsset(id))!;
+}
+
+export async function loadAsset(id: string): Promise<{ asset: Asset; data: Buffer } | null> {
+  if (!isValidAssetId(id)) return null;
+  const asset = await toAsset(id);
+  if (!asset) return null;
+  try {
+    return { asset, data: await fs.readFile(path.join(ASSETS_DIR, id)) };
+  } catch {
+    return null;
+  }
+}
+
+/** Lists stored assets, newest first. */
+export async function listAssets(): Promise<Asset[]> {
+  try {
+    const files = await fs.readdir(ASSETS_DIR);
+    const assets = await Promise.all(files.filter(isValidAssetId).map(toAsset));
+    return assets
+      .filter((asset): asset is Asset => asset !== null)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  } catch {
+    return [];
+  }
+}
+
+export async function deleteAsset(id: string): Promise<boolean> {
+  if (!isValidAssetId(id)) return false;
+  try {
+    await fs.unlink(path.join(ASSETS_DIR, id));
+    return true;
+  } catch {
+    return false;
+  }
+}
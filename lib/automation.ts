@@ -0,0 +1,127 @@
+import type { SessionArtifact, SessionMessage } from './session';
+import type { PhotopeaOutput } from './photopea-client';
+import type { ScriptErrorReport } from './script-errors';
+import { describeData } from './message-format';
+
+// The bridge between the automation page (`/automation`) and whatever drives
+// it from outside, such as the headless CLI in `scripts/photopea.ts`. Once
+// Photopea is ready the page exposes `window.photopeaAutomation`; everything
+// crossing that boundary must be serializable, so binary data travels as
+// base64.
+
+export const AUTOMATION_PATH = '/automation';
+
+/** Whatever Photopea posted back, `done` included, as it crosses the bridge. */
+export type AutomationData =
+  | { kind: 'text'; text: string }
+  | { kind: 'binary'; base64: string };
+
+/** A script to run, or file contents to open as a new document. */
+export type AutomationPayload =
+  | { kind: 'script'; script: string }
+  | { kind: 'file'; base64: string };
+
+export interface AutomationResult {
+  /** Every message Photopea posted for the payload, in order. */
+  messages: AutomationData[];
+  /** What the script threw; its report is among `messages` too. */
+  error?: ScriptErrorReport;
+  /** Set when the run never finished, e.g. it timed out or Photopea was reloaded. */
+  failure?: { dataType: 'timeout' | 'error'; message: string };
+  durationMs: number;
+}
+
+export interface PhotopeaAutomation {
+  /** The iframe src, including the hash config, for recording with a session. */
+  photopeaSrc: string;
+  run: (payload: AutomationPayload, timeoutMs?: number) => Promise<AutomationResult>;
+}
+
+declare global {
+  interface Window {
+    photopeaAutomation?: PhotopeaAutomation;
+  }
+}
+
+export function bytesToBase64(bytes: Uint8Array): string {
+  // String.fromCharCode takes its arguments on the stack, so go in chunks
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+export function base64ToBytes(base64: string): Uint8Array {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+}
+
+export function encodeData(data: unknown): AutomationData {
+  if (data instanceof ArrayBuffer) return { kind: 'binary', base64: bytesToBase64(new Uint8Array(data)) };
+  if (ArrayBuffer.isView(data)) {
+    return { kind: 'binary', base64: bytesToBase64(new Uint8Array(data.buffer, data.byteOffset, data.byteLength)) };
+  }
+  return { kind: 'text', text: String(data) };
+}
+
+export function decodeData(data: AutomationData): PhotopeaOutput {
+  return data.kind === 'text' ? data.text : (base64ToBytes(data.base64).buffer as ArrayBuffer);
+}
+
+/** A received message to record, with its binary data already stored as an artifact. */
+export interface RecordedOutput {
+  data: PhotopeaOutput;
+  artifact?: SessionArtifact;
+  format?: string;
+}
+
+/**
+ * Builds the session messages of one exchange the way the console records
+ * them: the sent script, then every received message, then the failure if
+ * the run did not finish. Ids start at `firstId`.
+ */
+export function recordExchange(
+  firstId: number,
+  script: string,
+  received: RecordedOutput[],
+  failure?: AutomationResult['failure'],
+  timestamp = new Date().toISOString()
+): SessionMessage[] {
+  const messages: SessionMessage[] = [
+    {
+      id: firstId,
+      type: 'sent',
+      exchangeId: firstId,
+      content: script,
+      dataType: 'script',
+      timestamp,
+      rawString: script,
+    },
+  ];
+  for (const output of received) {
+    messages.push({
+      id: firstId + messages.length,
+      type: 'received',
+      exchangeId: firstId,
+      ...describeData(output.data),
+      timestamp,
+      ...(output.artifact && { artifact: output.artifact }),
+      ...(output.format && { format: output.format }),
+    });
+  }
+  if (failure) {
+    messages.push({
+      id: firstId + messages.length,
+      type: 'received',
+      exchangeId: firstId,
+      content: failure.message,
+      dataType: failure.dataType,
+      timestamp,
+      rawString: failure.message,
+    });
+  }
+  return messages;
+}
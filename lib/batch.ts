@@ -0,0 +1,172 @@
+import { strToU8, zipSync } from 'fflate';
+import type { PhotopeaClient } from './photopea-client';
+import { trackOpenedDocuments } from './opened-documents';
+import { fillPlaceholders } from './placeholders';
+import { formatScriptError } from './script-errors';
+import { sniffFormat } from './file-format';
+
+// Runs one script over many images: each item is opened in Photopea, the
+// script is applied, the result exported with saveToOE and the document
+// closed again before moving on to the next item.
+
+export type BatchSource =
+  | { kind: 'url'; url: string }
+  | { kind: 'file'; data: ArrayBuffer };
+
+export interface BatchItem {
+  id: string;
+  name: string;
+  source: BatchSource;
+}
+
+export type BatchItemStatus = 'pending' | 'running' | 'success' | 'failed' | 'skipped';
+
+export interface BatchOutput {
+  fileName: string;
+  format: string;
+  data: ArrayBuffer;
+}
+
+export interface BatchItemResult {
+  itemId: string;
+  name: string;
+  status: BatchItemStatus;
+  error?: string;
+  /** Strings echoed by the script (echoToOE). */
+  echoes: string[];
+  output?: BatchOutput;
+  durationMs?: number;
+}
+
+export interface BatchOptions {
+  /** May use `{{name}}` and `{{index}}` placeholders, filled in per item. */
+  script: string;
+  /** saveToOE format, e.g. "png", "jpg:0.8" or "psd". */
+  format: string;
+  timeoutMs?: number;
+  onUpdate?: (results: BatchItemResult[]) => void;
+  /** Checked between items; remaining items are marked skipped once it returns true. */
+  isCancelled?: () => boolean;
+}
+
+export const BATCH_FORMATS = ['png', 'jpg', 'webp', 'psd', 'svg', 'pdf'];
+
+function safeDecode(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
+
+function baseName(name: string): string {
+  const file = name.split('/').pop()?.split('?')[0] || name;
+  return safeDecode(file).replace(/\.[^.]+$/, '').replace(/[^\w.-]+/g, '_') || 'image';
+}
+
+export function itemNameFromUrl(url: string): string {
+  return safeDecode(url.split('/').pop()?.split('?')[0] || url);
+}
+
+export async function runBatch(
+  client: PhotopeaClient,
+  items: BatchItem[],
+  options: BatchOptions
+): Promise<BatchItemResult[]> {
+  let results: BatchItemResult[] = items.map((item) => ({
+    itemId: item.id,
+    name: item.name,
+    status: 'pending',
+    echoes: [],
+  }));
+  const update = (index: number, patch: Partial<BatchItemResult>) => {
+    results = results.map((r, i) => (i === index ? { ...r, ...patch } : r));
+    options.onUpdate?.(results);
+  };
+  const run = (payload: string | ArrayBuffer) =>
+    client.run(payload, { timeoutMs: options.timeoutMs, silent: true, catchErrors: true });
+
+  for (const [index, item] of items.entries()) {
+    if (options.isCancelled?.()) {
+      update(index, { status: 'skipped' });
+      continue;
+    }
+
+    const startedAt = Date.now();
+    update(index, { status: 'running' });
+    const opened = trackOpenedDocuments(run);
+
+    try {
+      await opened.open(item.source.kind === 'url' ? item.source.url : item.source.data, item.name);
+
+      const script = fillPlaceholders(options.script, { name: item.name, index: String(index + 1) });
+      const scriptResult = await run(script);
+      if (scriptResult.error) throw new Error(formatScriptError(scriptResult.error));
+      const echoes = scriptResult.outputs.filter((o): o is string => typeof o === 'string');
+
+      const exportResult = await run(`app.activeDocument.saveToOE(${JSON.stringify(options.format)});`);
+      const data = exportResult.outputs.find((o): o is ArrayBuffer => o instanceof ArrayBuffer);
+      if (!data) throw new Error('Export produced no file');
+
+      const format = sniffFormat(new Uint8Array(data));
+      const extension = format?.extension ?? options.format.split(':')[0];
+      update(index, {
+        status: 'success',
+        echoes,
+        durationMs: Date.now() - startedAt,
+        output: {
+          fileName: `${String(index + 1).padStart(3, '0')}-${baseName(item.name)}.${extension}`,
+          format: format?.id ?? extension,
+          data,
+        },
+      });
+    } catch (error) {
+      update(index, {
+        status: 'failed',
+        error: error instanceof Error ? error.message : String(error),
+        durationMs: Date.now() - startedAt,
+      });
+    } finally {
+      // Leave Photopea as we found it for the next item
+      await opened.closeAll();
+    }
+  }
+
+  return results;
+}
+
+export function buildBatchReport(results: BatchItemResult[], options: Pick<BatchOptions, 'script' | 'format'>) {
+  return {
+    createdAt: new Date().toISOString(),
+    script: options.script,
+    format: options.format,
+    total: results.length,
+    succeeded: results.filter((r) => r.status === 'success').length,
+    failed: results.filter((r) => r.status === 'failed').length,
+    items: results.map((r) => ({
+      name: r.name,
+      status: r.status,
+      error: r.error,
+      echoes: r.echoes,
+      output: r.output?.fileName,
+      size: r.output?.data.byteLength,
+      durationMs: r.durationMs,
+    })),
+  };
+}
+
+/** Zips every successful output together with a `report.json`. */
+export function buildBatchZip(
+  results: BatchItemResult[],
+  options: Pick<BatchOptions, 'script' | 'format'>
+): Uint8Array {
+  const files: Record<string, Uint8Array> = {
+    'report.json': strToU8(JSON.stringify(buildBatchReport(results, options), null, 2)),
+  };
+  for (const result of results) {
+    if (result.output) files[result.output.fileName] = new Uint8Array(result.output.data);
+  }
+
+  // Exports are mostly compressed already, so just store them
+  return zipSync(files, { level: 0 });
+}
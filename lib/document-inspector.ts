@@ -0,0 +1,177 @@
+// Snapshots of what Photopea is holding (open documents and their layer
+// trees), taken by running a built-in introspection script, and the
+// differences between two snapshots.
+
+export interface LayerSnapshot {
+  name: string | null;
+  /** "ArtLayer" or "LayerSet". */
+  type: string | null;
+  kind: string | null;
+  visible: boolean | null;
+  opacity: number | null;
+  blendMode: string | null;
+  /** [left, top, right, bottom] in pixels. */
+  bounds: number[] | null;
+  /** Children of a group. */
+  layers?: LayerSnapshot[];
+}
+
+export interface DocumentSnapshot {
+  name: string | null;
+  width: number | null;
+  height: number | null;
+  resolution: number | null;
+  mode: string | null;
+  active: boolean;
+  layers: LayerSnapshot[];
+}
+
+export interface InspectorSnapshot {
+  takenAt: string;
+  documents: DocumentSnapshot[];
+}
+
+export interface SnapshotChange {
+  /** e.g. `documents["poster.psd"].layers["Title"].opacity` */
+  path: string;
+  kind: 'added' | 'removed' | 'changed';
+  before?: unknown;
+  after?: unknown;
+}
+
+export interface SnapshotDiff {
+  changes: SnapshotChange[];
+  /** Objects and arrays of the newer snapshot that contain a change, to expand in a tree view. */
+  changedNodes: Set<unknown>;
+}
+
+const REPORT_KEY = '__photopeaInspector';
+
+// Every property is read defensively: Photopea throws for some of them on
+// some layer kinds, and one bad read should not lose the whole snapshot.
+export const INSPECT_SCRIPT = `(function () {
+  function read(get) {
+    try {
+      var value = get();
+      return value === undefined ? null : value;
+    } catch (e) {
+      return null;
+    }
+  }
+  function text(get) {
+    var value = read(get);
+    return value === null ? null : String(value);
+  }
+  function inspectLayers(layers) {
+    var result = [];
+    for (var i = 0; i < layers.length; i++) {
+      var layer = layers[i];
+      var info = {
+        name: text(function () { return layer.name; }),
+        type: text(function () { return layer.typename; }),
+        kind: text(function () { return layer.kind; }),
+        visible: read(function () { return !!layer.visible; }),
+        opacity: read(function () { return Number(layer.opacity); }),
+        blendMode: text(function () { return layer.blendMode; }),
+        bounds: read(function () {
+          var b = layer.bounds;
+          return [Number(b[0]), Number(b[1]), Number(b[2]), Number(b[3])];
+        })
+      };
+      if (info.type === 'LayerSet') info.layers = inspectLayers(read(function () { return layer.layers; }) || []);
+      result.push(info);
+    }
+    return result;
+  }
+  var active = read(function () { return app.activeDocument; });
+  var documents = [];
+  for (var i = 0; i < app.documents.length; i++) {
+    var doc = app.documents[i];
+    documents.push({
+      name: text(function () { return doc.name; }),
+      width: read(function () { return Number(doc.width); }),
+      height: read(function () { return Number(doc.height); }),
+      resolution: read(function () { return Number(doc.resolution); }),
+      mode: text(function () { return doc.mode; }),
+      active: doc === active,
+      layers: inspectLayers(read(function () { return doc.layers; }) || [])
+    });
+  }
+  app.echoToOE(JSON.stringify({ ${REPORT_KEY}: documents }));
+})();`;
+
+/** Finds the introspection script's report among a run's outputs. */
+export function parseSnapshot(outputs: unknown[]): InspectorSnapshot | null {
+  for (const output of outputs) {
+    if (typeof output !== 'string' || !output.startsWith(`{"${REPORT_KEY}"`)) continue;
+    try {
+      const documents = JSON.parse(output)[REPORT_KEY];
+      if (Array.isArray(documents)) return { takenAt: new Date().toISOString(), documents };
+    } catch {
+      // Not ours after all
+    }
+  }
+  return null;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// Named items (documents, layers) are matched by name rather than position, so
+// adding a layer on top does not show up as every layer below it changing.
+function keyItems(items: unknown[]): Map<string, unknown> {
+  const keyed = new Map<string, unknown>();
+  const seen = new Map<string, number>();
+  items.forEach((item, i) => {
+    const name = isPlainObject(item) && typeof item.name === 'string' ? item.name : null;
+    if (name === null) {
+      keyed.set(`[${i}]`, item);
+      return;
+    }
+    const count = (seen.get(name) ?? 0) + 1;
+    seen.set(name, count);
+    keyed.set(`[${JSON.stringify(count > 1 ? `${name} #${count}` : name)}]`, item);
+  });
+  return keyed;
+}
+
+function diffValues(before: unknown, after: unknown, path: string, diff: SnapshotDiff): boolean {
+  let entriesBefore: Map<string, unknown>;
+  let entriesAfter: Map<string, unknown>;
+  if (Array.isArray(before) && Array.isArray(after)) {
+    entriesBefore = keyItems(before);
+    entriesAfter = keyItems(after);
+  } else if (isPlainObject(before) && isPlainObject(after)) {
+    entriesBefore = new Map(Object.entries(before).map(([k, v]) => [`.${k}`, v]));
+    entriesAfter = new Map(Object.entries(after).map(([k, v]) => [`.${k}`, v]));
+  } else {
+    if (JSON.stringify(before) === JSON.stringify(after)) return false;
+    diff.changes.push({ path, kind: 'changed', before, after });
+    return true;
+  }
+
+  let changed = false;
+  for (const [key, value] of entriesBefore) {
+    if (!entriesAfter.has(key)) {
+      diff.changes.push({ path: path + key, kind: 'removed', before: value });
+      changed = true;
+    } else if (diffValues(value, entriesAfter.get(key), path + key, diff)) {
+      changed = true;
+    }
+  }
+  for (const [key, value] of entriesAfter) {
+    if (entriesBefore.has(key)) continue;
+    diff.changes.push({ path: path + key, kind: 'added', after: value });
+    if (typeof value === 'object' && value !== null) diff.changedNodes.add(value);
+    changed = true;
+  }
+  if (changed) diff.changedNodes.add(after);
+  return changed;
+}
+
+export function diffSnapshots(before: InspectorSnapshot, after: InspectorSnapshot): SnapshotDiff {
+  const diff: SnapshotDiff = { changes: [], changedNodes: new Set() };
+  diffValues(before.documents, after.documents, 'documents', diff);
+  return diff;
+}
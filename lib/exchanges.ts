@@ -0,0 +1,58 @@
+// Groups a flat message list into sent→received exchanges. Works on both the
+// console's in-memory messages and stored session messages.
+
+export interface ExchangeMessage {
+  id: number;
+  type: 'sent' | 'received';
+  exchangeId?: number;
+  dataType: string;
+}
+
+export interface Exchange<T extends ExchangeMessage> {
+  key: number;
+  sent: T | null;
+  responses: T[];
+}
+
+export type ExchangeStatus = 'pending' | 'done' | 'failed' | 'timeout';
+
+/** Data types of messages recording a failed run: a script error, or no "done" in time. */
+export function isFailureDataType(dataType: string): boolean {
+  return dataType === 'error' || dataType === 'timeout';
+}
+
+// Messages saved before exchange ids existed are attached to the preceding
+// script until its "done" arrives, which is how Photopea orders its replies.
+export function groupExchanges<T extends ExchangeMessage>(messages: T[]): Exchange<T>[] {
+  const exchanges: Exchange<T>[] = [];
+  const byId = new Map<number, Exchange<T>>();
+  let open: Exchange<T> | null = null;
+
+  for (const msg of messages) {
+    if (msg.type === 'sent') {
+      const exchange: Exchange<T> = { key: msg.id, sent: msg, responses: [] };
+      exchanges.push(exchange);
+      if (msg.exchangeId !== undefined) byId.set(msg.exchangeId, exchange);
+      open = exchange;
+      continue;
+    }
+
+    const owner: Exchange<T> | null | undefined =
+      msg.exchangeId !== undefined ? byId.get(msg.exchangeId) : open;
+    if (owner) {
+      owner.responses.push(msg);
+      if (msg.dataType === 'done' && owner === open) open = null;
+    } else {
+      exchanges.push({ key: msg.id, sent: null, responses: [msg] });
+    }
+  }
+
+  return exchanges;
+}
+
+export function getExchangeStatus<T extends ExchangeMessage>(exchange: Exchange<T>): ExchangeStatus {
+  if (exchange.responses.some((r) => r.dataType === 'error')) return 'failed';
+  if (exchange.responses.some((r) => r.dataType === 'timeout')) return 'timeout';
+  if (exchange.responses.some((r) => r.dataType === 'done')) return 'done';
+  return 'pending';
+}
@@ -0,0 +1,202 @@
+// Identifies binary payloads by their magic bytes, so exports are previewed,
+// labelled and downloaded as what they really are rather than assumed PNGs.
+
+export type FileFormatId = 'png' | 'jpg' | 'webp' | 'gif' | 'bmp' | 'tiff' | 'psd' | 'pdf' | 'svg';
+
+export interface FileFormat {
+  id: FileFormatId;
+  label: string;
+  mimeType: string;
+  extension: string;
+  /** Whether browsers can show it in an `<img>`. */
+  image: boolean;
+}
+
+export const FILE_FORMATS: Record<FileFormatId, FileFormat> = {
+  png: { id: 'png', label: 'PNG', mimeType: 'image/png', extension: 'png', image: true },
+  jpg: { id: 'jpg', label: 'JPG', mimeType: 'image/jpeg', extension: 'jpg', image: true },
+  webp: { id: 'webp', label: 'WEBP', mimeType: 'image/webp', extension: 'webp', image: true },
+  gif: { id: 'gif', label: 'GIF', mimeType: 'image/gif', extension: 'gif', image: true },
+  bmp: { id: 'bmp', label: 'BMP', mimeType: 'image/bmp', extension: 'bmp', image: true },
+  tiff: { id: 'tiff', label: 'TIFF', mimeType: 'image/tiff', extension: 'tiff', image: false },
+  psd: { id: 'psd', label: 'PSD', mimeType: 'image/vnd.adobe.photoshop', extension: 'psd', image: false },
+  pdf: { id: 'pdf', label: 'PDF', mimeType: 'application/pdf', extension: 'pdf', image: false },
+  svg: { id: 'svg', label: 'SVG', mimeType: 'image/svg+xml', extension: 'svg', image: true },
+};
+
+/** Bytes needed to recognise any supported format (SVG may start with a long XML prolog). */
+export const SNIFF_LENGTH = 512;
+
+function startsWith(bytes: Uint8Array, signature: number[], offset = 0): boolean {
+  return signature.every((b, i) => bytes[offset + i] === b);
+}
+
+export function sniffFormat(bytes: Uint8Array): FileFormat | null {
+  if (startsWith(bytes, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return FILE_FORMATS.png;
+  if (startsWith(bytes, [0xff, 0xd8, 0xff])) return FILE_FORMATS.jpg;
+  if (startsWith(bytes, [0x52, 0x49, 0x46, 0x46]) && startsWith(bytes, [0x57, 0x45, 0x42, 0x50], 8)) {
+    return FILE_FORMATS.webp;
+  }
+  if (startsWith(bytes, [0x47, 0x49, 0x46, 0x38])) return FILE_FORMATS.gif;
+  if (startsWith(bytes, [0x42, 0x4d])) return FILE_FORMATS.bmp;
+  if (startsWith(bytes, [0x49, 0x49, 0x2a, 0x00]) || startsWith(bytes, [0x4d, 0x4d, 0x00, 0x2a])) {
+    return FILE_FORMATS.tiff;
+  }
+  if (startsWith(bytes, [0x38, 0x42, 0x50, 0x53])) return FILE_FORMATS.psd;
+  if (startsWith(bytes, [0x25, 0x50, 0x44, 0x46])) return FILE_FORMATS.pdf;
+
+  const head = new TextDecoder().decode(bytes.slice(0, SNIFF_LENGTH)).trimStart();
+  if (/^(<\?xml[^>]*>\s*)?(<!--[\s\S]*?-->\s*)*(<!DOCTYPE svg[^>]*>\s*)?<svg[\s>]/i.test(head)) {
+    return FILE_FORMATS.svg;
+  }
+  return null;
+}
+
+/** Sniffs an ArrayBuffer, typed array or Blob; null for other data or unknown formats. */
+export async function sniffData(data: unknown): Promise<FileFormat | null> {
+  if (data instanceof ArrayBuffer) return sniffFormat(new Uint8Array(data, 0, Math.min(data.byteLength, SNIFF_LENGTH)));
+  if (ArrayBuffer.isView(data)) {
+    return sniffFormat(new Uint8Array(data.buffer, data.byteOffset, Math.min(data.byteLength, SNIFF_LENGTH)));
+  }
+  if (data instanceof Blob) {
+    return sniffFormat(new Uint8Array(await data.slice(0, SNIFF_LENGTH).arrayBuffer()));
+  }
+  return null;
+}
+
+export function getFileFormat(id: string | undefined): FileFormat | null {
+  return id && id in FILE_FORMATS ? FILE_FORMATS[id as FileFormatId] : null;
+}
+
+export function formatFromMimeType(mimeType: string): FileFormat | null {
+  return Object.values(FILE_FORMATS).find((f) => f.mimeType === mimeType) ?? null;
+}
+
+export function formatFromExtension(extension: string): FileFormat | null {
+  const ext = extension.toLowerCase().replace(/^\./, '');
+  if (ext === 'jpeg') return FILE_FORMATS.jpg;
+  if (ext === 'tif') return FILE_FORMATS.tiff;
+  return Object.values(FILE_FORMATS).find((f) => f.extension === ext) ?? null;
+}
+
+export interface PsdSummary {
+  version: 1 | 2;
+  width: number;
+  height: number;
+  channels: number;
+  depth: number;
+  colorMode: string;
+  layerCount: number;
+}
+
+const PSD_COLOR_MODES: Record<number, string> = {
+  0: 'Bitmap',
+  1: 'Grayscale',
+  2: 'Indexed',
+  3: 'RGB',
+  4: 'CMYK',
+  7: 'Multichannel',
+  8: 'Duotone',
+  9: 'Lab',
+};
+
+/**
+ * Reads the PSD/PSB file header and the layer count from the layer info
+ * section. Returns null if the data is not a (complete enough) PSD.
+ */
+export function readPsdSummary(buffer: ArrayBuffer): PsdSummary | null {
+  const view = new DataView(buffer);
+  if (buffer.byteLength < 26 || view.getUint32(0) !== 0x38425053) return null;
+
+  const version = view.getUint16(4);
+  if (version !== 1 && version !== 2) return null;
+
+  const summary: PsdSummary = {
+    version,
+    channels: view.getUint16(12),
+    height: view.getUint32(14),
+    width: view.getUint32(18),
+    depth: view.getUint16(22),
+    colorMode: PSD_COLOR_MODES[view.getUint16(24)] ?? `Unknown (${view.getUint16(24)})`,
+    layerCount: 0,
+  };
+
+  try {
+    let offset = 26;
+    offset += 4 + view.getUint32(offset); // colour mode data
+    offset += 4 + view.getUint32(offset); // image resources
+
+    // Layer and mask information; lengths are 8 bytes in PSB (version 2)
+    const readLength = () => {
+      const length = version === 2
+        ? Number(view.getBigUint64(offset))
+        : view.getUint32(offset);
+      offset += version === 2 ? 8 : 4;
+      return length;
+    };
+    const layerAndMaskLength = readLength();
+    if (layerAndMaskLength > 0) {
+      const layerInfoLength = readLength();
+      if (layerInfoLength > 0) {
+        // Negative when the first alpha channel holds merged transparency
+        summary.layerCount = Math.abs(view.getInt16(offset));
+      }
+    }
+  } catch {
+    // Truncated file: keep the header fields
+  }
+
+  return summary;
+}
+
+function readJpegSize(view: DataView): { width: number; height: number } | null {
+  // Walk the segments up to the first start-of-frame marker
+  let offset = 2;
+  while (offset + 9 < view.byteLength) {
+    if (view.getUint8(offset) !== 0xff) return null;
+    const marker = view.getUint8(offset + 1);
+    const isFrame = marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc;
+    if (isFrame) return { width: view.getUint16(offset + 7), height: view.getUint16(offset + 5) };
+    offset += 2 + view.getUint16(offset + 2);
+  }
+  return null;
+}
+
+function readSvgSize(buffer: ArrayBuffer): { width: number; height: number } | null {
+  const text = new TextDecoder().decode(buffer.slice(0, 4096));
+  const tag = /<svg[^>]*>/i.exec(text)?.[0];
+  if (!tag) return null;
+  // Only plain lengths; percentages and other units fall back to the viewBox
+  const attribute = (name: string) =>
+    Number(new RegExp(`\\s${name}\\s*=\\s*["']\\s*([\\d.]+)(?:px)?\\s*["']`, 'i').exec(tag)?.[1] ?? NaN);
+  const viewBox = (/\sviewBox\s*=\s*["']([^"']+)/i.exec(tag)?.[1] ?? '').trim().split(/[\s,]+/).map(Number);
+  const width = attribute('width') || viewBox[2];
+  const height = attribute('height') || viewBox[3];
+  return width > 0 && height > 0 ? { width: Math.round(width), height: Math.round(height) } : null;
+}
+
+/** Pixel size of a PNG, JPEG, GIF, PSD or SVG file; null for other formats or unreadable headers. */
+export function readImageSize(buffer: ArrayBuffer): { width: number; height: number } | null {
+  const view = new DataView(buffer);
+  try {
+    switch (sniffFormat(new Uint8Array(buffer, 0, Math.min(buffer.byteLength, SNIFF_LENGTH)))?.id) {
+      case 'png':
+        return { width: view.getUint32(16), height: view.getUint32(20) };
+      case 'gif':
+        return { width: view.getUint16(6, true), height: view.getUint16(8, true) };
+      case 'jpg':
+        return readJpegSize(view);
+      case 'psd': {
+        const summary = readPsdSummary(buffer);
+        return summary && { width: summary.width, height: summary.height };
+      }
+      case 'svg':
+        return readSvgSize(buffer);
+      default:
+        return null;
+    }
+  } catch {
+    // Truncated header
+    return null;
+  }
+}
@@ -0,0 +1,86 @@
+// Turns whatever Photopea posts back into the display strings stored on a
+// session message. Shared by the console, replays and anything else that
+// records Photopea outputs.
+
+import { formatScriptError, parseScriptError } from './script-errors';
+
+export interface DataDescription {
+  content: string;
+  rawString: string;
+  dataType: string;
+}
+
+function hex(bytes: Uint8Array, limit: number): string {
+  return Array.from(bytes.slice(0, limit))
+    .map((b) => b.toString(16).padStart(2, '0'))
+    .join(' ') + (bytes.length > limit ? '...' : '');
+}
+
+function asBytes(view: ArrayBufferView): Uint8Array {
+  return new Uint8Array(view.buffer, view.byteOffset, view.byteLength);
+}
+
+export function describeRaw(data: unknown): string {
+  try {
+    if (data instanceof ArrayBuffer) {
+      return `[ArrayBuffer(${data.byteLength})] ${hex(new Uint8Array(data), 50)}`;
+    } else if (ArrayBuffer.isView(data)) {
+      return `[${data.constructor.name}(${data.byteLength})] ${hex(asBytes(data), 50)}`;
+    } else if (data instanceof Blob) {
+      return `[Blob(${data.size}, ${data.type || 'unknown'})]`;
+    } else if (typeof data === 'object' && data !== null) {
+      return JSON.stringify(data, null, 2);
+    }
+    return String(data);
+  } catch {
+    return String(data);
+  }
+}
+
+export function describeData(data: unknown): DataDescription {
+  const rawString = describeRaw(data);
+  const scriptError = parseScriptError(data);
+
+  if (data === 'done') {
+    return { content: '✓ done', dataType: 'done', rawString };
+  } else if (scriptError) {
+    return { content: formatScriptError(scriptError), dataType: 'error', rawString };
+  } else if (typeof data === 'string') {
+    return { content: data, dataType: 'string', rawString };
+  } else if (data instanceof ArrayBuffer) {
+    return {
+      content: `ArrayBuffer (${data.byteLength} bytes)\nHex: ${hex(new Uint8Array(data), 20)}`,
+      dataType: 'ArrayBuffer',
+      rawString,
+    };
+  } else if (data instanceof Blob) {
+    return {
+      content: `Blob (${data.size} bytes, type: ${data.type || 'unknown'})`,
+      dataType: 'Blob',
+      rawString,
+    };
+  } else if (ArrayBuffer.isView(data)) {
+    return {
+      content: `${data.constructor.name} (${data.byteLength} bytes)\nHex: ${hex(asBytes(data), 20)}`,
+      dataType: data.constructor.name,
+      rawString,
+    };
+  } else if (typeof data === 'object' && data !== null) {
+    try {
+      return { content: JSON.stringify(data, null, 2), dataType: 'object', rawString };
+    } catch {
+      return { content: String(data), dataType: 'unknown', rawString };
+    }
+  } else if (typeof data === 'number' || typeof data === 'boolean') {
+    return { content: String(data), dataType: typeof data, rawString };
+  }
+  return { content: String(data), dataType: typeof data, rawString };
+}
+
+/** Wraps binary payloads in a Blob for previews and downloads; null for anything else. */
+export function toBlob(data: unknown): Blob | null {
+  if (data instanceof Blob) return data;
+  if (data instanceof ArrayBuffer) return new Blob([data]);
+  if (ArrayBuffer.isView(data)) return new Blob([asBytes(data) as BlobPart]);
+  return null;
+}
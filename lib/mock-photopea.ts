@@ -0,0 +1,291 @@
+import type { PhotopeaConfig } from './photopea-config';
+import { encodePhotopeaSave, type PhotopeaSaveResponse } from './photopea-save';
+import { readImageSize, sniffData } from './file-format';
+
+// In-browser stand-in for the Photopea scripting API, used by the
+// /mock-photopea page. It implements just enough of `app` for the playground's
+// scripts: documents, layers, echoToOE and saveToOE with real (if tiny) files.
+
+export interface MockLayer {
+  name: string;
+  kind: string;
+  typename: 'ArtLayer' | 'LayerSet';
+  visible: boolean;
+  opacity: number;
+  blendMode: string;
+  bounds: [number, number, number, number];
+  layers?: MockLayer[];
+  translate(dx: number, dy: number): void;
+  remove(): void;
+}
+
+export interface MockDocument {
+  name: string;
+  width: number;
+  height: number;
+  resolution: number;
+  mode: string;
+  layers: MockLayer[];
+  activeLayer: MockLayer;
+  artLayers: { add(): MockLayer };
+  saveToOE(format: string): void;
+  close(): void;
+}
+
+export interface MockApp {
+  documents: MockDocument[] & { add(width?: number, height?: number, resolution?: number, name?: string): MockDocument };
+  activeDocument: MockDocument;
+  echoToOE(value: unknown): void;
+  open(url: string, as?: unknown, asSmart?: boolean): MockDocument;
+}
+
+export interface MockPhotopea {
+  app: MockApp;
+  /** Handles one posted message and resolves once all of its outputs have been posted. */
+  handle(data: unknown): Promise<void>;
+  /** File > Save: posts the active document to `config.server`, like Photopea does. */
+  save(): Promise<void>;
+}
+
+export interface MockPhotopeaOptions {
+  post: (data: unknown) => void;
+  onChange?: () => void;
+  onLog?: (line: string) => void;
+}
+
+function createLayer(name: string, bounds: [number, number, number, number], onRemove: (layer: MockLayer) => void): MockLayer {
+  const layer: MockLayer = {
+    name,
+    kind: 'LayerKind.NORMAL',
+    typename: 'ArtLayer',
+    visible: true,
+    opacity: 100,
+    blendMode: 'BlendMode.NORMAL',
+    bounds,
+    translate(dx, dy) {
+      const [x1, y1, x2, y2] = layer.bounds;
+      layer.bounds = [x1 + dx, y1 + dy, x2 + dx, y2 + dy];
+    },
+    remove() {
+      onRemove(layer);
+    },
+  };
+  return layer;
+}
+
+// Minimal single-layer PSD: header, empty colour mode / resources / layer
+// sections, then raw (uncompressed) planar RGB data.
+export function encodePsd(width: number, height: number, rgba: Uint8ClampedArray): ArrayBuffer {
+  const channels = 3;
+  const pixels = width * height;
+  const buffer = new ArrayBuffer(26 + 4 + 4 + 4 + 2 + pixels * channels);
+  const view = new DataView(buffer);
+  const bytes = new Uint8Array(buffer);
+  let offset = 0;
+
+  bytes.set([0x38, 0x42, 0x50, 0x53], 0); // "8BPS"
+  view.setUint16(4, 1);
+  view.setUint16(12, channels);
+  view.setUint32(14, height);
+  view.setUint32(18, width);
+  view.setUint16(22, 8);
+  view.setUint16(24, 3); // RGB
+  offset = 26;
+  view.setUint32(offset, 0); // colour mode data
+  view.setUint32(offset + 4, 0); // image resources
+  view.setUint32(offset + 8, 0); // layer and mask info
+  view.setUint16(offset + 12, 0); // raw image data
+  offset += 14;
+
+  for (let c = 0; c < channels; c++) {
+    for (let i = 0; i < pixels; i++) {
+      bytes[offset++] = rgba[i * 4 + c];
+    }
+  }
+  return buffer;
+}
+
+function colorFor(name: string): string {
+  let hash = 0;
+  for (const ch of name) hash = (hash * 31 + ch.charCodeAt(0)) | 0;
+  return `hsl(${Math.abs(hash) % 360}, 55%, 45%)`;
+}
+
+function renderDocument(doc: MockDocument): HTMLCanvasElement {
+  const canvas = document.createElement('canvas');
+  canvas.width = doc.width;
+  canvas.height = doc.height;
+  const ctx = canvas.getContext('2d')!;
+  ctx.fillStyle = colorFor(doc.name);
+  ctx.fillRect(0, 0, doc.width, doc.height);
+  for (const layer of [...doc.layers].reverse()) {
+    if (!layer.visible) continue;
+    const [x1, y1, x2, y2] = layer.bounds;
+    ctx.globalAlpha = layer.opacity / 100;
+    ctx.fillStyle = colorFor(layer.name);
+    ctx.fillRect(x1, y1, x2 - x1, y2 - y1);
+  }
+  ctx.globalAlpha = 1;
+  ctx.fillStyle = '#fff';
+  ctx.font = `${Math.max(12, Math.round(doc.width / 20))}px sans-serif`;
+  ctx.fillText(`mock: ${doc.name}`, 16, 16 + Math.round(doc.width / 20));
+  return canvas;
+}
+
+async function exportDocument(doc: MockDocument, format: string): Promise<ArrayBuffer> {
+  const type = format.split(':')[0].toLowerCase();
+  const canvas = renderDocument(doc);
+
+  if (type === 'psd') {
+    const { data } = canvas.getContext('2d')!.getImageData(0, 0, doc.width, doc.height);
+    return encodePsd(doc.width, doc.height, data);
+  }
+  if (type === 'svg') {
+    const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${doc.width}" height="${doc.height}">` +
+      `<image href="${canvas.toDataURL('image/png')}" width="${doc.width}" height="${doc.height}"/></svg>`;
+    return new TextEncoder().encode(svg).buffer as ArrayBuffer;
+  }
+  if (type === 'pdf') {
+    return new TextEncoder().encode(`%PDF-1.4\n% mock export of ${doc.name}\n%%EOF\n`).buffer as ArrayBuffer;
+  }
+
+  const mime = type === 'jpg' || type === 'jpeg' ? 'image/jpeg' : type === 'webp' ? 'image/webp' : 'image/png';
+  const quality = Number(format.split(':')[1]);
+  const blob = await new Promise<Blob | null>((resolve) =>
+    canvas.toBlob(resolve, mime, Number.isFinite(quality) ? quality : undefined)
+  );
+  if (!blob) throw new Error(`Mock export to ${type} failed`);
+  return blob.arrayBuffer();
+}
+
+export function createMockPhotopea(config: PhotopeaConfig, options: MockPhotopeaOptions): MockPhotopea {
+  const pending: Promise<void>[] = [];
+  const log = (line: string) => options.onLog?.(line);
+  const changed = () => options.onChange?.();
+
+  const documents = [] as unknown as MockApp['documents'];
+  let active: MockDocument | null = null;
+
+  const addDocument = (width = 800, height = 600, resolution = 72, name = 'Untitled'): MockDocument => {
+    const removeLayer = (layer: MockLayer) => {
+      doc.layers = doc.layers.filter((l) => l !== layer);
+      if (doc.activeLayer === layer && doc.layers.length > 0) doc.activeLayer = doc.layers[0];
+      changed();
+    };
+    const background = createLayer('Background', [0, 0, width, height], removeLayer);
+    const doc: MockDocument = {
+      name,
+      width,
+      height,
+      resolution,
+      mode: 'DocumentMode.RGB',
+      layers: [background],
+      activeLayer: background,
+      artLayers: {
+        add() {
+          const layer = createLayer(`Layer ${doc.layers.length}`, [0, 0, width / 2, height / 2], removeLayer);
+          doc.layers.unshift(layer);
+          doc.activeLayer = layer;
+          changed();
+          return layer;
+        },
+      },
+      saveToOE(format: string) {
+        log(`saveToOE(${format}) on ${doc.name}`);
+        pending.push(
+          exportDocument(doc, format).then(
+            (buffer) => options.post(buffer),
+            (error) => log(`! ${error instanceof Error ? error.message : String(error)}`)
+          )
+        );
+      },
+      close() {
+        const index = documents.indexOf(doc);
+        if (index >= 0) documents.splice(index, 1);
+        if (active === doc) active = documents[documents.length - 1] ?? null;
+        changed();
+      },
+    };
+    documents.push(doc);
+    active = doc;
+    changed();
+    return doc;
+  };
+
+  documents.add = addDocument;
+
+  const app: MockApp = {
+    documents,
+    get activeDocument() {
+      if (!active) throw new Error('No document is open');
+      return active;
+    },
+    set activeDocument(doc: MockDocument) {
+      active = doc;
+      changed();
+    },
+    echoToOE(value: unknown) {
+      log(`echoToOE(${String(value)})`);
+      options.post(String(value));
+    },
+    open(url: string) {
+      const name = decodeURIComponent(url.split('/').pop()?.split('?')[0] || 'image');
+      return addDocument(512, 512, 72, name);
+    },
+  };
+
+  for (const file of config.files ?? []) {
+    app.open(file);
+  }
+
+  const runScript = (script: string) => {
+    log(`> ${script}`);
+    try {
+      new Function('app', script)(app);
+    } catch (error) {
+      log(`! ${error instanceof Error ? error.message : String(error)}`);
+    }
+  };
+
+  if (config.script) runScript(config.script);
+
+  const handle = async (data: unknown) => {
+    if (data instanceof ArrayBuffer) {
+      // Like Photopea, open the file at its own size when the header can be read
+      const format = await sniffData(data);
+      const size = readImageSize(data);
+      log(`opened ${format?.label ?? 'ArrayBuffer'} (${data.byteLength} bytes)`);
+      addDocument(size?.width ?? 512, size?.height ?? 512, 72, `Opened ${documents.length + 1}`);
+    } else if (typeof data === 'string') {
+      runScript(data);
+    }
+
+    const exports = pending.splice(0);
+    await Promise.all(exports);
+    changed();
+  };
+
+  const save = async () => {
+    if (!config.server) return;
+    try {
+      const doc = app.activeDocument;
+      const versions = await Promise.all(
+        config.server.formats.map(async (format) => ({
+          format: format.split(':')[0],
+          data: new Uint8Array(await exportDocument(doc, format)),
+        }))
+      );
+      log(`saving ${doc.name} to ${config.server.url}`);
+      const res = await fetch(config.server.url, {
+        method: 'POST',
+        body: encodePhotopeaSave({ source: doc.name, versions }) as BlobPart,
+      });
+      const reply: PhotopeaSaveResponse = await res.json();
+      log(`${res.ok ? '' : '! '}${reply.message}`);
+    } catch (error) {
+      log(`! ${error instanceof Error ? error.message : String(error)}`);
+    }
+  };
+
+  return { app, handle, save };
+}
@@ -0,0 +1,43 @@
+import { nanoid } from 'nanoid';
+import type { PhotopeaPayload, PhotopeaResult } from './photopea-client';
+import { formatScriptError } from './script-errors';
+
+// Batches, run jobs and visual tests open documents and close them again.
+// Closing the active document until the count is back down would take the
+// user's own documents whenever a script switches tabs, so each opened
+// document is remembered by reference on `app` (which lives as long as
+// Photopea does) and closed through that reference.
+
+export interface OpenedDocuments {
+  /** Opens a URL, or posts file bytes; throws unless a new document came of it. */
+  open(source: string | ArrayBuffer, name: string): Promise<void>;
+  /** Closes every document opened through `open`, whichever is active. Never throws. */
+  closeAll(): Promise<void>;
+}
+
+export function trackOpenedDocuments(run: (payload: PhotopeaPayload) => Promise<PhotopeaResult>): OpenedDocuments {
+  const list = `app[${JSON.stringify(`__ppOpened_${nanoid(8)}`)}]`;
+
+  return {
+    async open(source, name) {
+      const count = await run('app.echoToOE(String(app.documents.length));');
+      const before = Number(count.outputs[0]) || 0;
+
+      const opened = await run(typeof source === 'string' ? `app.open(${JSON.stringify(source)}, null, false);` : source);
+      if (opened.error) throw new Error(`Could not open ${name}: ${formatScriptError(opened.error)}`);
+
+      // Photopea makes the document it opens the active one
+      const recorded = await run(
+        `if (app.documents.length > ${before}) { (${list} = ${list} || []).push(app.activeDocument); app.echoToOE('opened'); }`
+      );
+      if (recorded.outputs[0] !== 'opened') throw new Error(`Could not open ${name}`);
+    },
+
+    async closeAll() {
+      await run(
+        `var __ppOpened = ${list} || []; delete ${list};
+for (var i = __ppOpened.length - 1; i >= 0; i--) { try { __ppOpened[i].close(); } catch (e) {} }`
+      ).catch(() => undefined);
+    },
+  };
+}
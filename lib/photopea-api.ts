@@ -0,0 +1,236 @@
+// Type definitions for the Photopea scripting API (a subset of Photoshop's
+// DOM), used by the script editor for autocompletion. Photopea does not
+// publish a complete list, so this covers the commonly used parts; add
+// members or types here as scripts need them. Member types name another
+// entry of `PHOTOPEA_API_TYPES`; anything else is shown but not followed.
+
+export interface ApiMember {
+  kind: 'property' | 'method';
+  /** Type of the property, or the return type of the method. */
+  type?: string;
+  /** Parameter list of a method, e.g. `(format: string)`. */
+  params?: string;
+  doc?: string;
+}
+
+export interface ApiType {
+  doc?: string;
+  members: Record<string, ApiMember>;
+  /** For collections: the type of `collection[i]`. */
+  elementType?: string;
+}
+
+export interface ApiDefinitions {
+  globals: Record<string, ApiMember>;
+  types: Record<string, ApiType>;
+}
+
+export interface ApiCompletion {
+  label: string;
+  kind: ApiMember['kind'];
+  detail?: string;
+  doc?: string;
+}
+
+const prop = (type: string, doc?: string): ApiMember => ({ kind: 'property', type, doc });
+const method = (params: string, type?: string, doc?: string): ApiMember => ({ kind: 'method', params, type, doc });
+
+export const PHOTOPEA_API_TYPES: Record<string, ApiType> = {
+  Application: {
+    doc: 'The Photopea application, available as `app`.',
+    members: {
+      activeDocument: prop('Document', 'The document in the front tab.'),
+      documents: prop('Documents', 'All open documents.'),
+      foregroundColor: prop('SolidColor'),
+      backgroundColor: prop('SolidColor'),
+      echoToOE: method('(message: string)', undefined, 'Sends a string to the outer page, which receives it as a message.'),
+      open: method('(url: string, as?: null, asSmart?: boolean)', 'Document', 'Opens a file from a URL or data URI; with `asSmart` it is placed into the active document.'),
+      refresh: method('()'),
+    },
+  },
+  Documents: {
+    doc: 'Collection of open documents.',
+    elementType: 'Document',
+    members: {
+      length: prop('number'),
+      add: method('(width?: number, height?: number, resolution?: number, name?: string, mode?: NewDocumentMode, fill?: DocumentFill)', 'Document', 'Creates a new document.'),
+      getByName: method('(name: string)', 'Document'),
+    },
+  },
+  Document: {
+    members: {
+      name: prop('string'),
+      width: prop('number', 'Width in the ruler units (pixels by default).'),
+      height: prop('number', 'Height in the ruler units (pixels by default).'),
+      resolution: prop('number', 'Pixels per inch.'),
+      layers: prop('Layers', 'Top-level layers and groups.'),
+      artLayers: prop('Layers', 'Top-level art layers.'),
+      layerSets: prop('Layers', 'Top-level groups.'),
+      activeLayer: prop('Layer', 'The selected layer.'),
+      selection: prop('Selection'),
+      saveToOE: method('(format: string)', undefined, 'Exports the document ("png", "jpg:0.8", "psd", "webp", ...) and sends the file to the outer page as an ArrayBuffer.'),
+      save: method('()'),
+      close: method('(saveOptions?: SaveOptions)'),
+      duplicate: method('(name?: string, mergeLayersOnly?: boolean)', 'Document'),
+      flatten: method('()'),
+      mergeVisibleLayers: method('()'),
+      resizeImage: method('(width?: number, height?: number, resolution?: number, resampleMethod?: ResampleMethod)'),
+      resizeCanvas: method('(width?: number, height?: number, anchor?: AnchorPosition)'),
+      rotateCanvas: method('(angle: number)'),
+      crop: method('(bounds: number[], angle?: number, width?: number, height?: number)'),
+      trim: method('(type?: TrimType, top?: boolean, left?: boolean, bottom?: boolean, right?: boolean)'),
+      activeHistoryState: prop('HistoryState'),
+    },
+  },
+  Layers: {
+    doc: 'Collection of layers; index with `[i]` or use `getByName`.',
+    elementType: 'Layer',
+    members: {
+      length: prop('number'),
+      add: method('()', 'Layer', 'Adds a new empty layer (or group, on `layerSets`).'),
+      getByName: method('(name: string)', 'Layer'),
+      removeAll: method('()'),
+    },
+  },
+  Layer: {
+    members: {
+      name: prop('string'),
+      visible: prop('boolean'),
+      opacity: prop('number', '0-100.'),
+      fillOpacity: prop('number', '0-100.'),
+      blendMode: prop('BlendMode'),
+      kind: prop('LayerKind'),
+      typename: prop('string', '"ArtLayer" or "LayerSet".'),
+      bounds: prop('number[]', '[left, top, right, bottom].'),
+      parent: prop('Document'),
+      isBackgroundLayer: prop('boolean'),
+      allLocked: prop('boolean'),
+      layers: prop('Layers', 'Child layers of a group.'),
+      textItem: prop('TextItem', 'Text settings of a text layer.'),
+      translate: method('(deltaX?: number, deltaY?: number)'),
+      resize: method('(horizontal?: number, vertical?: number, anchor?: AnchorPosition)', undefined, 'Scales the layer by percentages.'),
+      rotate: method('(angle: number, anchor?: AnchorPosition)'),
+      duplicate: method('(relativeObject?: Layer, insertionLocation?: ElementPlacement)', 'Layer'),
+      move: method('(relativeObject: Layer, insertionLocation: ElementPlacement)'),
+      remove: method('()'),
+      merge: method('()', 'Layer', 'Merges the layer into the one below.'),
+      rasterize: method('(target: RasterizeType)'),
+      invert: method('()'),
+      desaturate: method('()'),
+      applyGaussianBlur: method('(radius: number)'),
+      adjustBrightnessContrast: method('(brightness: number, contrast: number)'),
+    },
+  },
+  TextItem: {
+    members: {
+      contents: prop('string'),
+      size: prop('number'),
+      font: prop('string', 'PostScript name of the font.'),
+      color: prop('SolidColor'),
+      position: prop('number[]'),
+      justification: prop('Justification'),
+    },
+  },
+  Selection: {
+    members: {
+      bounds: prop('number[]'),
+      selectAll: method('()'),
+      deselect: method('()'),
+      invert: method('()'),
+      select: method('(region: number[][], type?: SelectionType, feather?: number, antiAlias?: boolean)'),
+      fill: method('(fillType: SolidColor)'),
+      clear: method('()'),
+      copy: method('(merge?: boolean)'),
+      expand: method('(by: number)'),
+      contract: method('(by: number)'),
+      feather: method('(by: number)'),
+    },
+  },
+  SolidColor: {
+    members: {
+      rgb: prop('RGBColor'),
+    },
+  },
+  RGBColor: {
+    members: {
+      red: prop('number', '0-255.'),
+      green: prop('number', '0-255.'),
+      blue: prop('number', '0-255.'),
+      hexValue: prop('string', 'e.g. "ff0000".'),
+    },
+  },
+  HistoryState: {
+    members: {
+      name: prop('string'),
+    },
+  },
+};
+
+export const PHOTOPEA_API_GLOBALS: Record<string, ApiMember> = {
+  app: prop('Application', 'The Photopea application.'),
+  alert: method('(message: string)'),
+  SolidColor: method('()', 'SolidColor', 'Use with `new`.'),
+  DocumentFill: prop('enum', 'WHITE, BACKGROUNDCOLOR, TRANSPARENT'),
+  NewDocumentMode: prop('enum', 'RGB, GRAYSCALE, CMYK'),
+  ElementPlacement: prop('enum', 'PLACEBEFORE, PLACEAFTER, PLACEATBEGINNING, PLACEATEND, INSIDE'),
+  AnchorPosition: prop('enum', 'TOPLEFT, TOPCENTER, ..., MIDDLECENTER, ..., BOTTOMRIGHT'),
+  BlendMode: prop('enum', 'NORMAL, MULTIPLY, SCREEN, OVERLAY, ...'),
+  LayerKind: prop('enum', 'NORMAL, TEXT, SMARTOBJECT, ...'),
+  ResampleMethod: prop('enum', 'BICUBIC, BILINEAR, NEARESTNEIGHBOR, ...'),
+  SaveOptions: prop('enum', 'DONOTSAVECHANGES, SAVECHANGES, PROMPTTOSAVECHANGES'),
+};
+
+export const PHOTOPEA_API: ApiDefinitions = { globals: PHOTOPEA_API_GLOBALS, types: PHOTOPEA_API_TYPES };
+
+// Matches an access chain ending at the cursor, e.g. `app.activeDocument.layers[0].na`
+const ACCESS_CHAIN_PATTERN = /([A-Za-z_$][\w$]*(?:\s*(?:\.\s*[A-Za-z_$][\w$]*|\[[^\]\n]*\]|\([^()\n]*\)))*)\s*\.\s*([\w$]*)$/;
+
+function memberCompletions(members: Record<string, ApiMember>): ApiCompletion[] {
+  return Object.entries(members).map(([label, member]) => ({
+    label,
+    kind: member.kind,
+    detail: member.kind === 'method' ? `${member.params ?? '()'}${member.type ? `: ${member.type}` : ''}` : member.type,
+    doc: member.doc,
+  }));
+}
+
+/** Type reached by an access chain like `app.activeDocument.layers[0]`, if known. */
+export function resolveAccessChain(chain: string, api: ApiDefinitions = PHOTOPEA_API): ApiType | undefined {
+  const steps = chain.match(/[A-Za-z_$][\w$]*|\[[^\]]*\]|\([^)]*\)/g) ?? [];
+  let type: ApiType | undefined;
+
+  for (const [i, step] of steps.entries()) {
+    if (i === 0) {
+      type = api.types[api.globals[step]?.type ?? ''];
+    } else if (step.startsWith('[')) {
+      type = type?.elementType ? api.types[type.elementType] : undefined;
+    } else if (!step.startsWith('(')) {
+      // A call keeps the method's return type, taken when its name was read
+      const member: ApiMember | undefined = type?.members[step];
+      type = member?.type ? api.types[member.type] : undefined;
+    }
+    if (!type) return undefined;
+  }
+  return type;
+}
+
+/**
+ * Completions for the text before the cursor: members of the object an
+ * access chain resolves to, or the globals while typing a bare name.
+ * `from` is the offset in `textBefore` where the completed word starts.
+ */
+export function completeApi(
+  textBefore: string,
+  api: ApiDefinitions = PHOTOPEA_API
+): { from: number; options: ApiCompletion[] } | null {
+  const chain = ACCESS_CHAIN_PATTERN.exec(textBefore);
+  if (chain) {
+    const type = resolveAccessChain(chain[1], api);
+    if (!type) return null;
+    return { from: textBefore.length - chain[2].length, options: memberCompletions(type.members) };
+  }
+
+  const word = /[A-Za-z_$][\w$]*$/.exec(textBefore);
+  if (!word) return null;
+  return { from: word.index, options: memberCompletions(api.globals) };
+}
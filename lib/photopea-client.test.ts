@@ -0,0 +1,174 @@
+import assert from 'node:assert/strict';
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import {
+  PhotopeaClient,
+  PhotopeaError,
+  PhotopeaTimeoutError,
+  STRAY_OUTPUT_GRACE_MS,
+  type PhotopeaClientOptions,
+} from './photopea-client';
+import { encodeScriptError } from './script-errors';
+
+// A stand-in for the iframe: records what is posted to it, and delivers
+// messages to the client the way `window` would.
+function setup(options: Partial<PhotopeaClientOptions> = {}) {
+  const sent: unknown[] = [];
+  const target = { postMessage: (payload: unknown) => sent.push(payload) } as unknown as Window;
+  let listener: ((e: MessageEvent) => void) | null = null;
+  Object.assign(globalThis, {
+    window: {
+      addEventListener: (_: string, fn: (e: MessageEvent) => void) => (listener = fn),
+      removeEventListener: () => (listener = null),
+    },
+  });
+
+  const received: Array<[unknown, number | null]> = [];
+  const client = new PhotopeaClient({
+    getTarget: () => target,
+    onMessage: (data, exchangeId) => received.push([data, exchangeId]),
+    ...options,
+  });
+  const detach = client.attach();
+  const receive = (data: unknown, origin = 'https://www.photopea.com', source: unknown = target) =>
+    listener?.({ data, origin, source } as MessageEvent);
+  return { client, sent, received, receive, detach };
+}
+
+describe('PhotopeaClient', () => {
+  afterEach(() => {
+    mock.timers.reset();
+    delete (globalThis as { window?: unknown }).window;
+  });
+
+  it('pairs outputs with the run in flight up to "done"', async () => {
+    const { client, sent, receive } = setup();
+    const result = client.run('app.echoToOE("a")');
+    assert.deepEqual(sent, ['app.echoToOE("a")']);
+
+    const bytes = new Uint8Array([1, 2, 3]);
+    receive('a');
+    receive(bytes);
+    receive('done');
+    const { outputs } = await result;
+    assert.equal(outputs[0], 'a');
+    assert.deepEqual(new Uint8Array(outputs[1] as ArrayBuffer), bytes);
+  });
+
+  it('sends queued runs one at a time', async () => {
+    const { client, sent, receive } = setup();
+    const first = client.run('one');
+    const second = client.run('two');
+    assert.deepEqual(sent, ['one']);
+    assert.equal(client.busy, true);
+
+    receive('1');
+    receive('done');
+    assert.deepEqual(sent, ['one', 'two']);
+    receive('2');
+    receive('done');
+
+    assert.deepEqual((await first).outputs, ['1']);
+    assert.deepEqual((await second).outputs, ['2']);
+    assert.equal(client.busy, false);
+  });
+
+  it('ignores messages from other origins and windows', async () => {
+    const { client, receive } = setup();
+    const result = client.run('script');
+    receive('spoofed', 'https://example.com');
+    receive('other frame', 'https://www.photopea.com', {});
+    receive('done', 'https://example.com');
+    receive('done');
+    assert.deepEqual((await result).outputs, []);
+  });
+
+  it('reports messages to onMessage with their exchange unless silent', async () => {
+    const { client, received, receive } = setup();
+    const loud = client.run('loud', { exchangeId: 7 });
+    receive('x');
+    receive('done');
+    await loud;
+    const quiet = client.run('quiet', { exchangeId: 8, silent: true });
+    receive('y');
+    receive('done');
+    await quiet;
+    receive('unsolicited');
+    assert.deepEqual(received, [['x', 7], ['done', 7], ['unsolicited', null]]);
+  });
+
+  it('returns what a script threw as the error with catchErrors', async () => {
+    const { client, sent, receive } = setup();
+    const result = client.run('throw new Error("boom")', { catchErrors: true });
+    const scriptId = /scriptId: "([^"]+)"/.exec(sent[0] as string)?.[1];
+    assert.ok(scriptId);
+
+    receive('echoed');
+    receive(encodeScriptError({ scriptId: 'someone-else', name: 'Error', message: 'not ours' }));
+    receive(encodeScriptError({ scriptId, name: 'Error', message: 'boom', line: 1 }));
+    receive('done');
+    const { outputs, error } = await result;
+    assert.equal(outputs.length, 2);
+    assert.equal(outputs[0], 'echoed');
+    assert.deepEqual(error, { scriptId, name: 'Error', message: 'boom', line: 1 });
+  });
+
+  it('rejects when the iframe is not available', async () => {
+    const { client } = setup({ getTarget: () => null });
+    await assert.rejects(client.run('script'), PhotopeaError);
+  });
+
+  it('rejects the in-flight and queued runs on cancelAll', async () => {
+    const { client } = setup();
+    const first = client.run('one');
+    const second = client.run('two');
+    client.cancelAll('reloaded');
+    await assert.rejects(first, /reloaded/);
+    await assert.rejects(second, /reloaded/);
+    assert.equal(client.busy, false);
+  });
+
+  it('resolves waitForReady on an unsolicited "done"', async () => {
+    const { client, receive } = setup();
+    const ready = client.waitForReady();
+    receive('done');
+    await ready;
+  });
+
+  describe('timeouts', () => {
+    beforeEach(() => mock.timers.enable({ apis: ['setTimeout'] }));
+
+    it('rejects a run without "done" and holds the queue until its late "done"', async () => {
+      const { client, sent, received, receive } = setup();
+      const slow = client.run('slow', { timeoutMs: 100, exchangeId: 1 });
+      const next = client.run('next', { exchangeId: 2 });
+
+      mock.timers.tick(100);
+      await assert.rejects(slow, PhotopeaTimeoutError);
+      assert.deepEqual(sent, ['slow']);
+
+      // The late output goes to the timed-out exchange, not to the next run
+      receive('late');
+      receive('done');
+      assert.deepEqual(sent, ['slow', 'next']);
+      receive('done');
+      assert.deepEqual((await next).outputs, []);
+      assert.deepEqual(received.slice(0, 2), [['late', 1], ['done', 1]]);
+    });
+
+    it('moves on after the grace period when the late "done" never comes', async () => {
+      const { client, sent, receive } = setup();
+      const slow = client.run('slow', { timeoutMs: 100 });
+      const next = client.run('next');
+
+      mock.timers.tick(100);
+      await assert.rejects(slow, PhotopeaTimeoutError);
+      mock.timers.tick(STRAY_OUTPUT_GRACE_MS - 1);
+      assert.deepEqual(sent, ['slow']);
+      mock.timers.tick(1);
+      assert.deepEqual(sent, ['slow', 'next']);
+
+      receive('done');
+      await next;
+    });
+  });
+});
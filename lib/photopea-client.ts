@@ -0,0 +1,252 @@
+// Photopea answers every posted script with zero or more outputs (strings from
+// echoToOE, ArrayBuffers from saveToOE) followed by a literal "done". Posting an
+// ArrayBuffer opens it as a document and is answered the same way. Messages
+// carry no request id, so payloads are sent one at a time and every output
+// received while one is in flight is attributed to it. That includes the late
+// outputs of a run that timed out, so the next run only starts once the stray
+// "done" has come in (or a grace period has passed).
+
+import { parseScriptError, wrapScript, type ScriptErrorReport } from './script-errors';
+
+export type PhotopeaOutput = string | ArrayBuffer;
+
+/** A script to run, or file contents to open as a new document. */
+export type PhotopeaPayload = string | ArrayBuffer;
+
+export interface PhotopeaResult {
+  script: PhotopeaPayload;
+  outputs: PhotopeaOutput[];
+  durationMs: number;
+  /** What the script threw, for runs with `catchErrors`. The report is not among `outputs`. */
+  error?: ScriptErrorReport;
+}
+
+export interface RunOptions {
+  timeoutMs?: number;
+  /** Caller-supplied id passed back through `onMessage` for this run's outputs. */
+  exchangeId?: number;
+  /** Keep this run's messages out of `onMessage`; they are only returned in the result. */
+  silent?: boolean;
+  /** Wrap a script so an exception comes back as `result.error` (see `lib/script-errors.ts`). */
+  catchErrors?: boolean;
+}
+
+export interface PhotopeaClientOptions {
+  getTarget: () => Window | null | undefined;
+  /** Substrings matched against `MessageEvent.origin`. */
+  allowedOrigins?: string[];
+  timeoutMs?: number;
+  /** Called for every accepted message, with the exchange it belongs to (or null if unsolicited). */
+  onMessage?: (data: unknown, exchangeId: number | null) => void;
+}
+
+export class PhotopeaError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PhotopeaError';
+  }
+}
+
+export class PhotopeaTimeoutError extends PhotopeaError {
+  constructor(public readonly timeoutMs: number) {
+    super(`No "done" received from Photopea within ${timeoutMs}ms`);
+    this.name = 'PhotopeaTimeoutError';
+  }
+}
+
+export const DEFAULT_ALLOWED_ORIGINS = ['photopea.com'];
+export const DEFAULT_TIMEOUT_MS = 30000;
+/** How long a timed-out run's late outputs are waited for before the queue moves on. */
+export const STRAY_OUTPUT_GRACE_MS = 5000;
+
+interface PendingRun {
+  script: PhotopeaPayload;
+  /** Set when the script was wrapped to report exceptions. */
+  scriptId?: string;
+  error?: ScriptErrorReport;
+  exchangeId: number | null;
+  silent: boolean;
+  timeoutMs: number;
+  outputs: PhotopeaOutput[];
+  startedAt: number;
+  timer?: ReturnType<typeof setTimeout>;
+  resolve: (result: PhotopeaResult) => void;
+  reject: (error: Error) => void;
+}
+
+function toOutput(data: unknown): PhotopeaOutput {
+  if (typeof data === 'string' || data instanceof ArrayBuffer) return data;
+  if (ArrayBuffer.isView(data)) {
+    const bytes = new Uint8Array(data.buffer, data.byteOffset, data.byteLength);
+    return bytes.slice().buffer;
+  }
+  return String(data);
+}
+
+let nextScriptId = 0;
+
+export class PhotopeaClient {
+  private queue: PendingRun[] = [];
+  private current: PendingRun | null = null;
+  /** A run that timed out; its late messages are dropped until its "done" arrives. */
+  private stale: { run: PendingRun; timer: ReturnType<typeof setTimeout> } | null = null;
+  private readyWaiters: Array<() => void> = [];
+  private options: PhotopeaClientOptions;
+
+  constructor(options: PhotopeaClientOptions) {
+    this.options = options;
+  }
+
+  attach(): () => void {
+    window.addEventListener('message', this.handleMessage);
+    return () => window.removeEventListener('message', this.handleMessage);
+  }
+
+  setAllowedOrigins(origins: string[]) {
+    this.options = { ...this.options, allowedOrigins: origins };
+  }
+
+  get busy(): boolean {
+    return this.current !== null || this.stale !== null || this.queue.length > 0;
+  }
+
+  /**
+   * Queues a payload and resolves with its outputs once Photopea answers
+   * "done". A run that gets no "done" within its timeout rejects with
+   * PhotopeaTimeoutError; the runs queued behind it wait until its late
+   * outputs and "done" have been dropped, or for STRAY_OUTPUT_GRACE_MS, so
+   * they are not credited with them.
+   */
+  run(script: PhotopeaPayload, options: RunOptions = {}): Promise<PhotopeaResult> {
+    return new Promise((resolve, reject) => {
+      const scriptId = options.catchErrors && typeof script === 'string' ? `run-${++nextScriptId}` : undefined;
+      this.queue.push({
+        script,
+        scriptId,
+        exchangeId: options.exchangeId ?? null,
+        silent: options.silent ?? false,
+        timeoutMs: options.timeoutMs ?? this.options.timeoutMs ?? DEFAULT_TIMEOUT_MS,
+        outputs: [],
+        startedAt: 0,
+        resolve,
+        reject,
+      });
+      this.next();
+    });
+  }
+
+  /**
+   * Resolves on the next unsolicited "done", which Photopea posts once it has
+   * finished loading. Call before changing the iframe src.
+   */
+  waitForReady(timeoutMs = this.options.timeoutMs ?? DEFAULT_TIMEOUT_MS): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const waiter = () => {
+        clearTimeout(timer);
+        resolve();
+      };
+      const timer = setTimeout(() => {
+        this.readyWaiters = this.readyWaiters.filter((w) => w !== waiter);
+        reject(new PhotopeaTimeoutError(timeoutMs));
+      }, timeoutMs);
+      this.readyWaiters.push(waiter);
+    });
+  }
+
+  /** Rejects the in-flight run and everything queued behind it, e.g. when the iframe reloads. */
+  cancelAll(reason = 'Photopea client reset') {
+    const pending = this.current ? [this.current, ...this.queue] : this.queue;
+    this.current = null;
+    this.endStale();
+    this.queue = [];
+    for (const run of pending) {
+      clearTimeout(run.timer);
+      run.reject(new PhotopeaError(reason));
+    }
+  }
+
+  private endStale() {
+    if (!this.stale) return;
+    clearTimeout(this.stale.timer);
+    this.stale = null;
+  }
+
+  private next() {
+    if (this.current || this.stale || this.queue.length === 0) return;
+
+    const run = this.queue.shift()!;
+    const target = this.options.getTarget();
+    if (!target) {
+      run.reject(new PhotopeaError('Photopea iframe is not available'));
+      this.next();
+      return;
+    }
+
+    this.current = run;
+    run.startedAt = Date.now();
+    run.timer = setTimeout(() => {
+      if (this.current !== run) return;
+      this.current = null;
+      run.reject(new PhotopeaTimeoutError(run.timeoutMs));
+      // Photopea may still be running the script: hold the queue until its
+      // "done" so the next run is not answered with this one's outputs
+      this.stale = {
+        run,
+        timer: setTimeout(() => {
+          this.stale = null;
+          this.next();
+        }, STRAY_OUTPUT_GRACE_MS),
+      };
+    }, run.timeoutMs);
+
+    const payload = run.scriptId !== undefined && typeof run.script === 'string'
+      ? wrapScript(run.script, run.scriptId)
+      : run.script;
+    target.postMessage(payload, '*');
+  }
+
+  private handleMessage = (e: MessageEvent) => {
+    const allowed = this.options.allowedOrigins ?? DEFAULT_ALLOWED_ORIGINS;
+    if (!allowed.some((origin) => e.origin.includes(origin))) return;
+
+    const target = this.options.getTarget();
+    if (target && e.source && e.source !== target) return;
+
+    if (!this.current && this.stale) {
+      const stale = this.stale.run;
+      if (!stale.silent) this.options.onMessage?.(e.data, stale.exchangeId);
+      if (e.data === 'done') {
+        this.endStale();
+        this.next();
+      }
+      return;
+    }
+
+    const run = this.current;
+    if (!run?.silent) this.options.onMessage?.(e.data, run ? run.exchangeId : null);
+    if (!run) {
+      if (e.data === 'done') {
+        const waiters = this.readyWaiters;
+        this.readyWaiters = [];
+        waiters.forEach((resolve) => resolve());
+      }
+      return;
+    }
+
+    if (e.data === 'done') {
+      clearTimeout(run.timer);
+      this.current = null;
+      run.resolve({
+        script: run.script,
+        outputs: run.outputs,
+        durationMs: Date.now() - run.startedAt,
+        error: run.error,
+      });
+      this.next();
+    } else {
+      const report = run.scriptId !== undefined ? parseScriptError(e.data) : null;
+      if (report && report.scriptId === run.scriptId) run.error = report;
+      else run.outputs.push(toOutput(e.data));
+    }
+  };
+}
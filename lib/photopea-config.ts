@@ -0,0 +1,160 @@
+// The JSON object Photopea reads from the `#` part of its URL. See
+// https://www.photopea.com/api/ for the meaning of each field.
+
+export interface PhotopeaPlugin {
+  name: string;
+  url: string;
+  icon?: string;
+}
+
+export interface PhotopeaEnvironment {
+  theme?: number;
+  lang?: string;
+  /** View mode: 0 normal, 1 no side panels, 2 no panels or tools. */
+  vmode?: number;
+  intro?: boolean;
+  localsave?: boolean;
+  /** Autosave interval in seconds. */
+  autosave?: number;
+  /** Indices of the tools to show. */
+  showtools?: number[];
+  /** Visibility flags for the main menu and its items (nested arrays of 0/1). */
+  menus?: unknown[];
+  /** Indices of the panels to show. */
+  panels?: number[];
+  plugins?: PhotopeaPlugin[];
+  /** Scripts run instead of Photopea's own File actions, e.g. `{ save: "app.echoToOE('saving')" }`. */
+  customIO?: Record<string, string>;
+}
+
+export interface PhotopeaServer {
+  version: 1;
+  url: string;
+  /** Formats posted on save, e.g. "psd:true", "png", "jpg:0.5". */
+  formats: string[];
+}
+
+export interface PhotopeaConfig {
+  files?: string[];
+  /** Fonts, brushes, gradients, patterns etc. loaded on startup. */
+  resources?: string[];
+  server?: PhotopeaServer;
+  environment?: PhotopeaEnvironment;
+  /** Script run once the files are open. */
+  script?: string;
+}
+
+export interface ConfigError {
+  field: string;
+  message: string;
+}
+
+function isUrl(value: string): boolean {
+  if (value.startsWith('/')) return true;
+  try {
+    const url = new URL(value);
+    return url.protocol === 'http:' || url.protocol === 'https:' || url.protocol === 'data:';
+  } catch {
+    return false;
+  }
+}
+
+function isEmpty(value: unknown): boolean {
+  if (value === undefined || value === null || value === '') return true;
+  if (Array.isArray(value)) return value.length === 0;
+  if (typeof value === 'object') return Object.keys(value).length === 0;
+  return false;
+}
+
+/** Drops empty fields so the encoded URL only carries what was actually set. */
+export function compactConfig(config: PhotopeaConfig): PhotopeaConfig {
+  const environment = Object.fromEntries(
+    Object.entries(config.environment ?? {}).filter(([, value]) => !isEmpty(value))
+  ) as PhotopeaEnvironment;
+
+  const compact: PhotopeaConfig = {};
+  if (!isEmpty(config.files)) compact.files = config.files;
+  if (!isEmpty(config.resources)) compact.resources = config.resources;
+  if (config.server && !isEmpty(config.server.url)) compact.server = config.server;
+  if (!isEmpty(environment)) compact.environment = environment;
+  if (config.script?.trim()) compact.script = config.script;
+  return compact;
+}
+
+export function validatePhotopeaConfig(config: PhotopeaConfig): ConfigError[] {
+  const errors: ConfigError[] = [];
+  const env = config.environment ?? {};
+
+  config.files?.forEach((file, i) => {
+    if (!isUrl(file)) errors.push({ field: `files[${i}]`, message: `"${file}" is not a URL` });
+  });
+  config.resources?.forEach((resource, i) => {
+    if (!isUrl(resource)) errors.push({ field: `resources[${i}]`, message: `"${resource}" is not a URL` });
+  });
+
+  if (config.server) {
+    if (!isUrl(config.server.url)) {
+      errors.push({ field: 'server.url', message: 'Server URL must be an http(s) URL or an absolute path' });
+    }
+    if (config.server.formats.length === 0) {
+      errors.push({ field: 'server.formats', message: 'At least one save format is required' });
+    }
+  }
+
+  if (env.theme !== undefined && (!Number.isInteger(env.theme) || env.theme < 0)) {
+    errors.push({ field: 'environment.theme', message: 'Theme must be a non-negative integer' });
+  }
+  if (env.vmode !== undefined && ![0, 1, 2].includes(env.vmode)) {
+    errors.push({ field: 'environment.vmode', message: 'View mode must be 0, 1 or 2' });
+  }
+  if (env.lang !== undefined && env.lang !== '' && !/^[a-z]{2}(-[a-z]{2})?$/i.test(env.lang)) {
+    errors.push({ field: 'environment.lang', message: 'Language must be a code like "en" or "pt-br"' });
+  }
+  if (env.autosave !== undefined && (!Number.isFinite(env.autosave) || env.autosave < 0)) {
+    errors.push({ field: 'environment.autosave', message: 'Autosave must be a number of seconds' });
+  }
+  for (const key of ['showtools', 'panels'] as const) {
+    if (env[key]?.some((n) => !Number.isInteger(n) || n < 0)) {
+      errors.push({ field: `environment.${key}`, message: 'Must be a list of non-negative integers' });
+    }
+  }
+  env.plugins?.forEach((plugin, i) => {
+    if (!plugin.name?.trim()) errors.push({ field: `environment.plugins[${i}].name`, message: 'Plugin name is required' });
+    if (!isUrl(plugin.url ?? '')) errors.push({ field: `environment.plugins[${i}].url`, message: 'Plugin URL is invalid' });
+  });
+
+  return errors;
+}
+
+export function encodePhotopeaConfig(config: PhotopeaConfig): string {
+  const compact = compactConfig(config);
+  return isEmpty(compact) ? '' : encodeURIComponent(JSON.stringify(compact));
+}
+
+export function buildPhotopeaSrc(baseUrl: string, config: PhotopeaConfig): string {
+  const encoded = encodePhotopeaConfig(config);
+  return encoded ? `${baseUrl}#${encoded}` : baseUrl;
+}
+
+/** A session's Photopea config, falling back to what older sessions stored. */
+export function configFromSessionMetadata(metadata?: {
+  imageUrls?: string[];
+  photopeaSrc?: string;
+  config?: PhotopeaConfig;
+}): PhotopeaConfig {
+  if (metadata?.config) return metadata.config;
+  const decoded = metadata?.photopeaSrc ? decodePhotopeaConfig(metadata.photopeaSrc) : {};
+  return { ...decoded, files: decoded.files ?? metadata?.imageUrls };
+}
+
+/** Reads the config back out of a `photopeaSrc` URL; empty if it has none. */
+export function decodePhotopeaConfig(src: string): PhotopeaConfig {
+  const hash = src.split('#').slice(1).join('#');
+  if (!hash) return {};
+  try {
+    const parsed = JSON.parse(decodeURIComponent(hash));
+    return typeof parsed === 'object' && parsed !== null ? parsed : {};
+  } catch {
+    return {};
+  }
+}
@@ -0,0 +1,117 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import {
+  encodePhotopeaSave,
+  parsePhotopeaSave,
+  PHOTOPEA_SAVE_HEADER_LENGTH,
+  PhotopeaSaveError,
+  photopeaSaveUrl,
+} from './photopea-save';
+
+const bytes = (text: string) => new TextEncoder().encode(text);
+const text = (data: Uint8Array) => new TextDecoder().decode(data);
+
+const post = (body: string | Uint8Array, contentType?: string) =>
+  new Request('http://localhost/api/photopea/save/s', {
+    method: 'POST',
+    body: typeof body === 'string' ? body : new Uint8Array(body),
+    headers: contentType ? { 'Content-Type': contentType } : {},
+  });
+
+// A body in Photopea's layout with a hand-written header
+function binary(header: unknown, data = bytes('file bytes')): Uint8Array {
+  const body = new Uint8Array(PHOTOPEA_SAVE_HEADER_LENGTH + data.byteLength).fill(0x20, 0, PHOTOPEA_SAVE_HEADER_LENGTH);
+  body.set(bytes(JSON.stringify(header)));
+  body.set(data, PHOTOPEA_SAVE_HEADER_LENGTH);
+  return body;
+}
+
+describe('photopeaSaveUrl', () => {
+  it('points at the save route of the session', () => {
+    assert.equal(photopeaSaveUrl('http://localhost:3000', 'a b'), 'http://localhost:3000/api/photopea/save/a%20b');
+  });
+});
+
+describe('parsePhotopeaSave', () => {
+  it('reads every version of a body in Photopea’s layout', async () => {
+    const body = encodePhotopeaSave({
+      source: 'https://example.com/a.psd',
+      versions: [
+        { format: 'psd', data: bytes('psd data') },
+        { format: 'jpg', data: bytes('jpg') },
+      ],
+    });
+    const payload = await parsePhotopeaSave(post(body));
+    assert.equal(payload.source, 'https://example.com/a.psd');
+    assert.deepEqual(payload.versions.map((v) => [v.format, text(v.data)]), [['psd', 'psd data'], ['jpg', 'jpg']]);
+  });
+
+  it('rejects malformed binary headers and versions', async () => {
+    const cases: Array<[Uint8Array, RegExp]> = [
+      [bytes('short'), /shorter than its header/],
+      [new Uint8Array(PHOTOPEA_SAVE_HEADER_LENGTH).fill(0x7b), /not valid JSON/],
+      [binary({ source: 'a.psd' }), /Save header has no versions/],
+      [binary({ versions: [{ format: 'psd', start: 2000 }] }), /positive size/],
+      [binary({ versions: [{ format: 'psd', start: 2000, size: 0 }] }), /positive size/],
+      [binary({ versions: [{ format: 'psd', start: 2000, size: -5 }] }), /positive size/],
+      [binary({ versions: [{ format: 'psd', start: 2000, size: 1.5 }] }), /positive size/],
+      [binary({ versions: [{ format: 'psd', start: 0, size: 4 }] }), /outside the payload/],
+      [binary({ versions: [{ format: 'psd', start: 2000, size: 1000 }] }), /outside the payload/],
+      [binary({ versions: [] }), /contains no files/],
+    ];
+    for (const [body, message] of cases) {
+      await assert.rejects(parsePhotopeaSave(post(body)), (error: unknown) => {
+        assert.ok(error instanceof PhotopeaSaveError);
+        assert.match(error.message, message);
+        return true;
+      });
+    }
+  });
+
+  it('reads JSON with base64 data', async () => {
+    const body = JSON.stringify({ source: 'a.png', versions: [{ format: 'png', data: btoa('png data') }] });
+    const payload = await parsePhotopeaSave(post(body, 'application/json'));
+    assert.equal(payload.source, 'a.png');
+    assert.equal(text(payload.versions[0].data), 'png data');
+  });
+
+  it('rejects JSON without usable versions', async () => {
+    const cases: Array<[string, RegExp]> = [
+      ['not json', /not valid JSON/],
+      ['{}', /has no versions/],
+      ['{"versions":[{"format":"png"}]}', /needs a format and base64 data/],
+      ['{"versions":[{"format":"png","data":"%%%"}]}', /not valid base64/],
+      ['{"versions":[{"format":"png","data":""}]}', /is empty/],
+    ];
+    for (const [body, message] of cases) {
+      await assert.rejects(parsePhotopeaSave(post(body, 'application/json')), message);
+    }
+  });
+
+  it('reads one version per file of a multipart form', async () => {
+    const form = new FormData();
+    form.set('source', 'a.psd');
+    form.set('file', new Blob([bytes('psd data')]), 'a.psd');
+    form.set('png', new Blob([bytes('png data')]), 'export');
+    const request = new Request('http://localhost/', { method: 'POST', body: form });
+
+    const payload = await parsePhotopeaSave(request);
+    assert.equal(payload.source, 'a.psd');
+    assert.deepEqual(payload.versions.map((v) => [v.format, text(v.data)]), [['psd', 'psd data'], ['png', 'png data']]);
+  });
+
+  it('rejects a form without files', async () => {
+    const form = new FormData();
+    form.set('source', 'a.psd');
+    await assert.rejects(parsePhotopeaSave(new Request('http://localhost/', { method: 'POST', body: form })), /no files/);
+  });
+});
+
+describe('encodePhotopeaSave', () => {
+  it('refuses a header that does not fit', () => {
+    assert.throws(
+      () => encodePhotopeaSave({ source: 'x'.repeat(PHOTOPEA_SAVE_HEADER_LENGTH), versions: [] }),
+      PhotopeaSaveError
+    );
+  });
+});
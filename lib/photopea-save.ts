@@ -0,0 +1,181 @@
+// Photopea's "server" save protocol: with `server` set in the hash config,
+// File > Save POSTs the document to `server.url`. The body starts with a
+// 2000-byte JSON header (padded with spaces) describing each exported
+// version, followed by the files themselves:
+//
+//   {"source": "...", "versions": [{"format": "psd", "start": 2000, "size": 1234}, ...]}
+//
+// Photopea expects a JSON reply, `{"message": "...", "newSource": "..."}`,
+// and shows the message to the user.
+
+import { readBody } from './request-body';
+import { MAX_ARTIFACT_BYTES } from './session-schema';
+
+export const PHOTOPEA_SAVE_HEADER_LENGTH = 2000;
+
+/** Prefix of artifacts stored from a save, so the console can tell them from its own uploads. */
+export const SAVE_ARTIFACT_PREFIX = 'save-';
+
+export interface PhotopeaSaveVersion {
+  /** Format as listed in `server.formats`, e.g. "psd" or "jpg". */
+  format: string;
+  data: Uint8Array;
+}
+
+export interface PhotopeaSavePayload {
+  /** The file's original source (usually the URL it was opened from). */
+  source?: string;
+  versions: PhotopeaSaveVersion[];
+}
+
+export interface PhotopeaSaveResponse {
+  message: string;
+  newSource?: string;
+}
+
+/** Largest save body accepted, all versions together. */
+export const MAX_PHOTOPEA_SAVE_BYTES = MAX_ARTIFACT_BYTES;
+
+export class PhotopeaSaveError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PhotopeaSaveError';
+  }
+}
+
+/** The save URL that stores Photopea saves into the given session. */
+export function photopeaSaveUrl(origin: string, sessionId: string): string {
+  return `${origin}/api/photopea/save/${encodeURIComponent(sessionId)}`;
+}
+
+function parseBinary(body: Uint8Array): PhotopeaSavePayload {
+  if (body.byteLength < PHOTOPEA_SAVE_HEADER_LENGTH) {
+    throw new PhotopeaSaveError('Save payload is shorter than its header');
+  }
+
+  let header: { source?: string; versions?: ({ format?: string; start?: number; size?: number } | null)[] } | null;
+  try {
+    header = JSON.parse(new TextDecoder().decode(body.subarray(0, PHOTOPEA_SAVE_HEADER_LENGTH)).trim());
+  } catch {
+    throw new PhotopeaSaveError('Save header is not valid JSON');
+  }
+  if (!Array.isArray(header?.versions)) {
+    throw new PhotopeaSaveError('Save header has no versions');
+  }
+
+  const versions = header.versions.map((version, i) => {
+    const { format, start, size } = isObject(version) ? version : {};
+    if (typeof format !== 'string' || !Number.isInteger(start) || !Number.isInteger(size) || (size as number) <= 0) {
+      throw new PhotopeaSaveError(`Version ${i} needs a format, start and a positive size`);
+    }
+    if (start! < PHOTOPEA_SAVE_HEADER_LENGTH || start! + size! > body.byteLength) {
+      throw new PhotopeaSaveError(`Version ${i} (${format}) lies outside the payload`);
+    }
+    return { format, data: body.slice(start!, start! + size!) };
+  });
+
+  return { source: typeof header.source === 'string' ? header.source : undefined, versions };
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function parseJson(body: unknown): PhotopeaSavePayload {
+  const { source, versions } = isObject(body) ? body : {};
+  if (!Array.isArray(versions)) {
+    throw new PhotopeaSaveError('Save payload has no versions');
+  }
+
+  return {
+    source: typeof source === 'string' ? source : undefined,
+    versions: versions.map((version: unknown, i) => {
+      if (!isObject(version) || typeof version.format !== 'string' || typeof version.data !== 'string') {
+        throw new PhotopeaSaveError(`Version ${i} needs a format and base64 data`);
+      }
+      let data: Uint8Array;
+      try {
+        data = Uint8Array.from(atob(version.data), (c) => c.charCodeAt(0));
+      } catch {
+        throw new PhotopeaSaveError(`Version ${i} (${version.format}) is not valid base64`);
+      }
+      if (data.byteLength === 0) throw new PhotopeaSaveError(`Version ${i} (${version.format}) is empty`);
+      return { format: version.format, data };
+    }),
+  };
+}
+
+async function parseMultipart(body: Buffer, contentType: string): Promise<PhotopeaSavePayload> {
+  let form: FormData;
+  try {
+    form = await new Response(new Uint8Array(body), { headers: { 'Content-Type': contentType } }).formData();
+  } catch {
+    throw new PhotopeaSaveError('Request body is not a valid multipart form');
+  }
+  const source = form.get('source');
+  const versions: PhotopeaSaveVersion[] = [];
+
+  for (const [name, value] of form.entries()) {
+    if (typeof value === 'string') continue;
+    const format = value.name.includes('.') ? value.name.split('.').pop()! : name;
+    versions.push({ format, data: new Uint8Array(await value.arrayBuffer()) });
+  }
+
+  return { source: typeof source === 'string' ? source : undefined, versions };
+}
+
+/**
+ * Reads a save request. Besides Photopea's own binary layout this accepts
+ * multipart forms (one file per version) and JSON with base64 `data`, which
+ * are easier to produce from scripts and tests. A body over
+ * MAX_PHOTOPEA_SAVE_BYTES throws RequestBodyError; anything malformed throws
+ * PhotopeaSaveError.
+ */
+export async function parsePhotopeaSave(request: Request): Promise<PhotopeaSavePayload> {
+  const contentType = request.headers.get('content-type') ?? '';
+  const body = await readBody(request, MAX_PHOTOPEA_SAVE_BYTES);
+  let payload: PhotopeaSavePayload;
+
+  if (contentType.startsWith('multipart/form-data')) {
+    payload = await parseMultipart(body, contentType);
+  } else if (contentType.startsWith('application/json')) {
+    let json: unknown;
+    try {
+      json = JSON.parse(body.toString('utf-8'));
+    } catch {
+      throw new PhotopeaSaveError('Request body is not valid JSON');
+    }
+    payload = parseJson(json);
+  } else {
+    payload = parseBinary(new Uint8Array(body));
+  }
+
+  if (payload.versions.length === 0) {
+    throw new PhotopeaSaveError('Save payload contains no files');
+  }
+  return payload;
+}
+
+/** Builds a body in Photopea's binary layout (used by the mock Photopea). */
+export function encodePhotopeaSave(payload: PhotopeaSavePayload): Uint8Array {
+  let offset = PHOTOPEA_SAVE_HEADER_LENGTH;
+  const versions = payload.versions.map((version) => {
+    const entry = { format: version.format, start: offset, size: version.data.byteLength };
+    offset += version.data.byteLength;
+    return entry;
+  });
+
+  const header = new TextEncoder().encode(JSON.stringify({ source: payload.source ?? '', versions }));
+  if (header.byteLength > PHOTOPEA_SAVE_HEADER_LENGTH) {
+    throw new PhotopeaSaveError('Save header does not fit in 2000 bytes');
+  }
+
+  const body = new Uint8Array(offset).fill(0x20, 0, PHOTOPEA_SAVE_HEADER_LENGTH);
+  body.set(header, 0);
+  let position = PHOTOPEA_SAVE_HEADER_LENGTH;
+  for (const version of payload.versions) {
+    body.set(version.data, position);
+    position += version.data.byteLength;
+  }
+  return body;
+}
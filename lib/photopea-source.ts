@@ -0,0 +1,49 @@
+export type PhotopeaSourceId = 'live' | 'mock';
+
+export interface PhotopeaSource {
+  id: PhotopeaSourceId;
+  label: string;
+  /** URL loaded into the iframe, before any `#` config. */
+  baseUrl: string;
+  /** Substrings matched against the origin of incoming messages. */
+  allowedOrigins: string[];
+}
+
+export const LIVE_PHOTOPEA_URL = 'https://www.photopea.com';
+export const MOCK_PHOTOPEA_PATH = '/mock-photopea';
+
+export function getPhotopeaSource(id: PhotopeaSourceId): PhotopeaSource {
+  if (id === 'mock') {
+    // The mock is served by this app, so its messages come from our own origin.
+    const origin = typeof window !== 'undefined' ? window.location.origin : '';
+    return {
+      id,
+      label: 'Mock',
+      baseUrl: MOCK_PHOTOPEA_PATH,
+      allowedOrigins: origin ? [origin] : [],
+    };
+  }
+
+  return {
+    id: 'live',
+    label: 'Live',
+    baseUrl: LIVE_PHOTOPEA_URL,
+    allowedOrigins: ['photopea.com'],
+  };
+}
+
+export function getDefaultSourceId(): PhotopeaSourceId {
+  return process.env.NEXT_PUBLIC_PHOTOPEA_SOURCE === 'mock' ? 'mock' : 'live';
+}
+
+export function isPhotopeaSourceId(value: unknown): value is PhotopeaSourceId {
+  return value === 'live' || value === 'mock';
+}
+
+/** Returns the source a stored `photopeaSrc` URL was built from, if any. */
+export function detectSourceId(src: string): PhotopeaSourceId | null {
+  const base = src.split('#')[0];
+  if (base.startsWith(LIVE_PHOTOPEA_URL)) return 'live';
+  if (base.endsWith(MOCK_PHOTOPEA_PATH)) return 'mock';
+  return null;
+}
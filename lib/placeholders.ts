@@ -0,0 +1,37 @@
+// `{{name}}` or `{{name:default}}` placeholders in library scripts. Kept free of
+// server-only imports so the console page can use it directly.
+
+export interface Placeholder {
+  name: string;
+  defaultValue?: string;
+}
+
+const PLACEHOLDER_PATTERN = /\{\{\s*([A-Za-z_][\w-]*)\s*(?::([^}]*))?\}\}/g;
+
+export function extractPlaceholders(script: string): Placeholder[] {
+  const seen = new Map<string, Placeholder>();
+  for (const match of script.matchAll(PLACEHOLDER_PATTERN)) {
+    const [, name, defaultValue] = match;
+    const existing = seen.get(name);
+    if (!existing) {
+      seen.set(name, { name, defaultValue });
+    } else if (existing.defaultValue === undefined && defaultValue !== undefined) {
+      existing.defaultValue = defaultValue;
+    }
+  }
+  return [...seen.values()];
+}
+
+export function fillPlaceholders(script: string, values: Record<string, string>): string {
+  return script.replace(PLACEHOLDER_PATTERN, (whole, name: string, defaultValue?: string) =>
+    values[name] ?? defaultValue ?? whole
+  );
+}
+
+/**
+ * Replaces each placeholder with an identifier of the same length (keeping
+ * line breaks), so a script can be parsed before its values are filled in.
+ */
+export function maskPlaceholders(script: string): string {
+  return script.replace(PLACEHOLDER_PATTERN, (whole) => whole.replace(/[^\n]/g, '_'));
+}
@@ -0,0 +1,134 @@
+import type { SessionArtifact, SessionMessage } from './session';
+import { groupExchanges } from './exchanges';
+import { describeData } from './message-format';
+import type { PhotopeaClient } from './photopea-client';
+import { formatScriptError } from './script-errors';
+
+export interface ReplayRecord {
+  dataType: string;
+  content: string;
+  rawString: string;
+}
+
+export type ReplayStepStatus = 'pending' | 'running' | 'match' | 'mismatch' | 'failed' | 'skipped';
+
+export interface ReplayStep {
+  index: number;
+  script: string;
+  /** Set for exchanges that opened a file; the file is posted again instead of a script. */
+  opensFile?: boolean;
+  /** The opened file, as stored with the session. */
+  artifact?: SessionArtifact;
+  /**
+   * Outputs recorded in the original session, without the closing "done" or
+   * a timeout marker: a replay cannot produce either, so they are not compared.
+   */
+  original: ReplayRecord[];
+  replayed: ReplayRecord[] | null;
+  status: ReplayStepStatus;
+  error?: string;
+  durationMs?: number;
+}
+
+export interface ReplayRun {
+  sessionId: string;
+  status: 'loading' | 'running' | 'finished' | 'cancelled' | 'failed';
+  steps: ReplayStep[];
+  error?: string;
+}
+
+export interface ReplayOptions {
+  timeoutMs?: number;
+  /** Loads the files that steps opened; without it such steps fail. */
+  readArtifact?: (artifact: SessionArtifact) => Promise<ArrayBuffer>;
+  onUpdate?: (steps: ReplayStep[]) => void;
+  /** Checked between steps; remaining steps are marked skipped once it returns true. */
+  isCancelled?: () => boolean;
+}
+
+function toRecord(msg: Pick<SessionMessage, 'dataType' | 'content' | 'rawString'>): ReplayRecord {
+  return { dataType: msg.dataType, content: msg.content, rawString: msg.rawString };
+}
+
+type ReplayableMessage = Pick<
+  SessionMessage,
+  'id' | 'type' | 'exchangeId' | 'dataType' | 'content' | 'rawString' | 'artifact'
+>;
+
+// Markers the console adds around outputs rather than outputs themselves
+const UNREPLAYABLE_TYPES = ['done', 'timeout'];
+
+export function buildReplaySteps(messages: ReplayableMessage[]): ReplayStep[] {
+  return groupExchanges(messages)
+    .filter((exchange) => exchange.sent !== null)
+    .map((exchange, index) => ({
+      index,
+      script: exchange.sent!.content,
+      ...(exchange.sent!.dataType === 'file' && { opensFile: true, artifact: exchange.sent!.artifact }),
+      original: exchange.responses.filter((r) => !UNREPLAYABLE_TYPES.includes(r.dataType)).map(toRecord),
+      replayed: null,
+      status: 'pending' as const,
+    }));
+}
+
+/**
+ * Outputs match when they have the same types and raw representations, in
+ * order. Errors are compared by their text, since each run's raw report
+ * carries its own script id.
+ */
+export function recordsMatch(a: ReplayRecord[], b: ReplayRecord[]): boolean {
+  return a.length === b.length &&
+    a.every((record, i) =>
+      record.dataType === b[i].dataType &&
+      (record.dataType === 'error' ? record.content === b[i].content : record.rawString === b[i].rawString)
+    );
+}
+
+/** Re-sends every step's script (or file) in order, waiting for "done" between them. */
+export async function runReplay(
+  client: PhotopeaClient,
+  steps: ReplayStep[],
+  options: ReplayOptions = {}
+): Promise<ReplayStep[]> {
+  let current: ReplayStep[] = steps.map((step) => ({ ...step, replayed: null, status: 'pending' }));
+  const update = (index: number, patch: Partial<ReplayStep>) => {
+    current = current.map((step) => (step.index === index ? { ...step, ...patch } : step));
+    options.onUpdate?.(current);
+  };
+
+  for (const step of steps) {
+    if (options.isCancelled?.()) {
+      update(step.index, { status: 'skipped' });
+      continue;
+    }
+
+    update(step.index, { status: 'running' });
+    try {
+      let payload: string | ArrayBuffer = step.script;
+      if (step.opensFile) {
+        if (!step.artifact || !options.readArtifact) throw new Error('The opened file is not stored with the session');
+        payload = await options.readArtifact(step.artifact);
+      }
+      const result = await client.run(payload, { timeoutMs: options.timeoutMs, silent: true, catchErrors: true });
+      const replayed = result.outputs.map((output) => toRecord(describeData(output)));
+      if (result.error) {
+        const message = formatScriptError(result.error);
+        replayed.push({ dataType: 'error', content: message, rawString: message });
+      }
+      update(step.index, {
+        replayed,
+        durationMs: result.durationMs,
+        status: recordsMatch(step.original, replayed) ? 'match' : 'mismatch',
+      });
+    } catch (error) {
+      update(step.index, {
+        replayed: [],
+        status: 'failed',
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  return current;
+}
+
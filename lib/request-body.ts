@@ -0,0 +1,41 @@
+// Reads request bodies with a size cap, so a huge upload is rejected as soon
+// as it crosses the limit instead of being buffered in full first.
+
+export class RequestBodyError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = 'RequestBodyError';
+  }
+}
+
+export async function readBody(request: Request, maxBytes: number): Promise<Buffer> {
+  const tooLarge = () => new RequestBodyError(`Request body exceeds ${maxBytes} bytes`, 413);
+
+  const declared = Number(request.headers.get('content-length'));
+  if (declared > maxBytes) throw tooLarge();
+  if (!request.body) return Buffer.alloc(0);
+
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  const reader = request.body.getReader();
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.byteLength;
+    if (size > maxBytes) {
+      await reader.cancel();
+      throw tooLarge();
+    }
+    chunks.push(value);
+  }
+  return Buffer.concat(chunks);
+}
+
+export async function readJsonBody(request: Request, maxBytes: number): Promise<unknown> {
+  const body = await readBody(request, maxBytes);
+  try {
+    return JSON.parse(body.toString('utf-8'));
+  } catch {
+    throw new RequestBodyError('Request body is not valid JSON', 400);
+  }
+}
@@ -0,0 +1,140 @@
+import assert from 'node:assert/strict';
+import { afterEach, before, describe, it, mock } from 'node:test';
+import type { AutomationResult } from './automation';
+import {
+  claimRunJob,
+  completeRunJob,
+  enqueueRunJob,
+  getRunJob,
+  RunJobError,
+  subscribeToRunJobs,
+  validateRunRequest,
+  validateRunResult,
+} from './run-jobs';
+import { loadArtifact, loadSession } from './session';
+
+const fields = (result: { ok: boolean; errors?: Array<{ field: string }> }) =>
+  result.ok ? [] : result.errors!.map((e) => e.field);
+
+const result = (messages: AutomationResult['messages'], extra: Partial<AutomationResult> = {}): AutomationResult => ({
+  messages,
+  durationMs: 5,
+  ...extra,
+});
+
+const rejectsWith = (status: number) => (error: unknown) => error instanceof RunJobError && error.status === status;
+
+describe('validateRunRequest', () => {
+  it('accepts a script with images, a session and a timeout', () => {
+    const request = { script: 'app.echoToOE(1)', images: ['https://example.com/a.png', '/api/assets/x'], timeoutMs: 1000 };
+    assert.deepEqual(validateRunRequest(request), { ok: true, value: { ...request, sessionId: undefined } });
+  });
+
+  it('reports every invalid field', () => {
+    const invalid = { script: ' ', images: ['file:///etc/passwd', '//evil.com/a.png'], sessionId: '../x', timeoutMs: 0 };
+    assert.deepEqual(fields(validateRunRequest(invalid)), ['script', 'images[0]', 'images[1]', 'sessionId', 'timeoutMs']);
+    assert.deepEqual(fields(validateRunRequest([])), ['']);
+  });
+});
+
+describe('validateRunResult', () => {
+  it('accepts text and base64 messages', () => {
+    const body = { workerId: 'w', result: result([{ kind: 'text', text: 'done' }, { kind: 'binary', base64: 'iVBORw==' }]) };
+    assert.ok(validateRunResult(body).ok);
+  });
+
+  it('rejects binary messages that are not base64', () => {
+    for (const base64 of ['not base64!', 'abc', 'ab=c', 'a===', 42]) {
+      const body = { workerId: 'w', result: result([{ kind: 'binary', base64 } as never]) };
+      assert.deepEqual(fields(validateRunResult(body)), ['result.messages'], String(base64));
+    }
+  });
+
+  it('checks the worker, error and failure', () => {
+    const body = { result: { messages: [], error: { name: 'Error' }, failure: { dataType: 'crash', message: 'x' } } };
+    assert.deepEqual(fields(validateRunResult(body)), ['workerId', 'result.error', 'result.failure']);
+  });
+});
+
+describe('run jobs', () => {
+  // Sessions are kept in memory, so tests never touch `.sessions/`
+  before(() => {
+    process.env.SESSION_STORE = 'memory';
+  });
+
+  afterEach(() => {
+    mock.timers.reset();
+    // Leave nothing queued for the next test to claim
+    while (claimRunJob('cleanup'));
+  });
+
+  it('runs a job from queue to result and logs it into a new session', async () => {
+    const events: string[] = [];
+    const unsubscribe = subscribeToRunJobs((job) => events.push(job.status));
+    const job = enqueueRunJob({ script: 'app.activeDocument.saveToOE("png")', images: [] });
+    assert.equal(job.status, 'queued');
+
+    const claimed = claimRunJob('w1');
+    assert.equal(claimed?.id, job.id);
+    assert.equal(claimed?.status, 'running');
+    assert.equal(claimRunJob('w2'), null);
+
+    const done = await completeRunJob(
+      job.id,
+      'w1',
+      result([
+        { kind: 'text', text: 'hello' },
+        { kind: 'binary', base64: btoa('file') },
+        { kind: 'text', text: 'done' },
+      ])
+    );
+    unsubscribe();
+    assert.equal(done.status, 'succeeded');
+    assert.deepEqual(events, ['queued', 'running', 'succeeded']);
+    assert.deepEqual(getRunJob(job.id), done);
+
+    const [text, file] = done.outputs;
+    assert.deepEqual(text, { kind: 'text', text: 'hello' });
+    assert.equal(file.kind, 'file');
+    if (file.kind !== 'file') return;
+    assert.equal((await loadArtifact(done.sessionId, file.artifact.id))?.data.toString(), 'file');
+
+    const session = await loadSession(done.sessionId);
+    assert.deepEqual(session?.tags, ['api']);
+    assert.deepEqual(session?.messages.map((m) => m.dataType), ['script', 'string', 'ArrayBuffer', 'done']);
+  });
+
+  it('fails the job with the error the script threw', async () => {
+    const job = enqueueRunJob({ script: 'throw 1', images: [] });
+    claimRunJob('w1');
+    const done = await completeRunJob(job.id, 'w1', result([], { error: { scriptId: 's', name: 'Error', message: 'boom' } }));
+    assert.equal(done.status, 'failed');
+    assert.equal(done.error, 'Error: boom');
+  });
+
+  it('only takes the result from the worker running the job, once', async () => {
+    const job = enqueueRunJob({ script: 'x', images: [] });
+    await assert.rejects(completeRunJob(job.id, 'w1', result([])), rejectsWith(409));
+    claimRunJob('w1');
+    await assert.rejects(completeRunJob(job.id, 'w2', result([])), rejectsWith(409));
+    await assert.rejects(completeRunJob('missing', 'w1', result([])), rejectsWith(404));
+
+    const first = completeRunJob(job.id, 'w1', result([]));
+    await assert.rejects(completeRunJob(job.id, 'w1', result([])), rejectsWith(409));
+    assert.equal((await first).status, 'succeeded');
+    await assert.rejects(completeRunJob(job.id, 'w1', result([])), rejectsWith(409));
+  });
+
+  it('fails a job whose worker does not report back in time', async () => {
+    mock.timers.enable({ apis: ['Date'], now: Date.now() });
+    const job = enqueueRunJob({ script: 'x', images: [], timeoutMs: 1000 });
+    claimRunJob('w1');
+
+    // The job is given up on while its result is being logged
+    const completing = completeRunJob(job.id, 'w1', result([]));
+    mock.timers.tick(1000 * 2 + 30000 + 1);
+    assert.equal(getRunJob(job.id)?.status, 'failed');
+    await assert.rejects(completing, rejectsWith(409));
+    assert.equal(getRunJob(job.id)?.error, 'The worker did not report back');
+  });
+});
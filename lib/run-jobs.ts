@@ -0,0 +1,333 @@
+import { nanoid } from 'nanoid';
+import { decodeData, recordExchange, type AutomationData, type AutomationResult, type RecordedOutput } from './automation';
+import { sniffFormat } from './file-format';
+import { DEFAULT_TIMEOUT_MS } from './photopea-client';
+import { formatScriptError, parseScriptError } from './script-errors';
+import {
+  appendMessages,
+  generateSessionId,
+  loadSession,
+  saveArtifact,
+  saveSession,
+  SessionConflictError,
+  type Session,
+  type SessionArtifact,
+} from './session';
+import { isValidSessionId, type FieldError, type ValidationResult } from './session-schema';
+
+// Scripts submitted over HTTP (`POST /api/run`) and run by whichever
+// playground tab or headless worker picks them up. Workers hear about new
+// jobs from `GET /api/run/events` (or poll), claim one at a time and post the
+// result back; the result is logged into the job's session like a console
+// exchange. The queue lives in memory on globalThis, like session events, so
+// jobs do not survive a server restart.
+
+export type RunJobStatus = 'queued' | 'running' | 'succeeded' | 'failed';
+
+export interface RunJobRequest {
+  script: string;
+  /**
+   * Image URLs opened in order before the script runs; the last one is the
+   * active document. Paths on this server, such as session artifacts, are
+   * fetched by the worker and posted to Photopea as bytes.
+   */
+  images: string[];
+  /** Session the job is logged into; a new one is created when it does not exist. */
+  sessionId?: string;
+  timeoutMs?: number;
+}
+
+export type RunJobOutput =
+  | { kind: 'text'; text: string }
+  | { kind: 'file'; artifact: SessionArtifact; format?: string; url: string };
+
+export interface RunJob extends RunJobRequest {
+  id: string;
+  status: RunJobStatus;
+  sessionId: string;
+  createdAt: string;
+  startedAt?: string;
+  finishedAt?: string;
+  /** Worker that claimed the job. */
+  workerId?: string;
+  /** Echoed strings and exported files, in order. */
+  outputs: RunJobOutput[];
+  error?: string;
+}
+
+export class RunJobError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = 'RunJobError';
+  }
+}
+
+export type RunJobListener = (job: RunJob) => void;
+
+const MAX_SCRIPT_LENGTH = 1024 * 1024;
+const MAX_IMAGES = 50;
+const MAX_TIMEOUT_MS = 10 * 60 * 1000;
+/** Finished jobs kept for `GET /api/run/{jobId}`; the oldest are dropped first. */
+const MAX_FINISHED_JOBS = 500;
+/** Extra time a worker gets beyond its script timeouts before its job is given up on. */
+const WORKER_GRACE_MS = 30000;
+
+// Shared across routes and dev reloads, like the session store
+const globalJobs = globalThis as typeof globalThis & {
+  __runJobs?: Map<string, RunJob>;
+  __runJobListeners?: Set<RunJobListener>;
+  __runJobsCompleting?: Set<string>;
+};
+
+function jobs(): Map<string, RunJob> {
+  globalJobs.__runJobs ??= new Map();
+  return globalJobs.__runJobs;
+}
+
+// Jobs whose result is being logged; a second report for them is refused
+function completing(): Set<string> {
+  globalJobs.__runJobsCompleting ??= new Set();
+  return globalJobs.__runJobsCompleting;
+}
+
+function listeners(): Set<RunJobListener> {
+  globalJobs.__runJobListeners ??= new Set();
+  return globalJobs.__runJobListeners;
+}
+
+/** Calls `listener` whenever a job is queued or changes status; returns the unsubscribe function. */
+export function subscribeToRunJobs(listener: RunJobListener): () => void {
+  listeners().add(listener);
+  return () => listeners().delete(listener);
+}
+
+function update(job: RunJob, patch: Partial<RunJob>): RunJob {
+  const updated = { ...job, ...patch };
+  jobs().set(job.id, updated);
+  for (const listener of listeners()) {
+    try {
+      listener(updated);
+    } catch (error) {
+      console.error('Run job listener failed:', error);
+    }
+  }
+  return updated;
+}
+
+// A worker that closed mid-job never reports back; its job fails once the
+// worker has had time for every script it had to run.
+function expireJobs() {
+  const now = Date.now();
+  for (const job of jobs().values()) {
+    if (job.status !== 'running' || !job.startedAt) continue;
+    const allowed = (job.timeoutMs ?? DEFAULT_TIMEOUT_MS) * (job.images.length + 2) + WORKER_GRACE_MS;
+    if (now - Date.parse(job.startedAt) > allowed) {
+      update(job, { status: 'failed', finishedAt: new Date().toISOString(), error: 'The worker did not report back' });
+    }
+  }
+
+  const finished = [...jobs().values()].filter((job) => job.finishedAt);
+  for (const job of finished.slice(0, Math.max(0, finished.length - MAX_FINISHED_JOBS))) {
+    jobs().delete(job.id);
+  }
+}
+
+function isRunnableImage(value: unknown): value is string {
+  return typeof value === 'string' && (/^https?:\/\//i.test(value) || /^\/(?!\/)/.test(value));
+}
+
+export function validateRunRequest(value: unknown): ValidationResult<RunJobRequest> {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return { ok: false, errors: [{ field: '', message: 'Body must be a JSON object' }] };
+  }
+
+  const body = value as Record<string, unknown>;
+  const errors: FieldError[] = [];
+  if (typeof body.script !== 'string' || !body.script.trim()) {
+    errors.push({ field: 'script', message: 'Must be a non-empty string' });
+  } else if (body.script.length > MAX_SCRIPT_LENGTH) {
+    errors.push({ field: 'script', message: `Must be at most ${MAX_SCRIPT_LENGTH} characters` });
+  }
+  const images = body.images ?? [];
+  if (!Array.isArray(images) || images.length > MAX_IMAGES) {
+    errors.push({ field: 'images', message: `Must be an array of at most ${MAX_IMAGES} URLs` });
+  } else {
+    images.forEach((image, i) => {
+      if (!isRunnableImage(image)) {
+        errors.push({ field: `images[${i}]`, message: 'Must be an http(s) URL or a path on this server' });
+      }
+    });
+  }
+  if (body.sessionId !== undefined && !isValidSessionId(body.sessionId)) {
+    errors.push({ field: 'sessionId', message: 'Invalid session id' });
+  }
+  if (
+    body.timeoutMs !== undefined &&
+    !(Number.isInteger(body.timeoutMs) && (body.timeoutMs as number) > 0 && (body.timeoutMs as number) <= MAX_TIMEOUT_MS)
+  ) {
+    errors.push({ field: 'timeoutMs', message: `Must be an integer between 1 and ${MAX_TIMEOUT_MS}` });
+  }
+
+  if (errors.length > 0) return { ok: false, errors };
+  return {
+    ok: true,
+    value: {
+      script: body.script as string,
+      images: images as string[],
+      sessionId: body.sessionId as string | undefined,
+      timeoutMs: body.timeoutMs as number | undefined,
+    },
+  };
+}
+
+function asRecord(value: unknown): Record<string, unknown> {
+  return typeof value === 'object' && value !== null ? (value as Record<string, unknown>) : {};
+}
+
+const BASE64_PATTERN = /^[A-Za-z0-9+/]*={0,2}$/;
+
+function isBase64(value: unknown): value is string {
+  return typeof value === 'string' && value.length % 4 === 0 && BASE64_PATTERN.test(value);
+}
+
+function isAutomationData(value: unknown): value is AutomationData {
+  const data = asRecord(value);
+  return (data.kind === 'text' && typeof data.text === 'string') || (data.kind === 'binary' && isBase64(data.base64));
+}
+
+/** Checks a worker's report; only the parts used for logging are checked in depth. */
+export function validateRunResult(value: unknown): ValidationResult<{ workerId: string; result: AutomationResult }> {
+  const body = asRecord(value);
+  const result = asRecord(body.result);
+  const errors: FieldError[] = [];
+  if (typeof body.workerId !== 'string' || !body.workerId) {
+    errors.push({ field: 'workerId', message: 'Must be a non-empty string' });
+  }
+  if (!Array.isArray(result.messages) || !result.messages.every(isAutomationData)) {
+    errors.push({ field: 'result.messages', message: 'Must be an array of text or base64 binary messages' });
+  }
+  const error = asRecord(result.error);
+  if (result.error !== undefined && !(typeof error.name === 'string' && typeof error.message === 'string')) {
+    errors.push({ field: 'result.error', message: 'Must have a name and a message' });
+  }
+  const failure = asRecord(result.failure);
+  if (
+    result.failure !== undefined &&
+    !((failure.dataType === 'timeout' || failure.dataType === 'error') && typeof failure.message === 'string')
+  ) {
+    errors.push({ field: 'result.failure', message: 'Must have a dataType of timeout or error and a message' });
+  }
+
+  if (errors.length > 0) return { ok: false, errors };
+  return { ok: true, value: { workerId: body.workerId as string, result: result as unknown as AutomationResult } };
+}
+
+export function enqueueRunJob(request: RunJobRequest): RunJob {
+  expireJobs();
+  const job: RunJob = {
+    ...request,
+    id: nanoid(16),
+    status: 'queued',
+    sessionId: request.sessionId ?? generateSessionId(),
+    createdAt: new Date().toISOString(),
+    outputs: [],
+  };
+  return update(job, {});
+}
+
+export function getRunJob(jobId: string): RunJob | null {
+  expireJobs();
+  return jobs().get(jobId) ?? null;
+}
+
+/** Hands the oldest queued job to `workerId`; null when there is none. */
+export function claimRunJob(workerId: string): RunJob | null {
+  expireJobs();
+  for (const job of jobs().values()) {
+    if (job.status === 'queued') {
+      return update(job, { status: 'running', workerId, startedAt: new Date().toISOString() });
+    }
+  }
+  return null;
+}
+
+async function logToSession(job: RunJob, result: AutomationResult): Promise<RunJobOutput[]> {
+  const received: RecordedOutput[] = [];
+  const outputs: RunJobOutput[] = [];
+  for (const message of result.messages) {
+    const data = decodeData(message);
+    if (typeof data === 'string') {
+      received.push({ data });
+      if (data !== 'done' && !parseScriptError(data)) outputs.push({ kind: 'text', text: data });
+      continue;
+    }
+    const bytes = Buffer.from(data);
+    const format = sniffFormat(bytes);
+    const artifact = await saveArtifact(job.sessionId, bytes, format?.mimeType ?? 'application/octet-stream');
+    received.push({ data, artifact, format: format?.id });
+    outputs.push({
+      kind: 'file',
+      artifact,
+      format: format?.id,
+      url: `/api/sessions/${job.sessionId}/artifacts/${artifact.id}`,
+    });
+  }
+
+  // Another tab may append to the same session meanwhile; take the next free ids and retry
+  let session = await loadSession(job.sessionId);
+  for (let attempt = 0; ; attempt++) {
+    const firstId = session ? Math.max(0, ...session.messages.map((m) => m.id)) + 1 : 1;
+    const messages = recordExchange(firstId, job.script, received, result.failure);
+    try {
+      if (session) {
+        await appendMessages(job.sessionId, messages);
+      } else {
+        const now = new Date().toISOString();
+        const created: Session = {
+          id: job.sessionId,
+          createdAt: now,
+          updatedAt: now,
+          title: `Run ${job.id}`,
+          tags: ['api'],
+          messages,
+          metadata: { imageUrls: job.images },
+        };
+        await saveSession(created);
+      }
+      return outputs;
+    } catch (error) {
+      if (!(error instanceof SessionConflictError) || attempt >= 2) throw error;
+      session = error.current;
+    }
+  }
+}
+
+/** Records what a worker reported for its job and logs the run into the job's session. */
+export async function completeRunJob(jobId: string, workerId: string, result: AutomationResult): Promise<RunJob> {
+  const job = getRunJob(jobId);
+  if (!job) throw new RunJobError('Job not found', 404);
+  if (job.status !== 'running' || job.workerId !== workerId) {
+    throw new RunJobError('Job is not running on this worker', 409);
+  }
+
+  if (completing().has(jobId)) throw new RunJobError('Job is already being completed', 409);
+
+  completing().add(jobId);
+  try {
+    const outputs = await logToSession(job, result);
+    // The job may have been given up on while the result was stored
+    const current = jobs().get(jobId);
+    if (current?.status !== 'running' || current.workerId !== workerId) {
+      throw new RunJobError('Job is not running on this worker', 409);
+    }
+    const error = result.failure?.message ?? (result.error && formatScriptError(result.error));
+    return update(current, {
+      status: error ? 'failed' : 'succeeded',
+      finishedAt: new Date().toISOString(),
+      outputs,
+      error,
+    });
+  } finally {
+    completing().delete(jobId);
+  }
+}
@@ -0,0 +1,119 @@
+import { nanoid } from 'nanoid';
+import { encodeData, type AutomationData, type AutomationResult } from './automation';
+import { trackOpenedDocuments } from './opened-documents';
+import { PhotopeaTimeoutError, type PhotopeaClient } from './photopea-client';
+import type { RunJob } from './run-jobs';
+import { encodeScriptError } from './script-errors';
+
+// The browser side of `POST /api/run`: takes queued jobs one at a time, runs
+// them through a Photopea client and reports back. New jobs are announced on
+// `GET /api/run/events`; the queue is also polled, in case an event was missed
+// while the stream reconnected.
+
+export interface RunWorkerOptions {
+  /** Called when a job is claimed and again once it is reported. */
+  onJob?: (job: RunJob) => void;
+  pollMs?: number;
+}
+
+const DEFAULT_POLL_MS = 10000;
+
+async function readInput(url: string): Promise<ArrayBuffer | null> {
+  // Photopea cannot reach paths on this server, so those are posted as bytes
+  const resolved = new URL(url, window.location.href);
+  if (resolved.origin !== window.location.origin) return null;
+  const res = await fetch(resolved);
+  if (!res.ok) throw new Error(`Could not load ${url}: ${res.status}`);
+  return res.arrayBuffer();
+}
+
+/**
+ * Opens a job's images, runs its script and closes what it opened again,
+ * leaving Photopea as it was for whatever else uses the client.
+ */
+export async function runJob(client: PhotopeaClient, job: RunJob): Promise<AutomationResult> {
+  const startedAt = Date.now();
+  const run = (payload: string | ArrayBuffer) =>
+    client.run(payload, { timeoutMs: job.timeoutMs, silent: true, catchErrors: true });
+
+  const opened = trackOpenedDocuments(run);
+  const messages: AutomationData[] = [];
+  try {
+    for (const url of job.images) {
+      await opened.open((await readInput(url)) ?? url, url);
+    }
+
+    // Silent runs leave out the error report and "done"; put them back so the
+    // exchange is logged as the console would have
+    const result = await run(job.script);
+    messages.push(...result.outputs.map(encodeData));
+    if (result.error) messages.push(encodeData(encodeScriptError(result.error)));
+    messages.push(encodeData('done'));
+    return { messages, error: result.error, durationMs: Date.now() - startedAt };
+  } catch (error) {
+    return {
+      messages,
+      failure: {
+        dataType: error instanceof PhotopeaTimeoutError ? 'timeout' : 'error',
+        message: error instanceof Error ? error.message : String(error),
+      },
+      durationMs: Date.now() - startedAt,
+    };
+  } finally {
+    await opened.closeAll();
+  }
+}
+
+/** Starts taking jobs for `client`; returns the function that stops it. */
+export function startRunWorker(client: PhotopeaClient, options: RunWorkerOptions = {}): () => void {
+  const workerId = nanoid(12);
+  let stopped = false;
+  let draining = false;
+
+  const claim = async (): Promise<RunJob | null> => {
+    const res = await fetch('/api/run/claim', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ workerId }),
+    });
+    if (res.status === 204) return null;
+    if (!res.ok) throw new Error(`Claim failed with ${res.status}`);
+    return res.json();
+  };
+
+  const drain = async () => {
+    if (draining || stopped) return;
+    draining = true;
+    try {
+      for (let job = await claim(); job && !stopped; job = await claim()) {
+        options.onJob?.(job);
+        const result = await runJob(client, job);
+        const res = await fetch(`/api/run/${job.id}/result`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ workerId, result }),
+        });
+        if (res.ok) options.onJob?.(await res.json());
+        else console.error(`Reporting job ${job.id} failed with ${res.status}`);
+      }
+    } catch (error) {
+      console.error('Run worker failed:', error);
+    } finally {
+      draining = false;
+    }
+  };
+
+  const events = new EventSource('/api/run/events');
+  events.addEventListener('job', (e) => {
+    const job: RunJob = JSON.parse((e as MessageEvent).data);
+    if (job.status === 'queued') drain();
+  });
+  const poll = setInterval(drain, options.pollMs ?? DEFAULT_POLL_MS);
+  drain();
+
+  return () => {
+    stopped = true;
+    events.close();
+    clearInterval(poll);
+  };
+}
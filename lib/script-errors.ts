@@ -0,0 +1,69 @@
+// Photopea swallows exceptions thrown by a script and still answers "done",
+// so scripts are wrapped in a try/catch that echoes a structured report
+// instead. The report travels as an echoToOE string like any other output.
+
+export interface ScriptErrorReport {
+  /** Id the script was wrapped with, to tell its report from echoed text. */
+  scriptId: string;
+  name: string;
+  message: string;
+  /** 1-based line in the original script, when the engine's stack trace gives it. */
+  line?: number;
+}
+
+const REPORT_KEY = '__photopeaScriptError';
+
+// The report's line is the distance between the error's first stack frame and
+// a probe created on the wrapper's first line, which cancels out whatever the
+// engine adds around evaluated code.
+const STACK_LINE = `function (e) {
+    var lines = String((e && e.stack) || '').split('\\n');
+    for (var i = 0; i < lines.length; i++) {
+      var m = /:(\\d+):\\d+\\)?\\s*$/.exec(lines[i]);
+      if (m) return Number(m[1]);
+    }
+    return NaN;
+  }`;
+
+/** Wraps a script so an exception is echoed as a `ScriptErrorReport` instead of being lost. */
+export function wrapScript(script: string, scriptId: string): string {
+  const lineCount = script.split('\n').length;
+  return `var __ppProbe = new Error(); try {
+${script}
+} catch (__ppError) {
+  var __ppLine = (${STACK_LINE})(__ppError) - (${STACK_LINE})(__ppProbe);
+  app.echoToOE(JSON.stringify({ ${REPORT_KEY}: {
+    scriptId: ${JSON.stringify(scriptId)},
+    name: String((__ppError && __ppError.name) || 'Error'),
+    message: String(__ppError && __ppError.message !== undefined ? __ppError.message : __ppError),
+    line: __ppLine >= 1 && __ppLine <= ${lineCount} ? __ppLine : undefined
+  } }));
+}`;
+}
+
+/** The report carried by a Photopea output, or null if it is anything else. */
+export function parseScriptError(data: unknown): ScriptErrorReport | null {
+  if (typeof data !== 'string' || !data.startsWith(`{"${REPORT_KEY}"`)) return null;
+  try {
+    const report = JSON.parse(data)[REPORT_KEY];
+    if (typeof report?.scriptId !== 'string' || typeof report.message !== 'string') return null;
+    return {
+      scriptId: report.scriptId,
+      name: typeof report.name === 'string' ? report.name : 'Error',
+      message: report.message,
+      line: Number.isInteger(report.line) ? report.line : undefined,
+    };
+  } catch {
+    return null;
+  }
+}
+
+/** The output a wrapped script echoes for `report`; the inverse of `parseScriptError`. */
+export function encodeScriptError(report: ScriptErrorReport): string {
+  return JSON.stringify({ [REPORT_KEY]: report });
+}
+
+export function formatScriptError(report: ScriptErrorReport): string {
+  const where = report.line !== undefined ? ` on line ${report.line}` : '';
+  return `${report.name}${where}: ${report.message}`;
+}
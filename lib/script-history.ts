@@ -0,0 +1,31 @@
+// Shell-style history of the scripts sent in a session, for the editor's
+// up/down navigation and reverse search.
+
+export interface HistoryMessage {
+  type: 'sent' | 'received';
+  content: string;
+  dataType: string;
+}
+
+/** Sent scripts, oldest first, with immediate repeats collapsed like a shell does. */
+export function scriptHistory(messages: HistoryMessage[]): string[] {
+  const history: string[] = [];
+  for (const message of messages) {
+    // Opened files are sent too, but there is no script to recall
+    if (message.type !== 'sent' || message.dataType === 'file') continue;
+    if (history[history.length - 1] !== message.content) history.push(message.content);
+  }
+  return history;
+}
+
+/**
+ * Index of the newest entry before `before` containing `query` (case-insensitive),
+ * or -1. Pass `history.length` to search from the newest entry.
+ */
+export function searchHistory(history: string[], query: string, before: number): number {
+  const needle = query.toLowerCase();
+  for (let i = Math.min(before, history.length) - 1; i >= 0; i--) {
+    if (history[i].toLowerCase().includes(needle)) return i;
+  }
+  return -1;
+}
@@ -0,0 +1,48 @@
+import { parse } from 'acorn';
+import { maskPlaceholders } from './placeholders';
+
+// Syntax check run by the script editor and before a script is sent, so a
+// typo is reported in place instead of as an opaque failure from Photopea.
+
+export interface ScriptDiagnostic {
+  message: string;
+  /** 1-based line of the error. */
+  line: number;
+  /** 0-based column of the error. */
+  column: number;
+  /** Offsets into the script of the range to mark. */
+  from: number;
+  to: number;
+}
+
+interface AcornSyntaxError extends SyntaxError {
+  pos: number;
+  raisedAt: number;
+  loc: { line: number; column: number };
+}
+
+function isAcornSyntaxError(error: unknown): error is AcornSyntaxError {
+  return error instanceof SyntaxError && typeof (error as Partial<AcornSyntaxError>).pos === 'number';
+}
+
+/**
+ * Parses the script as Photopea would run it and returns its syntax errors
+ * (at most one: parsing stops at the first). `{{placeholders}}` are treated
+ * as identifiers, so library scripts lint before their values are filled in.
+ */
+export function lintScript(script: string): ScriptDiagnostic[] {
+  try {
+    parse(maskPlaceholders(script), { ecmaVersion: 'latest', sourceType: 'script' });
+    return [];
+  } catch (error) {
+    if (!isAcornSyntaxError(error)) throw error;
+    // Acorn appends " (line:column)" to its messages; the position is reported separately
+    const message = error.message.replace(/\s*\(\d+:\d+\)$/, '');
+    const to = Math.min(script.length, Math.max(error.raisedAt, error.pos + 1));
+    return [{ message, line: error.loc.line, column: error.loc.column, from: error.pos, to }];
+  }
+}
+
+export function formatDiagnostic(diagnostic: ScriptDiagnostic): string {
+  return `Syntax error on line ${diagnostic.line}: ${diagnostic.message}`;
+}
@@ -0,0 +1,199 @@
+import { nanoid } from 'nanoid';
+import fs from 'fs/promises';
+import path from 'path';
+import type { FieldError, ValidationResult } from './session-schema';
+
+export interface LibraryScript {
+  id: string;
+  name: string;
+  description?: string;
+  tags: string[];
+  /** Script source; may contain `{{name}}` / `{{name:default}}` placeholders. */
+  script: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ScriptBundle {
+  version: 1;
+  exportedAt: string;
+  scripts: LibraryScript[];
+}
+
+/** Fields accepted by `POST /api/scripts`; a new id is generated when `id` is left out. */
+export type LibraryScriptInput = Pick<LibraryScript, 'name' | 'description' | 'tags' | 'script'> & { id?: string };
+
+/** Largest body accepted by `POST /api/scripts`. */
+export const MAX_SCRIPT_BYTES = 1024 * 1024;
+/** Largest bundle accepted by `POST /api/scripts/import`. */
+export const MAX_SCRIPT_BUNDLE_BYTES = 10 * 1024 * 1024;
+
+const SCRIPTS_DIR = path.join(process.cwd(), '.scripts');
+// Ids end up in file paths, like session ids
+const SCRIPT_ID_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+// Written once the defaults have been seeded, so deleting them all sticks.
+const SEEDED_MARKER = path.join(SCRIPTS_DIR, '.seeded');
+
+const DEFAULT_SCRIPTS: Omit<LibraryScript, 'id' | 'createdAt' | 'updatedAt'>[] = [
+  { name: 'Get doc name', tags: ['document'], script: 'app.echoToOE(app.activeDocument.name)' },
+  { name: 'List layers', tags: ['layers'], script: 'app.echoToOE(app.activeDocument.layers.length)' },
+  {
+    name: 'Move layer',
+    description: 'Translate the active layer by an offset in pixels',
+    tags: ['layers'],
+    script: 'app.activeDocument.activeLayer.translate({{dx:10}}, {{dy:10}})',
+  },
+  {
+    name: 'New doc',
+    description: 'Create an empty document',
+    tags: ['document'],
+    script: 'app.documents.add({{width:800}}, {{height:600}}, 72, "{{name:Untitled}}")',
+  },
+  {
+    name: 'Export',
+    description: 'Export the active document (png, jpg, webp, psd, svg)',
+    tags: ['export'],
+    script: 'app.activeDocument.saveToOE("{{format:png}}")',
+  },
+];
+
+export function generateScriptId(): string {
+  return nanoid(12);
+}
+
+export function isValidScriptId(id: unknown): id is string {
+  return typeof id === 'string' && SCRIPT_ID_PATTERN.test(id);
+}
+
+export function validateScriptInput(value: unknown): ValidationResult<LibraryScriptInput> {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return { ok: false, errors: [{ field: '', message: 'Body must be a JSON object' }] };
+  }
+
+  const body = value as Record<string, unknown>;
+  const errors: FieldError[] = [];
+  if (body.id !== undefined && !isValidScriptId(body.id)) {
+    errors.push({ field: 'id', message: 'Must be 1-64 letters, digits, "_" or "-"' });
+  }
+  if (typeof body.name !== 'string' || !body.name.trim()) {
+    errors.push({ field: 'name', message: 'Must be a non-empty string' });
+  }
+  if (typeof body.script !== 'string' || !body.script.trim()) {
+    errors.push({ field: 'script', message: 'Must be a non-empty string' });
+  }
+  if (body.description !== undefined && typeof body.description !== 'string') {
+    errors.push({ field: 'description', message: 'Must be a string' });
+  }
+  const tags = body.tags ?? [];
+  if (!Array.isArray(tags) || !tags.every((tag) => typeof tag === 'string')) {
+    errors.push({ field: 'tags', message: 'Must be an array of strings' });
+  }
+
+  if (errors.length > 0) return { ok: false, errors };
+  return {
+    ok: true,
+    value: {
+      id: body.id as string | undefined,
+      name: (body.name as string).trim(),
+      description: (body.description as string | undefined)?.trim() || undefined,
+      tags: (tags as string[]).map((t) => t.trim()).filter(Boolean),
+      script: body.script as string,
+    },
+  };
+}
+
+async function seedDefaults(): Promise<void> {
+  try {
+    await fs.access(SEEDED_MARKER);
+    return;
+  } catch {
+    // Not seeded yet
+  }
+
+  const now = new Date().toISOString();
+  for (const script of DEFAULT_SCRIPTS) {
+    await saveScript({ ...script, id: generateScriptId(), createdAt: now, updatedAt: now });
+  }
+  await fs.writeFile(SEEDED_MARKER, now, 'utf-8');
+}
+
+export async function saveScript(script: LibraryScript): Promise<void> {
+  if (!isValidScriptId(script.id)) throw new Error(`Invalid script id: ${script.id}`);
+  await fs.mkdir(SCRIPTS_DIR, { recursive: true });
+  const filePath = path.join(SCRIPTS_DIR, `${script.id}.json`);
+  await fs.writeFile(filePath, JSON.stringify(script, null, 2), 'utf-8');
+}
+
+export async function loadScript(scriptId: string): Promise<LibraryScript | null> {
+  if (!isValidScriptId(scriptId)) return null;
+  try {
+    const filePath = path.join(SCRIPTS_DIR, `${scriptId}.json`);
+    const data = await fs.readFile(filePath, 'utf-8');
+    return JSON.parse(data);
+  } catch {
+    return null;
+  }
+}
+
+export async function listScripts(): Promise<LibraryScript[]> {
+  try {
+    await fs.mkdir(SCRIPTS_DIR, { recursive: true });
+    await seedDefaults();
+    const files = await fs.readdir(SCRIPTS_DIR);
+    const scripts: LibraryScript[] = [];
+
+    for (const file of files) {
+      if (file.endsWith('.json')) {
+        const filePath = path.join(SCRIPTS_DIR, file);
+        const data = await fs.readFile(filePath, 'utf-8');
+        scripts.push(JSON.parse(data));
+      }
+    }
+
+    return scripts.sort((a, b) => a.name.localeCompare(b.name));
+  } catch {
+    return [];
+  }
+}
+
+export async function deleteScript(scriptId: string): Promise<boolean> {
+  if (!isValidScriptId(scriptId)) return false;
+  try {
+    const filePath = path.join(SCRIPTS_DIR, `${scriptId}.json`);
+    await fs.unlink(filePath);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export async function exportScripts(): Promise<ScriptBundle> {
+  return {
+    version: 1,
+    exportedAt: new Date().toISOString(),
+    scripts: await listScripts(),
+  };
+}
+
+/**
+ * Imports a bundle, replacing scripts with the same id. Scripts without a
+ * usable id get a new one. Returns the number imported.
+ */
+export async function importScripts(bundle: ScriptBundle): Promise<number> {
+  const now = new Date().toISOString();
+  let count = 0;
+  for (const script of bundle.scripts) {
+    if (typeof script?.name !== 'string' || typeof script?.script !== 'string') continue;
+    await saveScript({
+      id: isValidScriptId(script.id) ? script.id : generateScriptId(),
+      name: script.name,
+      description: typeof script.description === 'string' ? script.description : undefined,
+      tags: Array.isArray(script.tags) ? script.tags.filter((t) => typeof t === 'string') : [],
+      script: script.script,
+      createdAt: typeof script.createdAt === 'string' && script.createdAt ? script.createdAt : now,
+      updatedAt: now,
+    });
+    count++;
+  }
+  return count;
+}
@@ -0,0 +1,85 @@
+import assert from 'node:assert/strict';
+import { before, describe, it } from 'node:test';
+import { strToU8, zipSync } from 'fflate';
+import { listArtifacts, loadArtifact, loadSession, saveArtifact, saveSession } from './session';
+import { exportSessionBundle, importSessionBundle, SessionBundleError, SESSION_BUNDLE_FORMAT } from './session-bundle';
+import { MAX_SESSION_BYTES } from './session-schema';
+
+const now = '2026-01-01T00:00:00.000Z';
+const manifest = strToU8(JSON.stringify({ format: SESSION_BUNDLE_FORMAT, version: 1, artifacts: [] }));
+const sessionJson = (id: string) => strToU8(JSON.stringify({ id, createdAt: now, updatedAt: now, messages: [] }));
+
+describe('session bundles', () => {
+  // Sessions are kept in memory, so tests never touch `.sessions/`
+  before(() => {
+    process.env.SESSION_STORE = 'memory';
+  });
+
+  it('imports an export as a copy with its artifacts and config', async () => {
+    await saveSession({
+      id: 'bundled',
+      createdAt: now,
+      updatedAt: now,
+      title: 'Bundled',
+      messages: [],
+      metadata: { config: { environment: { theme: 2 } } },
+    });
+    const artifact = await saveArtifact('bundled', Buffer.from('PNG bytes'), 'image/png');
+
+    const bundle = await exportSessionBundle('bundled');
+    assert.ok(bundle);
+    const imported = await importSessionBundle(bundle);
+
+    // The id is taken by the original, so the copy gets a new one
+    assert.equal(imported.originalId, 'bundled');
+    assert.notEqual(imported.session.id, 'bundled');
+    assert.equal(imported.artifactCount, 1);
+    const copy = await loadSession(imported.session.id);
+    assert.equal(copy?.title, 'Bundled');
+    assert.deepEqual(copy?.metadata?.config, { environment: { theme: 2 } });
+    assert.deepEqual((await listArtifacts(imported.session.id)).map((a) => a.id), [artifact.id]);
+    assert.equal((await loadArtifact(imported.session.id, artifact.id))?.data.toString(), 'PNG bytes');
+  });
+
+  it('keeps the bundle id when it is free', async () => {
+    const imported = await importSessionBundle(
+      zipSync({ 'manifest.json': manifest, 'session.json': sessionJson('fresh-id') })
+    );
+    assert.equal(imported.session.id, 'fresh-id');
+    assert.equal(imported.originalId, undefined);
+  });
+
+  it('returns null when exporting an unknown session', async () => {
+    assert.equal(await exportSessionBundle('missing'), null);
+  });
+
+  it('refuses what is not a valid bundle', async () => {
+    await assert.rejects(importSessionBundle(strToU8('not a zip')), /Not a zip file/);
+    await assert.rejects(importSessionBundle(zipSync({ 'session.json': sessionJson('x') })), /no manifest\.json/);
+    await assert.rejects(
+      importSessionBundle(zipSync({ 'manifest.json': strToU8('{"format":"other","version":1}') })),
+      /Not a Photopea session bundle/
+    );
+    await assert.rejects(
+      importSessionBundle(zipSync({ 'manifest.json': manifest, 'session.json': strToU8('{"id":"../x"}') })),
+      (error: unknown) => error instanceof SessionBundleError && error.fields.some((f) => f.field === 'id')
+    );
+  });
+
+  it('refuses entries over their limit before inflating them', async () => {
+    const huge = zipSync({ 'manifest.json': manifest, 'session.json': new Uint8Array(MAX_SESSION_BYTES + 1) });
+    await assert.rejects(importSessionBundle(huge), /session\.json exceeds/);
+  });
+
+  it('skips entries that are not part of a bundle', async () => {
+    const imported = await importSessionBundle(
+      zipSync({
+        'manifest.json': manifest,
+        'session.json': sessionJson('with-extras'),
+        '../outside.txt': strToU8('ignored'),
+        'other/huge.bin': new Uint8Array(MAX_SESSION_BYTES + 1),
+      })
+    );
+    assert.equal(imported.session.id, 'with-extras');
+  });
+});
@@ -0,0 +1,169 @@
+import { strToU8, strFromU8, unzipSync, zipSync, type Zippable } from 'fflate';
+import {
+  generateSessionId,
+  listArtifacts,
+  loadArtifact,
+  loadSession,
+  restoreArtifact,
+  saveSession,
+  type Session,
+  type SessionArtifact,
+} from './session';
+import { configFromSessionMetadata, type PhotopeaConfig } from './photopea-config';
+import {
+  isValidArtifactId,
+  MAX_ARTIFACT_BYTES,
+  MAX_SESSION_BYTES,
+  validateSession,
+  type FieldError,
+} from './session-schema';
+
+// A session packed into one zip file (`.ppsession`) that can be handed to
+// someone else and imported into their playground:
+//
+//   manifest.json      format, version and export details
+//   session.json       the session itself
+//   config.json        the Photopea config it ran with
+//   artifacts/{id}     binary outputs referenced by the messages
+
+export const SESSION_BUNDLE_FORMAT = 'photopea-session';
+export const SESSION_BUNDLE_EXTENSION = 'ppsession';
+/** Largest bundle accepted by `POST /api/sessions/import`. */
+export const MAX_BUNDLE_BYTES = 200 * 1024 * 1024;
+/** Largest total a bundle may unpack to, so a zip bomb is refused before it is inflated. */
+export const MAX_BUNDLE_UNPACKED_BYTES = 2 * MAX_BUNDLE_BYTES;
+
+const BUNDLE_JSON_FILES = ['manifest.json', 'session.json', 'config.json'];
+
+export interface SessionBundleManifest {
+  format: typeof SESSION_BUNDLE_FORMAT;
+  version: 1;
+  exportedAt: string;
+  sessionId: string;
+  artifacts: SessionArtifact[];
+}
+
+export interface SessionImportResult {
+  session: Session;
+  /** Set when the bundle's id was already taken and a new one was assigned. */
+  originalId?: string;
+  artifactCount: number;
+}
+
+export class SessionBundleError extends Error {
+  constructor(message: string, public fields: FieldError[] = []) {
+    super(message);
+    this.name = 'SessionBundleError';
+  }
+}
+
+export async function exportSessionBundle(sessionId: string): Promise<Uint8Array | null> {
+  const session = await loadSession(sessionId);
+  if (!session) return null;
+
+  const artifacts = await listArtifacts(sessionId);
+  const manifest: SessionBundleManifest = {
+    format: SESSION_BUNDLE_FORMAT,
+    version: 1,
+    exportedAt: new Date().toISOString(),
+    sessionId,
+    artifacts,
+  };
+
+  const files: Zippable = {
+    'manifest.json': strToU8(JSON.stringify(manifest, null, 2)),
+    'session.json': strToU8(JSON.stringify(session, null, 2)),
+    'config.json': strToU8(JSON.stringify(configFromSessionMetadata(session.metadata), null, 2)),
+  };
+  for (const artifact of artifacts) {
+    const stored = await loadArtifact(sessionId, artifact.id);
+    // Exports are mostly compressed already, so just store them
+    if (stored) files[`artifacts/${artifact.id}`] = [new Uint8Array(stored.data), { level: 0 }];
+  }
+
+  return zipSync(files);
+}
+
+function readJson(files: Record<string, Uint8Array>, name: string): unknown {
+  if (!files[name]) throw new SessionBundleError(`Bundle has no ${name}`);
+  try {
+    return JSON.parse(strFromU8(files[name]));
+  } catch {
+    throw new SessionBundleError(`${name} is not valid JSON`);
+  }
+}
+
+/**
+ * Imports a bundle as a new session. Keeps the bundle's session id unless a
+ * session with that id already exists, in which case a fresh one is assigned.
+ */
+export async function importSessionBundle(data: Uint8Array): Promise<SessionImportResult> {
+  // Only the entries a bundle is made of are unpacked, each within its
+  // limit; sizes are checked against the zip's directory before inflating
+  let unpacked = 0;
+  let files: Record<string, Uint8Array>;
+  try {
+    files = unzipSync(data, {
+      filter: (file) => {
+        const isJson = BUNDLE_JSON_FILES.includes(file.name);
+        if (!isJson && !file.name.startsWith('artifacts/')) return false;
+        const limit = isJson ? MAX_SESSION_BYTES : MAX_ARTIFACT_BYTES;
+        if (file.originalSize > limit) {
+          throw new SessionBundleError(`${file.name} exceeds ${limit} bytes`);
+        }
+        unpacked += file.originalSize;
+        if (unpacked > MAX_BUNDLE_UNPACKED_BYTES) {
+          throw new SessionBundleError(`Bundle unpacks to more than ${MAX_BUNDLE_UNPACKED_BYTES} bytes`);
+        }
+        return true;
+      },
+    });
+  } catch (error) {
+    if (error instanceof SessionBundleError) throw error;
+    throw new SessionBundleError('Not a zip file');
+  }
+
+  const manifest = readJson(files, 'manifest.json') as Partial<SessionBundleManifest>;
+  if (manifest?.format !== SESSION_BUNDLE_FORMAT || manifest.version !== 1) {
+    throw new SessionBundleError('Not a Photopea session bundle');
+  }
+
+  const raw = readJson(files, 'session.json') as Session;
+  // Sessions saved before message timestamps were stored
+  if (Array.isArray(raw?.messages)) {
+    raw.messages = raw.messages.map((m) => ({ ...m, timestamp: m?.timestamp ?? raw.updatedAt }));
+  }
+  const result = validateSession(raw);
+  if (!result.ok) throw new SessionBundleError('Bundle contains an invalid session', result.errors);
+
+  const session = result.value;
+  const originalId = session.id;
+  if (await loadSession(session.id)) session.id = generateSessionId();
+  // Put it at the top of the (newest first) session list
+  session.updatedAt = new Date().toISOString();
+
+  // config.json wins over what the session carried, so it can be edited in the bundle
+  if (files['config.json']) {
+    const config = readJson(files, 'config.json');
+    if (typeof config !== 'object' || config === null || Array.isArray(config)) {
+      throw new SessionBundleError('config.json must be an object');
+    }
+    session.metadata = { ...session.metadata, config: config as PhotopeaConfig };
+  }
+
+  const saved = await saveSession(session);
+
+  let artifactCount = 0;
+  for (const artifact of manifest.artifacts ?? []) {
+    const bytes = isValidArtifactId(artifact?.id) ? files[`artifacts/${artifact.id}`] : undefined;
+    if (!bytes) continue;
+    await restoreArtifact(saved.id, artifact, Buffer.from(bytes));
+    artifactCount++;
+  }
+
+  return {
+    session: saved,
+    originalId: session.id !== originalId ? originalId : undefined,
+    artifactCount,
+  };
+}
@@ -0,0 +1,55 @@
+// In-process notifications of session writes, streamed to browsers by
+// `GET /api/sessions/{id}/events`. They only reach clients of the server
+// process that made the write.
+
+export interface SessionChangeEvent {
+  sessionId: string;
+  revision: number;
+  updatedAt: string;
+  /** Tab that made the change, so it can ignore its own writes. */
+  clientId?: string;
+}
+
+export type SessionChangeListener = (event: SessionChangeEvent) => void;
+
+/** Request header carrying the id of the tab making a save, echoed as `clientId`. */
+export const SESSION_CLIENT_HEADER = 'x-session-client';
+
+/** How often the event stream sends a comment to keep idle connections open. */
+export const SESSION_EVENTS_KEEPALIVE_MS = 15000;
+
+// Shared across routes and dev reloads, like the session store
+const globalListeners = globalThis as typeof globalThis & {
+  __sessionListeners?: Map<string, Set<SessionChangeListener>>;
+};
+
+function listeners(): Map<string, Set<SessionChangeListener>> {
+  globalListeners.__sessionListeners ??= new Map();
+  return globalListeners.__sessionListeners;
+}
+
+/** Calls `listener` after every write to the session; returns the unsubscribe function. */
+export function subscribeToSession(sessionId: string, listener: SessionChangeListener): () => void {
+  const all = listeners();
+  let forSession = all.get(sessionId);
+  if (!forSession) {
+    forSession = new Set();
+    all.set(sessionId, forSession);
+  }
+  forSession.add(listener);
+
+  return () => {
+    forSession.delete(listener);
+    if (forSession.size === 0 && all.get(sessionId) === forSession) all.delete(sessionId);
+  };
+}
+
+export function publishSessionChange(event: SessionChangeEvent): void {
+  for (const listener of listeners().get(event.sessionId) ?? []) {
+    try {
+      listener(event);
+    } catch (error) {
+      console.error('Session change listener failed:', error);
+    }
+  }
+}
@@ -0,0 +1,49 @@
+import type { Session, SessionLogEntry } from './session';
+
+// Helpers for the append-only message log that stores keep next to each
+// session. A session is its last full save plus the log entries written
+// after it; compaction folds the log back into the full save.
+
+// Small logs are not worth a rewrite of the session
+const MIN_COMPACT_LOG_BYTES = 64 * 1024;
+
+/**
+ * Replays log entries onto a session. Entries at or below the session's
+ * revision are already part of it (e.g. a compaction that was interrupted
+ * before the log was removed) and are skipped.
+ */
+export function applyLogEntries(session: Session, entries: SessionLogEntry[]): Session {
+  for (const entry of entries) {
+    if (entry.revision <= (session.revision ?? 0)) continue;
+    session.messages.push(...entry.messages);
+    session.revision = entry.revision;
+    session.updatedAt = entry.updatedAt;
+  }
+  return session;
+}
+
+export function formatLogEntry(entry: SessionLogEntry): string {
+  return `${JSON.stringify(entry)}\n`;
+}
+
+/** Parses a JSONL log, dropping a torn last line from an interrupted append. */
+export function parseLogEntries(text: string): SessionLogEntry[] {
+  const entries: SessionLogEntry[] = [];
+  for (const line of text.split('\n')) {
+    if (!line.trim()) continue;
+    try {
+      entries.push(JSON.parse(line));
+    } catch {
+      // Skip it; later lines are still intact
+    }
+  }
+  return entries;
+}
+
+/**
+ * Compacts once the log has grown as large as the session itself, so each
+ * byte is rewritten a bounded number of times however long the session gets.
+ */
+export function shouldCompactLog(logBytes: number, sessionBytes: number): boolean {
+  return logBytes > Math.max(sessionBytes, MIN_COMPACT_LOG_BYTES);
+}
@@ -0,0 +1,56 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { mergeSessionMessages } from './session-merge';
+
+interface Message {
+  id: number;
+  exchangeId?: number;
+  artifact?: { id: string };
+  text: string;
+}
+
+const msg = (id: number, text: string, extra: Partial<Message> = {}): Message => ({ id, text, ...extra });
+
+describe('mergeSessionMessages', () => {
+  it('returns the local messages when nothing changed', () => {
+    const local = [msg(1, 'a'), msg(2, 'b')];
+    const result = mergeSessionMessages([msg(1, 'a'), msg(2, 'b')], local, new Set([1, 2]));
+    assert.equal(result.messages, local);
+    assert.equal(result.pendingCount, 0);
+  });
+
+  it('appends stored messages from elsewhere and keeps the local copy of synced ones', () => {
+    const local = [msg(1, 'a', { artifact: { id: 'x.png' } })];
+    const result = mergeSessionMessages([msg(1, 'a'), msg(2, 'remote')], local, new Set([1]));
+    assert.deepEqual(result.messages, [local[0], msg(2, 'remote')]);
+    assert.equal(result.messages[0], local[0]);
+  });
+
+  it('renumbers unsaved local messages past the stored ids, exchanges included', () => {
+    const remote = [msg(1, 'a'), msg(2, 'other tab'), msg(3, 'other tab')];
+    const local = [msg(1, 'a'), msg(2, 'mine', { exchangeId: 2 }), msg(3, 'reply', { exchangeId: 2 })];
+    const result = mergeSessionMessages(remote, local, new Set([1]));
+
+    assert.deepEqual(result.messages.map((m) => [m.id, m.text, m.exchangeId]), [
+      [1, 'a', undefined],
+      [2, 'other tab', undefined],
+      [3, 'other tab', undefined],
+      [4, 'mine', 4],
+      [5, 'reply', 4],
+    ]);
+    assert.deepEqual([...result.renumbered], [[2, 4], [3, 5]]);
+    assert.equal(result.pendingCount, 2);
+  });
+
+  it('drops synced messages the stored session no longer has', () => {
+    const result = mergeSessionMessages([msg(1, 'a')], [msg(1, 'a'), msg(2, 'b')], new Set([1, 2]));
+    assert.deepEqual(result.messages.map((m) => m.id), [1]);
+  });
+
+  it('keeps the stored copy of a Photopea save both tabs picked up', () => {
+    const save = { id: 'save-1.psd' };
+    const result = mergeSessionMessages([msg(1, 'stored', { artifact: save })], [msg(5, 'local', { artifact: save })], new Set());
+    assert.deepEqual(result.messages.map((m) => m.text), ['stored']);
+    assert.equal(result.pendingCount, 0);
+  });
+});
@@ -0,0 +1,54 @@
+// Merges a session saved by another tab into this tab's messages. Message
+// ids are allocated per tab, so both may have used the same ids for
+// different messages while out of sync.
+
+export interface MergeableMessage {
+  id: number;
+  exchangeId?: number;
+  artifact?: { id: string };
+}
+
+export interface MessageMergeResult<T> {
+  messages: T[];
+  /** Old → new id of local messages that had to be renumbered. */
+  renumbered: Map<number, number>;
+  /** Local messages not yet in the stored session. */
+  pendingCount: number;
+}
+
+/**
+ * Combines the stored messages with the local ones. `synced` holds the ids of
+ * local messages known to be stored; those keep their local copy (which may
+ * carry data added since, such as an uploaded artifact). Other local messages
+ * are appended after the stored ones, renumbered past the stored ids where
+ * needed. Returns `local` itself when nothing changes.
+ */
+export function mergeSessionMessages<T extends MergeableMessage>(
+  remote: T[],
+  local: T[],
+  synced: ReadonlySet<number>
+): MessageMergeResult<T> {
+  const localById = new Map(local.map((m) => [m.id, m]));
+  const remoteArtifacts = new Set(remote.flatMap((m) => (m.artifact ? [m.artifact.id] : [])));
+  const merged = remote.map((m) => (synced.has(m.id) ? localById.get(m.id) ?? m : m));
+
+  // Both tabs may have picked up the same Photopea save; keep the stored one
+  const pending = local.filter(
+    (m) => !synced.has(m.id) && !(m.artifact && remoteArtifacts.has(m.artifact.id))
+  );
+
+  const renumbered = new Map<number, number>();
+  let nextId = Math.max(0, ...remote.map((m) => m.id));
+  for (const m of pending) {
+    if (m.id <= nextId) renumbered.set(m.id, ++nextId);
+    else nextId = m.id;
+  }
+  for (const m of pending) {
+    const id = renumbered.get(m.id) ?? m.id;
+    const exchangeId = m.exchangeId !== undefined ? renumbered.get(m.exchangeId) ?? m.exchangeId : undefined;
+    merged.push(id === m.id && exchangeId === m.exchangeId ? m : { ...m, id, exchangeId });
+  }
+
+  const unchanged = merged.length === local.length && merged.every((m, i) => m === local[i]);
+  return { messages: unchanged ? local : merged, renumbered, pendingCount: pending.length };
+}
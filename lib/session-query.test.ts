@@ -0,0 +1,105 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import type { Session } from './session';
+import {
+  appendToSummary,
+  paginateSessions,
+  parseSessionQuery,
+  SessionQueryError,
+  summarizeSession,
+  type SessionIndexEntry,
+} from './session-query';
+
+function entry(id: string, updatedAt: string, extra: Partial<Session> = {}): SessionIndexEntry {
+  return summarizeSession({ id, createdAt: updatedAt, updatedAt, messages: [], ...extra });
+}
+
+const sent = (id: number, content: string, dataType = 'script') => ({
+  id,
+  type: 'sent' as const,
+  content,
+  dataType,
+  rawString: content,
+  timestamp: '2026-01-01T00:00:00.000Z',
+});
+
+describe('summarizeSession', () => {
+  it('counts messages and errors and indexes the text in lowercase', () => {
+    const summary = summarizeSession({
+      id: 's',
+      createdAt: '2026-01-01T00:00:00.000Z',
+      updatedAt: '2026-01-01T00:00:00.000Z',
+      title: 'Resize',
+      tags: ['Batch'],
+      messages: [sent(1, 'app.activeDocument.resizeImage(10)'), { ...sent(2, 'boom', 'error'), type: 'received' }],
+    });
+    assert.equal(summary.messageCount, 2);
+    assert.equal(summary.errorCount, 1);
+    assert.deepEqual(summary.dataTypes, ['script', 'error']);
+    assert.equal(summary.preview, 'app.activeDocument.resizeImage(10)');
+    for (const text of ['resize', 'batch', 'app.activedocument.resizeimage', 'boom']) assert.ok(summary.text.includes(text));
+  });
+});
+
+describe('appendToSummary', () => {
+  it('adds appended messages once', () => {
+    const base = entry('s', '2026-01-01T00:00:00.000Z', { revision: 1 });
+    const log = { revision: 2, updatedAt: '2026-01-02T00:00:00.000Z', messages: [sent(1, 'Hello')] };
+    const updated = appendToSummary(base, log);
+    assert.equal(updated.messageCount, 1);
+    assert.equal(updated.revision, 2);
+    assert.equal(updated.preview, 'Hello');
+    assert.match(updated.text, /hello/);
+    assert.equal(appendToSummary(updated, log), updated);
+  });
+});
+
+describe('parseSessionQuery', () => {
+  it('reads filters from search params', () => {
+    const query = parseSessionQuery(new URLSearchParams('q=%20blur%20&from=2026-01-01&hasErrors=true&limit=10'));
+    assert.deepEqual(query, { q: 'blur', from: '2026-01-01', hasErrors: true, limit: 10 });
+  });
+
+  it('throws SessionQueryError for invalid values', () => {
+    for (const params of ['from=soon', 'hasErrors=yes', 'limit=0', 'limit=201', 'limit=1.5', 'cursor=nope']) {
+      assert.throws(() => parseSessionQuery(new URLSearchParams(params)), SessionQueryError, params);
+    }
+  });
+});
+
+describe('paginateSessions', () => {
+  const entries = [
+    entry('a', '2026-01-01T00:00:00.000Z'),
+    entry('b', '2026-01-03T00:00:00.000Z'),
+    entry('c', '2026-01-02T00:00:00.000Z', { pinned: true }),
+    entry('d', '2026-01-03T00:00:00.000Z'),
+    entry('e', '2026-01-05T00:00:00.000Z', { messages: [{ ...sent(1, 'x', 'timeout'), type: 'received' }] }),
+  ];
+
+  it('sorts pinned first, then newest first, then by id, and pages with cursors', () => {
+    const ids: string[] = [];
+    let cursor: string | undefined;
+    do {
+      const page = paginateSessions(entries, { limit: 2, cursor });
+      assert.equal(page.total, 5);
+      ids.push(...page.sessions.map((s) => s.id));
+      cursor = page.nextCursor ?? undefined;
+    } while (cursor);
+    assert.deepEqual(ids, ['c', 'e', 'b', 'd', 'a']);
+  });
+
+  it('keeps its place when sessions before the cursor go away', () => {
+    const first = paginateSessions(entries, { limit: 2 });
+    const rest = paginateSessions(entries.filter((e) => e.id !== 'c'), { cursor: first.nextCursor! });
+    assert.deepEqual(rest.sessions.map((s) => s.id), ['b', 'd', 'a']);
+  });
+
+  it('filters by date range, data type and errors', () => {
+    const ids = (query: Parameters<typeof paginateSessions>[1]) =>
+      paginateSessions(entries, query).sessions.map((s) => s.id);
+    assert.deepEqual(ids({ from: '2026-01-02', to: '2026-01-03' }), ['c', 'b', 'd']);
+    assert.deepEqual(ids({ hasErrors: true }), ['e']);
+    assert.deepEqual(ids({ dataType: 'timeout' }), ['e']);
+    assert.deepEqual(ids({ hasErrors: false, q: 'nothing matches' }), []);
+  });
+});
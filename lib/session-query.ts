@@ -0,0 +1,238 @@
+import type { Session, SessionLogEntry } from './session';
+import { isFailureDataType } from './exchanges';
+
+// Filtering and cursor pagination for the session list. Works on compact
+// index entries so listing never has to read full session files.
+
+export interface SessionSummary {
+  id: string;
+  createdAt: string;
+  updatedAt: string;
+  revision?: number;
+  title?: string;
+  description?: string;
+  tags?: string[];
+  pinned?: boolean;
+  messageCount: number;
+  errorCount: number;
+  /** Distinct data types of the session's messages. */
+  dataTypes: string[];
+  /** Start of the first sent script. */
+  preview?: string;
+}
+
+export interface SessionIndexEntry extends SessionSummary {
+  /** Lowercased title, description, tags and message contents, searched by `q`. */
+  text: string;
+}
+
+export interface SessionQuery {
+  /** Case-insensitive text searched for in titles, descriptions, tags and message contents. */
+  q?: string;
+  /** Only sessions updated at or after this date (ISO 8601). */
+  from?: string;
+  /** Only sessions updated at or before this date; a plain date includes the whole day. */
+  to?: string;
+  dataType?: string;
+  hasErrors?: boolean;
+  cursor?: string;
+  limit?: number;
+}
+
+export interface SessionPage {
+  sessions: SessionSummary[];
+  /** Pass as `cursor` to get the next page; null on the last page. */
+  nextCursor: string | null;
+  /** Number of sessions matching the filters, across all pages. */
+  total: number;
+}
+
+export class SessionQueryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SessionQueryError';
+  }
+}
+
+export const DEFAULT_PAGE_SIZE = 50;
+export const MAX_PAGE_SIZE = 200;
+
+// Keeps the index small when messages carry huge strings
+const MAX_INDEXED_CONTENT_LENGTH = 2000;
+const PREVIEW_LENGTH = 80;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function indexedText(messages: Session['messages']): string[] {
+  return messages.map((m) => m.content.slice(0, MAX_INDEXED_CONTENT_LENGTH));
+}
+
+export function summarizeSession(session: Session): SessionIndexEntry {
+  const firstSent = session.messages.find((m) => m.type === 'sent');
+  return {
+    id: session.id,
+    createdAt: session.createdAt,
+    updatedAt: session.updatedAt,
+    revision: session.revision,
+    title: session.title,
+    description: session.description,
+    tags: session.tags,
+    pinned: session.pinned,
+    messageCount: session.messages.length,
+    errorCount: session.messages.filter((m) => isFailureDataType(m.dataType)).length,
+    dataTypes: [...new Set(session.messages.map((m) => m.dataType))],
+    preview: firstSent?.content.slice(0, PREVIEW_LENGTH),
+    text: [
+      session.title ?? '',
+      session.description ?? '',
+      ...(session.tags ?? []),
+      ...indexedText(session.messages),
+    ].join('\n').toLowerCase(),
+  };
+}
+
+/**
+ * Updates an index entry for messages appended to the session's log, without
+ * reading the session. Entries already at or past the append are returned as is.
+ */
+export function appendToSummary(entry: SessionIndexEntry, log: SessionLogEntry): SessionIndexEntry {
+  if ((entry.revision ?? 0) >= log.revision) return entry;
+  const firstSent = log.messages.find((m) => m.type === 'sent');
+  return {
+    ...entry,
+    updatedAt: log.updatedAt,
+    revision: log.revision,
+    messageCount: entry.messageCount + log.messages.length,
+    errorCount: entry.errorCount + log.messages.filter((m) => isFailureDataType(m.dataType)).length,
+    dataTypes: [...new Set([...entry.dataTypes, ...log.messages.map((m) => m.dataType)])],
+    preview: entry.preview ?? firstSent?.content.slice(0, PREVIEW_LENGTH),
+    text: [entry.text, ...indexedText(log.messages).map((t) => t.toLowerCase())].join('\n'),
+  };
+}
+
+export function toSummary(entry: SessionIndexEntry): SessionSummary {
+  return {
+    id: entry.id,
+    createdAt: entry.createdAt,
+    updatedAt: entry.updatedAt,
+    revision: entry.revision,
+    title: entry.title,
+    description: entry.description,
+    tags: entry.tags,
+    pinned: entry.pinned,
+    messageCount: entry.messageCount,
+    errorCount: entry.errorCount,
+    dataTypes: entry.dataTypes,
+    preview: entry.preview,
+  };
+}
+
+function parseDate(value: string, name: string, endOfDay: boolean): number {
+  const time = Date.parse(value);
+  if (Number.isNaN(time)) throw new SessionQueryError(`Invalid "${name}" date: ${value}`);
+  return endOfDay && /^\d{4}-\d{2}-\d{2}$/.test(value) ? time + DAY_MS - 1 : time;
+}
+
+/** Reads a query from URL search params; throws SessionQueryError for invalid values. */
+export function parseSessionQuery(params: URLSearchParams): SessionQuery {
+  const query: SessionQuery = {};
+  const q = params.get('q')?.trim();
+  if (q) query.q = q;
+
+  for (const name of ['from', 'to'] as const) {
+    const value = params.get(name);
+    if (value) {
+      parseDate(value, name, name === 'to');
+      query[name] = value;
+    }
+  }
+
+  const dataType = params.get('dataType');
+  if (dataType) query.dataType = dataType;
+
+  const hasErrors = params.get('hasErrors');
+  if (hasErrors !== null) {
+    if (hasErrors !== 'true' && hasErrors !== 'false') {
+      throw new SessionQueryError('"hasErrors" must be true or false');
+    }
+    query.hasErrors = hasErrors === 'true';
+  }
+
+  const cursor = params.get('cursor');
+  if (cursor) {
+    decodeCursor(cursor);
+    query.cursor = cursor;
+  }
+
+  const limit = params.get('limit');
+  if (limit !== null) {
+    const n = Number(limit);
+    if (!Number.isInteger(n) || n < 1 || n > MAX_PAGE_SIZE) {
+      throw new SessionQueryError(`"limit" must be between 1 and ${MAX_PAGE_SIZE}`);
+    }
+    query.limit = n;
+  }
+
+  return query;
+}
+
+export function matchesQuery(entry: SessionIndexEntry, query: SessionQuery): boolean {
+  const updated = Date.parse(entry.updatedAt);
+  if (query.q && !entry.text.includes(query.q.toLowerCase())) return false;
+  if (query.from && updated < parseDate(query.from, 'from', false)) return false;
+  if (query.to && updated > parseDate(query.to, 'to', true)) return false;
+  if (query.dataType && !entry.dataTypes.includes(query.dataType)) return false;
+  if (query.hasErrors !== undefined && (entry.errorCount > 0) !== query.hasErrors) return false;
+  return true;
+}
+
+type CursorKey = Pick<SessionSummary, 'pinned' | 'updatedAt' | 'id'>;
+
+// Cursors point at the last session of a page by its sort key, so pages
+// stay stable while sessions before the cursor are added or deleted.
+function encodeCursor(entry: SessionSummary): string {
+  return btoa(JSON.stringify([entry.pinned ? 1 : 0, entry.updatedAt, entry.id]));
+}
+
+function decodeCursor(cursor: string): CursorKey {
+  try {
+    const value = JSON.parse(atob(cursor));
+    if (
+      Array.isArray(value) && value.length === 3 &&
+      (value[0] === 0 || value[0] === 1) &&
+      typeof value[1] === 'string' && typeof value[2] === 'string'
+    ) {
+      return { pinned: value[0] === 1, updatedAt: value[1], id: value[2] };
+    }
+  } catch {
+    // fall through
+  }
+  throw new SessionQueryError('Invalid cursor');
+}
+
+/** Pinned first, then newest first, ties broken by id. */
+function compareEntries(a: CursorKey, b: CursorKey): number {
+  return (
+    Number(!!b.pinned) - Number(!!a.pinned) ||
+    b.updatedAt.localeCompare(a.updatedAt) ||
+    a.id.localeCompare(b.id)
+  );
+}
+
+export function paginateSessions(entries: SessionIndexEntry[], query: SessionQuery): SessionPage {
+  const matching = entries.filter((e) => matchesQuery(e, query)).sort(compareEntries);
+  let start = 0;
+  if (query.cursor) {
+    const key = decodeCursor(query.cursor);
+    const after = matching.findIndex((e) => compareEntries(e, key) > 0);
+    start = after === -1 ? matching.length : after;
+  }
+
+  const limit = query.limit ?? DEFAULT_PAGE_SIZE;
+  const page = matching.slice(start, start + limit);
+  const hasMore = start + limit < matching.length;
+  return {
+    sessions: page.map(toSummary),
+    nextCursor: hasMore ? encodeCursor(page[page.length - 1]) : null,
+    total: matching.length,
+  };
+}
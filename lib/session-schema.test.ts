@@ -0,0 +1,113 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import {
+  isValidArtifactId,
+  isValidSessionId,
+  validateMessageAppend,
+  validateSession,
+  validateSessionDetails,
+} from './session-schema';
+
+const message = (id: number, extra: Record<string, unknown> = {}) => ({
+  id,
+  type: 'sent',
+  content: 'app.echoToOE(1)',
+  dataType: 'script',
+  rawString: 'app.echoToOE(1)',
+  timestamp: '2026-01-01T00:00:00.000Z',
+  ...extra,
+});
+
+const session = (extra: Record<string, unknown> = {}) => ({
+  id: 'abc_123',
+  createdAt: '2026-01-01T00:00:00.000Z',
+  updatedAt: '2026-01-02T00:00:00.000Z',
+  messages: [message(1)],
+  ...extra,
+});
+
+const fields = (result: { ok: boolean; errors?: Array<{ field: string }> }) =>
+  result.ok ? [] : result.errors!.map((e) => e.field);
+
+describe('isValidSessionId / isValidArtifactId', () => {
+  it('accepts only ids that are safe in a path', () => {
+    assert.equal(isValidSessionId('abc_123-X'), true);
+    for (const id of ['', '../x', 'a/b', 'a.b', 'x'.repeat(65), 12]) assert.equal(isValidSessionId(id), false);
+
+    assert.equal(isValidArtifactId('abc123.png'), true);
+    for (const id of ['abc123', '../a.png', 'a.PNG', 'a.png/x']) assert.equal(isValidArtifactId(id), false);
+  });
+});
+
+describe('validateSession', () => {
+  it('returns a copy with only the known fields', () => {
+    const result = validateSession(session({ title: 'T', tags: ['a'], revision: 2, extra: 'dropped' }));
+    assert.ok(result.ok);
+    assert.equal(result.value.title, 'T');
+    assert.equal(result.value.revision, 2);
+    assert.equal('extra' in result.value, false);
+    assert.equal('extra' in result.value.messages[0], false);
+  });
+
+  it('reports every invalid field with its path', () => {
+    const result = validateSession(
+      session({
+        id: '../etc',
+        updatedAt: 'yesterday',
+        revision: -1,
+        tags: 'a',
+        messages: [message(1), message(1.5, { type: 'other', artifact: { id: 'x', mimeType: 'image/png', size: -1 } })],
+      })
+    );
+    assert.deepEqual(fields(result).sort(), [
+      'id',
+      'messages[1].artifact.createdAt',
+      'messages[1].artifact.id',
+      'messages[1].artifact.size',
+      'messages[1].id',
+      'messages[1].type',
+      'revision',
+      'tags',
+      'updatedAt',
+    ]);
+  });
+
+  it('rejects anything but an object', () => {
+    for (const value of [null, [], 'session']) assert.deepEqual(fields(validateSession(value)), ['']);
+  });
+
+  it('checks visual tests and metadata', () => {
+    const test = { id: 't1', name: 'n', inputs: [], script: '', format: 'png', tolerance: 0, maxDiffRatio: 0 };
+    assert.ok(validateSession(session({ tests: [test], metadata: { imageUrls: ['a.png'] } })).ok);
+    assert.deepEqual(
+      fields(validateSession(session({ tests: [{ ...test, format: 'psd', tolerance: 300 }], metadata: { imageUrls: 'a' } }))),
+      ['tests[0].format', 'tests[0].tolerance', 'metadata.imageUrls']
+    );
+  });
+});
+
+describe('validateMessageAppend', () => {
+  it('accepts new messages with an optional revision', () => {
+    const result = validateMessageAppend({ revision: 3, messages: [message(4), message(5)] });
+    assert.ok(result.ok);
+    assert.equal(result.value.revision, 3);
+    assert.deepEqual(result.value.messages.map((m) => m.id), [4, 5]);
+  });
+
+  it('rejects empty or duplicate messages and a bad revision', () => {
+    assert.deepEqual(fields(validateMessageAppend({ messages: [] })), ['messages']);
+    assert.deepEqual(fields(validateMessageAppend({ messages: [message(1), message(1)] })), ['messages']);
+    assert.deepEqual(fields(validateMessageAppend({ revision: 'x', messages: [message(1)] })), ['revision']);
+  });
+});
+
+describe('validateSessionDetails', () => {
+  it('keeps only the fields that were given', () => {
+    assert.deepEqual(validateSessionDetails({ pinned: true }), { ok: true, value: { pinned: true } });
+  });
+
+  it('limits titles and tags', () => {
+    const result = validateSessionDetails({ title: 'x'.repeat(201), tags: Array(21).fill('t'), pinned: 'yes' });
+    assert.deepEqual(fields(result), ['title', 'tags', 'pinned']);
+  });
+});
@@ -0,0 +1,273 @@
+import type { Session, SessionArtifact, SessionDetails, SessionMessage } from './session';
+import { VISUAL_TEST_FORMATS, type VisualTest } from './visual-test';
+
+// Runtime checks for data coming into the sessions API. Ids end up in file
+// paths, so they are held to a strict format rather than merely sanitised.
+
+export interface FieldError {
+  field: string;
+  message: string;
+}
+
+export type ValidationResult<T> =
+  | { ok: true; value: T }
+  | { ok: false; errors: FieldError[] };
+
+/** Largest session body accepted by `POST /api/sessions`. */
+export const MAX_SESSION_BYTES = 10 * 1024 * 1024;
+/** Largest artifact accepted by `POST /api/sessions/{id}/artifacts`. */
+export const MAX_ARTIFACT_BYTES = 100 * 1024 * 1024;
+
+const MAX_TITLE_LENGTH = 200;
+const MAX_TAGS = 20;
+
+const SESSION_ID_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+const ARTIFACT_ID_PATTERN = /^[A-Za-z0-9_-]{1,64}\.[a-z0-9]{1,8}$/;
+
+export function isValidSessionId(id: unknown): id is string {
+  return typeof id === 'string' && SESSION_ID_PATTERN.test(id);
+}
+
+export function isValidArtifactId(id: unknown): id is string {
+  return typeof id === 'string' && ARTIFACT_ID_PATTERN.test(id);
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isDate(value: unknown): value is string {
+  return typeof value === 'string' && !Number.isNaN(Date.parse(value));
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((v) => typeof v === 'string');
+}
+
+function validateArtifact(value: unknown, field: string, errors: FieldError[]): SessionArtifact | undefined {
+  if (!isObject(value)) {
+    errors.push({ field, message: 'Must be an object' });
+    return undefined;
+  }
+  if (!isValidArtifactId(value.id)) errors.push({ field: `${field}.id`, message: 'Must be a file name like "abc123.png"' });
+  if (typeof value.mimeType !== 'string') errors.push({ field: `${field}.mimeType`, message: 'Must be a string' });
+  if (typeof value.size !== 'number' || value.size < 0) errors.push({ field: `${field}.size`, message: 'Must be a non-negative number' });
+  if (!isDate(value.createdAt)) errors.push({ field: `${field}.createdAt`, message: 'Must be an ISO 8601 date' });
+
+  return {
+    id: value.id as string,
+    mimeType: value.mimeType as string,
+    size: value.size as number,
+    createdAt: value.createdAt as string,
+  };
+}
+
+function validateMessage(value: unknown, field: string, errors: FieldError[]): SessionMessage | undefined {
+  if (!isObject(value)) {
+    errors.push({ field, message: 'Must be an object' });
+    return undefined;
+  }
+
+  if (!Number.isInteger(value.id)) errors.push({ field: `${field}.id`, message: 'Must be an integer' });
+  if (value.type !== 'sent' && value.type !== 'received') {
+    errors.push({ field: `${field}.type`, message: 'Must be "sent" or "received"' });
+  }
+  for (const key of ['content', 'dataType', 'rawString'] as const) {
+    if (typeof value[key] !== 'string') errors.push({ field: `${field}.${key}`, message: 'Must be a string' });
+  }
+  if (!isDate(value.timestamp)) errors.push({ field: `${field}.timestamp`, message: 'Must be an ISO 8601 date' });
+  if (value.exchangeId !== undefined && !Number.isInteger(value.exchangeId)) {
+    errors.push({ field: `${field}.exchangeId`, message: 'Must be an integer' });
+  }
+  if (value.format !== undefined && typeof value.format !== 'string') {
+    errors.push({ field: `${field}.format`, message: 'Must be a string' });
+  }
+
+  const message: SessionMessage = {
+    id: value.id as number,
+    type: value.type as SessionMessage['type'],
+    content: value.content as string,
+    dataType: value.dataType as string,
+    timestamp: value.timestamp as string,
+    rawString: value.rawString as string,
+  };
+  if (value.exchangeId !== undefined) message.exchangeId = value.exchangeId as number;
+  if (value.artifact !== undefined) message.artifact = validateArtifact(value.artifact, `${field}.artifact`, errors);
+  if (value.format !== undefined) message.format = value.format as string;
+  return message;
+}
+
+/** Checks a `POST /api/sessions/{id}/messages` body: `{ revision?, messages }`. */
+export function validateMessageAppend(
+  value: unknown
+): ValidationResult<{ revision?: number; messages: SessionMessage[] }> {
+  if (!isObject(value)) {
+    return { ok: false, errors: [{ field: '', message: 'Body must be a JSON object' }] };
+  }
+
+  const errors: FieldError[] = [];
+  let messages: SessionMessage[] = [];
+  if (Array.isArray(value.messages) && value.messages.length > 0) {
+    messages = value.messages
+      .map((m, i) => validateMessage(m, `messages[${i}]`, errors))
+      .filter((m): m is SessionMessage => m !== undefined);
+  } else {
+    errors.push({ field: 'messages', message: 'Must be a non-empty array' });
+  }
+  if (new Set(messages.map((m) => m.id)).size !== messages.length) {
+    errors.push({ field: 'messages', message: 'Message ids must be unique' });
+  }
+  if (value.revision !== undefined && !(Number.isInteger(value.revision) && (value.revision as number) >= 0)) {
+    errors.push({ field: 'revision', message: 'Must be a non-negative integer' });
+  }
+
+  if (errors.length > 0) return { ok: false, errors };
+  return { ok: true, value: { revision: value.revision as number | undefined, messages } };
+}
+
+/** Checks the editable fields present on `value` and copies them into a new object. */
+function validateDetails(value: Record<string, unknown>, errors: FieldError[]): SessionDetails {
+  const details: SessionDetails = {};
+  if (value.title !== undefined) {
+    if (typeof value.title === 'string' && value.title.length <= MAX_TITLE_LENGTH) details.title = value.title;
+    else errors.push({ field: 'title', message: `Must be a string of at most ${MAX_TITLE_LENGTH} characters` });
+  }
+  if (value.description !== undefined) {
+    if (typeof value.description === 'string') details.description = value.description;
+    else errors.push({ field: 'description', message: 'Must be a string' });
+  }
+  if (value.tags !== undefined) {
+    if (isStringArray(value.tags) && value.tags.length <= MAX_TAGS) details.tags = value.tags;
+    else errors.push({ field: 'tags', message: `Must be a list of at most ${MAX_TAGS} strings` });
+  }
+  if (value.pinned !== undefined) {
+    if (typeof value.pinned === 'boolean') details.pinned = value.pinned;
+    else errors.push({ field: 'pinned', message: 'Must be true or false' });
+  }
+  return details;
+}
+
+/** Checks a partial update of a session's title, description, tags and pinned flag. */
+export function validateSessionDetails(value: unknown): ValidationResult<SessionDetails> {
+  if (!isObject(value)) {
+    return { ok: false, errors: [{ field: '', message: 'Details must be a JSON object' }] };
+  }
+  const errors: FieldError[] = [];
+  const details = validateDetails(value, errors);
+  return errors.length > 0 ? { ok: false, errors } : { ok: true, value: details };
+}
+
+function validateTest(value: unknown, field: string, errors: FieldError[]): VisualTest | undefined {
+  if (!isObject(value)) {
+    errors.push({ field, message: 'Must be an object' });
+    return undefined;
+  }
+
+  if (!isValidSessionId(value.id)) errors.push({ field: `${field}.id`, message: 'Must be 1-64 letters, digits, "_" or "-"' });
+  for (const key of ['name', 'script'] as const) {
+    if (typeof value[key] !== 'string') errors.push({ field: `${field}.${key}`, message: 'Must be a string' });
+  }
+  if (!isStringArray(value.inputs)) errors.push({ field: `${field}.inputs`, message: 'Must be a list of strings' });
+  if (typeof value.format !== 'string' || !VISUAL_TEST_FORMATS.includes(value.format)) {
+    errors.push({ field: `${field}.format`, message: `Must be one of ${VISUAL_TEST_FORMATS.join(', ')}` });
+  }
+  if (typeof value.tolerance !== 'number' || value.tolerance < 0 || value.tolerance > 255) {
+    errors.push({ field: `${field}.tolerance`, message: 'Must be a number from 0 to 255' });
+  }
+  if (typeof value.maxDiffRatio !== 'number' || value.maxDiffRatio < 0 || value.maxDiffRatio > 1) {
+    errors.push({ field: `${field}.maxDiffRatio`, message: 'Must be a number from 0 to 1' });
+  }
+
+  const test: VisualTest = {
+    id: value.id as string,
+    name: value.name as string,
+    inputs: value.inputs as string[],
+    script: value.script as string,
+    format: value.format as string,
+    tolerance: value.tolerance as number,
+    maxDiffRatio: value.maxDiffRatio as number,
+  };
+  if (value.golden !== undefined) test.golden = validateArtifact(value.golden, `${field}.golden`, errors);
+  return test;
+}
+
+function validateMetadata(value: unknown, errors: FieldError[]): Session['metadata'] {
+  if (!isObject(value)) {
+    errors.push({ field: 'metadata', message: 'Must be an object' });
+    return undefined;
+  }
+
+  const metadata: NonNullable<Session['metadata']> = {};
+  if (value.imageUrls !== undefined) {
+    if (isStringArray(value.imageUrls)) metadata.imageUrls = value.imageUrls;
+    else errors.push({ field: 'metadata.imageUrls', message: 'Must be a list of strings' });
+  }
+  if (value.photopeaSrc !== undefined) {
+    if (typeof value.photopeaSrc === 'string') metadata.photopeaSrc = value.photopeaSrc;
+    else errors.push({ field: 'metadata.photopeaSrc', message: 'Must be a string' });
+  }
+  if (value.config !== undefined) {
+    // Saved while being edited, so only its shape is checked here
+    if (isObject(value.config)) metadata.config = value.config;
+    else errors.push({ field: 'metadata.config', message: 'Must be an object' });
+  }
+  return metadata;
+}
+
+/**
+ * Checks an untrusted value against the `Session` type. On success returns a
+ * copy holding only the known fields; otherwise every problem found.
+ */
+export function validateSession(value: unknown): ValidationResult<Session> {
+  const errors: FieldError[] = [];
+  if (!isObject(value)) {
+    return { ok: false, errors: [{ field: '', message: 'Session must be a JSON object' }] };
+  }
+
+  if (!isValidSessionId(value.id)) {
+    errors.push({ field: 'id', message: 'Must be 1-64 letters, digits, "_" or "-"' });
+  }
+  if (!isDate(value.createdAt)) errors.push({ field: 'createdAt', message: 'Must be an ISO 8601 date' });
+  if (!isDate(value.updatedAt)) errors.push({ field: 'updatedAt', message: 'Must be an ISO 8601 date' });
+
+  let messages: SessionMessage[] = [];
+  if (Array.isArray(value.messages)) {
+    messages = value.messages
+      .map((m, i) => validateMessage(m, `messages[${i}]`, errors))
+      .filter((m): m is SessionMessage => m !== undefined);
+  } else {
+    errors.push({ field: 'messages', message: 'Must be an array' });
+  }
+
+  const session: Session = {
+    id: value.id as string,
+    createdAt: value.createdAt as string,
+    updatedAt: value.updatedAt as string,
+    ...validateDetails(value, errors),
+    messages,
+  };
+  if (value.revision !== undefined) {
+    if (Number.isInteger(value.revision) && (value.revision as number) >= 0) session.revision = value.revision as number;
+    else errors.push({ field: 'revision', message: 'Must be a non-negative integer' });
+  }
+  if (value.forkedFrom !== undefined) {
+    const forkedFrom = value.forkedFrom;
+    if (isObject(forkedFrom) && isValidSessionId(forkedFrom.sessionId) && Number.isInteger(forkedFrom.messageId)) {
+      session.forkedFrom = { sessionId: forkedFrom.sessionId, messageId: forkedFrom.messageId as number };
+    } else {
+      errors.push({ field: 'forkedFrom', message: 'Must be { sessionId, messageId }' });
+    }
+  }
+  if (value.tests !== undefined) {
+    if (Array.isArray(value.tests)) {
+      session.tests = value.tests
+        .map((t, i) => validateTest(t, `tests[${i}]`, errors))
+        .filter((t): t is VisualTest => t !== undefined);
+    } else {
+      errors.push({ field: 'tests', message: 'Must be an array' });
+    }
+  }
+  if (value.metadata !== undefined) session.metadata = validateMetadata(value.metadata, errors);
+
+  return errors.length > 0 ? { ok: false, errors } : { ok: true, value: session };
+}
@@ -0,0 +1,247 @@
+import { nanoid } from 'nanoid';
+import fs from 'fs/promises';
+import path from 'path';
+import type { Session, SessionArtifact, SessionLogEntry } from './session';
+import type { SessionStore } from './session-store';
+import { formatFromExtension } from './file-format';
+import { applyLogEntries, formatLogEntry, parseLogEntries, shouldCompactLog } from './session-log';
+import {
+  appendToSummary,
+  paginateSessions,
+  summarizeSession,
+  type SessionIndexEntry,
+  type SessionPage,
+  type SessionQuery,
+} from './session-query';
+import { isValidArtifactId, isValidSessionId } from './session-schema';
+
+// Stores each session as `{id}.json` plus appended messages in `{id}.log.jsonl`,
+// and its artifacts under `{id}/`, with a summary index so listing does not
+// parse every session file.
+
+export const DEFAULT_SESSIONS_DIR = path.join(process.cwd(), '.sessions');
+// Bumped whenever index entries change shape, which rebuilds the index
+const INDEX_VERSION = 3;
+
+interface SessionIndex {
+  version: number;
+  sessions: Record<string, SessionIndexEntry>;
+}
+
+function mimeTypeForArtifact(artifactId: string): string {
+  return formatFromExtension(path.extname(artifactId))?.mimeType ?? 'application/octet-stream';
+}
+
+/** Writes via a temp file and rename, so readers never see a half-written file. */
+async function writeFileAtomic(filePath: string, data: string | Buffer): Promise<void> {
+  const tempPath = path.join(path.dirname(filePath), `.${path.basename(filePath)}.${nanoid(8)}.tmp`);
+  try {
+    await fs.writeFile(tempPath, data);
+    await fs.rename(tempPath, filePath);
+  } catch (error) {
+    await fs.rm(tempPath, { force: true });
+    throw error;
+  }
+}
+
+export class FileSessionStore implements SessionStore {
+  readonly kind = 'fs' as const;
+  private indexFile: string;
+  // Index access is read-modify-write, so run it one caller at a time
+  private indexQueue: Promise<unknown> = Promise.resolve();
+
+  constructor(private dir: string = DEFAULT_SESSIONS_DIR) {
+    this.indexFile = path.join(dir, '.index.json');
+  }
+
+  // Ids become file names, so refuse anything that could point elsewhere
+  private sessionFile(sessionId: string): string {
+    if (!isValidSessionId(sessionId)) throw new Error(`Invalid session id: ${sessionId}`);
+    return path.join(this.dir, `${sessionId}.json`);
+  }
+
+  private logFile(sessionId: string): string {
+    if (!isValidSessionId(sessionId)) throw new Error(`Invalid session id: ${sessionId}`);
+    return path.join(this.dir, `${sessionId}.log.jsonl`);
+  }
+
+  private artifactsDir(sessionId: string): string {
+    if (!isValidSessionId(sessionId)) throw new Error(`Invalid session id: ${sessionId}`);
+    return path.join(this.dir, sessionId);
+  }
+
+  private async sessionFileIds(): Promise<string[]> {
+    await fs.mkdir(this.dir, { recursive: true });
+    const files = await fs.readdir(this.dir);
+    return files
+      .filter((f) => f.endsWith('.json'))
+      .map((f) => f.slice(0, -5))
+      .filter(isValidSessionId);
+  }
+
+  private async readSessionFiles(ids: string[]): Promise<Session[]> {
+    const sessions: Session[] = [];
+    for (const id of ids) {
+      const session = await this.loadSession(id);
+      if (session) sessions.push(session);
+    }
+    return sessions;
+  }
+
+  private async readIndex(): Promise<SessionIndex> {
+    let index: SessionIndex = { version: INDEX_VERSION, sessions: {} };
+    try {
+      const stored: SessionIndex = JSON.parse(await fs.readFile(this.indexFile, 'utf-8'));
+      if (stored.version === INDEX_VERSION) index = stored;
+    } catch {
+      // Missing or unreadable: rebuilt below
+    }
+
+    // Pick up session files written or removed behind our back
+    const ids = await this.sessionFileIds();
+    const known = new Set(ids);
+    let changed = false;
+    for (const id of Object.keys(index.sessions)) {
+      if (!known.has(id)) {
+        delete index.sessions[id];
+        changed = true;
+      }
+    }
+    for (const session of await this.readSessionFiles(ids.filter((id) => !index.sessions[id]))) {
+      index.sessions[session.id] = summarizeSession(session);
+      changed = true;
+    }
+
+    if (changed) await this.writeIndex(index);
+    return index;
+  }
+
+  private async writeIndex(index: SessionIndex): Promise<void> {
+    await writeFileAtomic(this.indexFile, JSON.stringify(index));
+  }
+
+  private withIndex<T>(fn: (index: SessionIndex) => Promise<T> | T): Promise<T> {
+    const next = this.indexQueue.then(async () => fn(await this.readIndex()));
+    this.indexQueue = next.catch(() => undefined);
+    return next;
+  }
+
+  private updateIndex(update: (index: SessionIndex) => void): Promise<void> {
+    return this.withIndex(async (index) => {
+      update(index);
+      await this.writeIndex(index);
+    });
+  }
+
+  async saveSession(session: Session): Promise<void> {
+    const filePath = this.sessionFile(session.id);
+    await fs.mkdir(this.dir, { recursive: true });
+    await writeFileAtomic(filePath, JSON.stringify(session, null, 2));
+    // The full save holds every logged message, and its revision makes
+    // leftovers from a failed removal harmless
+    await fs.rm(this.logFile(session.id), { force: true });
+    await this.updateIndex((index) => {
+      index.sessions[session.id] = summarizeSession(session);
+    });
+  }
+
+  async loadSession(sessionId: string): Promise<Session | null> {
+    let session: Session;
+    try {
+      session = JSON.parse(await fs.readFile(this.sessionFile(sessionId), 'utf-8'));
+    } catch {
+      return null;
+    }
+    try {
+      return applyLogEntries(session, parseLogEntries(await fs.readFile(this.logFile(sessionId), 'utf-8')));
+    } catch {
+      // No appends since the last full save
+      return session;
+    }
+  }
+
+  async appendMessages(sessionId: string, entry: SessionLogEntry): Promise<void> {
+    const sessionFile = this.sessionFile(sessionId);
+    const logFile = this.logFile(sessionId);
+    await fs.appendFile(logFile, formatLogEntry(entry));
+    await this.updateIndex((index) => {
+      const summary = index.sessions[sessionId];
+      if (summary) index.sessions[sessionId] = appendToSummary(summary, entry);
+    });
+
+    const [log, base] = await Promise.all([fs.stat(logFile), fs.stat(sessionFile)]);
+    if (!shouldCompactLog(log.size, base.size)) return;
+    const session = await this.loadSession(sessionId);
+    if (!session) return;
+    await writeFileAtomic(sessionFile, JSON.stringify(session, null, 2));
+    await fs.rm(logFile, { force: true });
+  }
+
+  async deleteSession(sessionId: string): Promise<boolean> {
+    try {
+      await fs.unlink(this.sessionFile(sessionId));
+      await fs.rm(this.logFile(sessionId), { force: true });
+      await fs.rm(this.artifactsDir(sessionId), { recursive: true, force: true });
+      await this.updateIndex((index) => {
+        delete index.sessions[sessionId];
+      });
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  querySessions(query: SessionQuery): Promise<SessionPage> {
+    return this.withIndex((index) => paginateSessions(Object.values(index.sessions), query));
+  }
+
+  async listSessions(): Promise<Session[]> {
+    try {
+      const sessions = await this.readSessionFiles(await this.sessionFileIds());
+
+      // Sort by updatedAt descending
+      return sessions.sort((a, b) =>
+        new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime()
+      );
+    } catch {
+      return [];
+    }
+  }
+
+  async saveArtifact(sessionId: string, artifact: SessionArtifact, data: Buffer): Promise<void> {
+    await fs.mkdir(this.artifactsDir(sessionId), { recursive: true });
+    await writeFileAtomic(path.join(this.artifactsDir(sessionId), artifact.id), data);
+  }
+
+  async loadArtifact(sessionId: string, artifactId: string): Promise<Buffer | null> {
+    if (!isValidArtifactId(artifactId)) return null;
+    try {
+      return await fs.readFile(path.join(this.artifactsDir(sessionId), artifactId));
+    } catch {
+      return null;
+    }
+  }
+
+  async listArtifacts(sessionId: string): Promise<SessionArtifact[]> {
+    try {
+      const files = await fs.readdir(this.artifactsDir(sessionId));
+      const artifacts: SessionArtifact[] = [];
+
+      for (const file of files) {
+        // Skips temp files from writes in progress
+        if (!isValidArtifactId(file)) continue;
+        const stat = await fs.stat(path.join(this.artifactsDir(sessionId), file));
+        artifacts.push({
+          id: file,
+          mimeType: mimeTypeForArtifact(file),
+          size: stat.size,
+          createdAt: stat.birthtime.toISOString(),
+        });
+      }
+
+      return artifacts.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+    } catch {
+      return [];
+    }
+  }
+}
@@ -0,0 +1,61 @@
+import type { Session, SessionArtifact, SessionLogEntry } from './session';
+import type { SessionStore } from './session-store';
+import { paginateSessions, summarizeSession, type SessionPage, type SessionQuery } from './session-query';
+
+// Keeps everything in process memory; nothing survives a restart. Handy for
+// tests, demos and read-only deployments.
+
+export class MemorySessionStore implements SessionStore {
+  readonly kind = 'memory' as const;
+  private sessions = new Map<string, Session>();
+  private artifacts = new Map<string, Map<string, { artifact: SessionArtifact; data: Buffer }>>();
+
+  async saveSession(session: Session): Promise<void> {
+    // Copy so later changes by the caller do not leak into the store
+    this.sessions.set(session.id, structuredClone(session));
+  }
+
+  async loadSession(sessionId: string): Promise<Session | null> {
+    const session = this.sessions.get(sessionId);
+    return session ? structuredClone(session) : null;
+  }
+
+  // Nothing is rewritten in memory, so appends go straight into the session
+  async appendMessages(sessionId: string, entry: SessionLogEntry): Promise<void> {
+    const session = this.sessions.get(sessionId);
+    if (!session) throw new Error(`Session not found: ${sessionId}`);
+    session.messages.push(...structuredClone(entry.messages));
+    session.revision = entry.revision;
+    session.updatedAt = entry.updatedAt;
+  }
+
+  async deleteSession(sessionId: string): Promise<boolean> {
+    this.artifacts.delete(sessionId);
+    return this.sessions.delete(sessionId);
+  }
+
+  async querySessions(query: SessionQuery): Promise<SessionPage> {
+    return paginateSessions([...this.sessions.values()].map(summarizeSession), query);
+  }
+
+  async listSessions(): Promise<Session[]> {
+    return [...this.sessions.values()]
+      .map((s) => structuredClone(s))
+      .sort((a, b) => new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime());
+  }
+
+  async saveArtifact(sessionId: string, artifact: SessionArtifact, data: Buffer): Promise<void> {
+    if (!this.artifacts.has(sessionId)) this.artifacts.set(sessionId, new Map());
+    this.artifacts.get(sessionId)!.set(artifact.id, { artifact, data: Buffer.from(data) });
+  }
+
+  async loadArtifact(sessionId: string, artifactId: string): Promise<Buffer | null> {
+    return this.artifacts.get(sessionId)?.get(artifactId)?.data ?? null;
+  }
+
+  async listArtifacts(sessionId: string): Promise<SessionArtifact[]> {
+    return [...(this.artifacts.get(sessionId)?.values() ?? [])]
+      .map((a) => a.artifact)
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  }
+}
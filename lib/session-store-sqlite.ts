@@ -0,0 +1,162 @@
+import Database from 'better-sqlite3';
+import fs from 'fs';
+import path from 'path';
+import type { Session, SessionArtifact, SessionLogEntry } from './session';
+import type { SessionStore } from './session-store';
+import { applyLogEntries, shouldCompactLog } from './session-log';
+import {
+  appendToSummary,
+  paginateSessions,
+  summarizeSession,
+  type SessionIndexEntry,
+  type SessionPage,
+  type SessionQuery,
+} from './session-query';
+
+// Keeps sessions and artifacts in one SQLite file, `SESSION_SQLITE_PATH`
+// (default `.sessions/sessions.db`). Each row stores the session JSON next to
+// its index entry, so listing only reads the small summaries. Appended
+// messages go to `session_log` until they are compacted into the row.
+
+export const DEFAULT_SQLITE_PATH = path.join(process.cwd(), '.sessions', 'sessions.db');
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS sessions (
+    id TEXT PRIMARY KEY,
+    updated_at TEXT NOT NULL,
+    data TEXT NOT NULL,
+    summary TEXT NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS artifacts (
+    session_id TEXT NOT NULL,
+    id TEXT NOT NULL,
+    mime_type TEXT NOT NULL,
+    size INTEGER NOT NULL,
+    created_at TEXT NOT NULL,
+    data BLOB NOT NULL,
+    PRIMARY KEY (session_id, id)
+  );
+  CREATE TABLE IF NOT EXISTS session_log (
+    session_id TEXT NOT NULL,
+    revision INTEGER NOT NULL,
+    data TEXT NOT NULL,
+    PRIMARY KEY (session_id, revision)
+  );
+`;
+
+interface ArtifactRow {
+  id: string;
+  mime_type: string;
+  size: number;
+  created_at: string;
+}
+
+function toArtifact(row: ArtifactRow): SessionArtifact {
+  return { id: row.id, mimeType: row.mime_type, size: row.size, createdAt: row.created_at };
+}
+
+export class SqliteSessionStore implements SessionStore {
+  readonly kind = 'sqlite' as const;
+  private db: Database.Database;
+
+  constructor(file: string = process.env.SESSION_SQLITE_PATH || DEFAULT_SQLITE_PATH) {
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    this.db = new Database(file);
+    this.db.pragma('journal_mode = WAL');
+    this.db.exec(SCHEMA);
+  }
+
+  private writeSession(session: Session): void {
+    this.db
+      .prepare(
+        `INSERT INTO sessions (id, updated_at, data, summary) VALUES (?, ?, ?, ?)
+         ON CONFLICT (id) DO UPDATE SET updated_at = excluded.updated_at, data = excluded.data, summary = excluded.summary`
+      )
+      .run(session.id, session.updatedAt, JSON.stringify(session), JSON.stringify(summarizeSession(session)));
+    this.db.prepare('DELETE FROM session_log WHERE session_id = ?').run(session.id);
+  }
+
+  private readSession(data: string): Session {
+    const session: Session = JSON.parse(data);
+    const rows = this.db
+      .prepare('SELECT data FROM session_log WHERE session_id = ? ORDER BY revision')
+      .all(session.id) as { data: string }[];
+    return applyLogEntries(session, rows.map((row) => JSON.parse(row.data)));
+  }
+
+  async saveSession(session: Session): Promise<void> {
+    this.db.transaction(() => this.writeSession(session))();
+  }
+
+  async loadSession(sessionId: string): Promise<Session | null> {
+    const row = this.db.prepare('SELECT data FROM sessions WHERE id = ?').get(sessionId) as { data: string } | undefined;
+    return row ? this.readSession(row.data) : null;
+  }
+
+  async appendMessages(sessionId: string, entry: SessionLogEntry): Promise<void> {
+    this.db.transaction(() => {
+      const row = this.db
+        .prepare('SELECT length(data) AS size, summary FROM sessions WHERE id = ?')
+        .get(sessionId) as { size: number; summary: string } | undefined;
+      if (!row) throw new Error(`Session not found: ${sessionId}`);
+
+      this.db
+        .prepare('INSERT INTO session_log (session_id, revision, data) VALUES (?, ?, ?)')
+        .run(sessionId, entry.revision, JSON.stringify(entry));
+      this.db
+        .prepare('UPDATE sessions SET updated_at = ?, summary = ? WHERE id = ?')
+        .run(entry.updatedAt, JSON.stringify(appendToSummary(JSON.parse(row.summary), entry)), sessionId);
+
+      const log = this.db
+        .prepare('SELECT sum(length(data)) AS size FROM session_log WHERE session_id = ?')
+        .get(sessionId) as { size: number };
+      if (shouldCompactLog(log.size, row.size)) {
+        const { data } = this.db.prepare('SELECT data FROM sessions WHERE id = ?').get(sessionId) as { data: string };
+        this.writeSession(this.readSession(data));
+      }
+    })();
+  }
+
+  async deleteSession(sessionId: string): Promise<boolean> {
+    const remove = this.db.transaction((id: string) => {
+      this.db.prepare('DELETE FROM artifacts WHERE session_id = ?').run(id);
+      this.db.prepare('DELETE FROM session_log WHERE session_id = ?').run(id);
+      return this.db.prepare('DELETE FROM sessions WHERE id = ?').run(id).changes > 0;
+    });
+    return remove(sessionId);
+  }
+
+  async querySessions(query: SessionQuery): Promise<SessionPage> {
+    const rows = this.db.prepare('SELECT summary FROM sessions').all() as { summary: string }[];
+    const entries: SessionIndexEntry[] = rows.map((row) => JSON.parse(row.summary));
+    return paginateSessions(entries, query);
+  }
+
+  async listSessions(): Promise<Session[]> {
+    const rows = this.db.prepare('SELECT data FROM sessions ORDER BY updated_at DESC').all() as { data: string }[];
+    return rows.map((row) => this.readSession(row.data));
+  }
+
+  async saveArtifact(sessionId: string, artifact: SessionArtifact, data: Buffer): Promise<void> {
+    this.db
+      .prepare(
+        `INSERT OR REPLACE INTO artifacts (session_id, id, mime_type, size, created_at, data)
+         VALUES (?, ?, ?, ?, ?, ?)`
+      )
+      .run(sessionId, artifact.id, artifact.mimeType, artifact.size, artifact.createdAt, data);
+  }
+
+  async loadArtifact(sessionId: string, artifactId: string): Promise<Buffer | null> {
+    const row = this.db
+      .prepare('SELECT data FROM artifacts WHERE session_id = ? AND id = ?')
+      .get(sessionId, artifactId) as { data: Buffer } | undefined;
+    return row?.data ?? null;
+  }
+
+  async listArtifacts(sessionId: string): Promise<SessionArtifact[]> {
+    const rows = this.db
+      .prepare('SELECT id, mime_type, size, created_at FROM artifacts WHERE session_id = ? ORDER BY created_at')
+      .all(sessionId) as ArtifactRow[];
+    return rows.map(toArtifact);
+  }
+}
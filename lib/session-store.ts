@@ -0,0 +1,71 @@
+import type { Session, SessionArtifact, SessionLogEntry } from './session';
+import type { SessionPage, SessionQuery } from './session-query';
+
+// Where sessions and their artifacts are kept. `lib/session.ts` is the only
+// caller; it validates ids and builds artifact metadata before handing data
+// to the store, so stores only persist and query.
+
+export type SessionStoreKind = 'fs' | 'sqlite' | 'memory';
+
+export const SESSION_STORE_KINDS: SessionStoreKind[] = ['fs', 'sqlite', 'memory'];
+
+export interface SessionStore {
+  readonly kind: SessionStoreKind;
+  /** Stores the session in full, replacing its message log. */
+  saveSession(session: Session): Promise<void>;
+  /** The last full save with any logged appends applied. */
+  loadSession(sessionId: string): Promise<Session | null>;
+  /**
+   * Adds messages to an existing session's log without rewriting the session;
+   * stores compact the log into the session from time to time.
+   */
+  appendMessages(sessionId: string, entry: SessionLogEntry): Promise<void>;
+  /** Also removes the session's artifacts; false if there was no such session. */
+  deleteSession(sessionId: string): Promise<boolean>;
+  querySessions(query: SessionQuery): Promise<SessionPage>;
+  /** Every session in full, newest first. */
+  listSessions(): Promise<Session[]>;
+  saveArtifact(sessionId: string, artifact: SessionArtifact, data: Buffer): Promise<void>;
+  loadArtifact(sessionId: string, artifactId: string): Promise<Buffer | null>;
+  listArtifacts(sessionId: string): Promise<SessionArtifact[]>;
+}
+
+export function isSessionStoreKind(value: unknown): value is SessionStoreKind {
+  return SESSION_STORE_KINDS.includes(value as SessionStoreKind);
+}
+
+/** The store kind chosen with the `SESSION_STORE` env var; `fs` by default. */
+export function getSessionStoreKind(): SessionStoreKind {
+  const kind = process.env.SESSION_STORE || 'fs';
+  if (!isSessionStoreKind(kind)) {
+    throw new Error(`Unknown SESSION_STORE "${kind}", expected one of ${SESSION_STORE_KINDS.join(', ')}`);
+  }
+  return kind;
+}
+
+export async function createSessionStore(kind: SessionStoreKind): Promise<SessionStore> {
+  // Imported on demand so the SQLite driver is only loaded when it is used
+  switch (kind) {
+    case 'sqlite': {
+      const { SqliteSessionStore } = await import('./session-store-sqlite');
+      return new SqliteSessionStore();
+    }
+    case 'memory': {
+      const { MemorySessionStore } = await import('./session-store-memory');
+      return new MemorySessionStore();
+    }
+    default: {
+      const { FileSessionStore } = await import('./session-store-fs');
+      return new FileSessionStore();
+    }
+  }
+}
+
+// Kept on globalThis so every route (and dev reloads) share one store; the
+// in-memory store would otherwise be empty for each of them.
+const globalStore = globalThis as typeof globalThis & { __sessionStore?: Promise<SessionStore> };
+
+export function getSessionStore(): Promise<SessionStore> {
+  globalStore.__sessionStore ??= createSessionStore(getSessionStoreKind());
+  return globalStore.__sessionStore;
+}
@@ -1,78 +1,298 @@
 import { nanoid } from 'nanoid';
-import fs from 'fs/promises';
-import path from 'path';
+import { formatFromExtension, formatFromMimeType, sniffFormat } from './file-format';
+import type { PhotopeaConfig } from './photopea-config';
+import type { SessionPage, SessionQuery } from './session-query';
+import type { VisualTest } from './visual-test';
+import { isValidArtifactId, isValidSessionId } from './session-schema';
+import { getSessionStore } from './session-store';
+import { publishSessionChange } from './session-events';
+
+export interface SessionArtifact {
+  /** File name including its extension; the fs store keeps it under `.sessions/{sessionId}/`. */
+  id: string;
+  mimeType: string;
+  size: number;
+  createdAt: string;
+}
 
 export interface SessionMessage {
   id: number;
   type: "sent" | "received";
+  /** Id of the sent message this message belongs to (set on both sides of an exchange). */
+  exchangeId?: number;
   content: string;
   dataType: string;
   timestamp: string;
   rawString: string;
+  /** Binary output, or the file a sent `file` message opened, stored next to the session file. */
+  artifact?: SessionArtifact;
+  /** Detected file format of a binary output, e.g. `png` or `psd`. */
+  format?: string;
 }
 
 export interface Session {
   id: string;
   createdAt: string;
   updatedAt: string;
+  /**
+   * Incremented by every save. A save must carry the revision it was based
+   * on; sessions saved before revisions existed count as revision 0.
+   */
+  revision?: number;
+  title?: string;
+  description?: string;
+  tags?: string[];
+  /** Pinned sessions are listed before all others. */
+  pinned?: boolean;
+  /** Set on sessions created with "Fork from here". */
+  forkedFrom?: {
+    sessionId: string;
+    /** Last message copied from the original session. */
+    messageId: number;
+  };
   messages: SessionMessage[];
+  /** Golden-image test cases; their goldens are artifacts of this session. */
+  tests?: VisualTest[];
   metadata?: {
     imageUrls?: string[];
     photopeaSrc?: string;
+    /** The hash config `photopeaSrc` was built from, including `files`. */
+    config?: PhotopeaConfig;
   };
 }
 
-const SESSIONS_DIR = path.join(process.cwd(), '.sessions');
+/** One batch of messages appended to a stored session's log. */
+export interface SessionLogEntry {
+  /** Revision of the session after this append. */
+  revision: number;
+  updatedAt: string;
+  messages: SessionMessage[];
+}
+
+/** The user-editable descriptive fields of a session. */
+export type SessionDetails = Pick<Session, 'title' | 'description' | 'tags' | 'pinned'>;
+
+/** Thrown when a save is based on an older revision than the stored one. */
+export class SessionConflictError extends Error {
+  constructor(public current: Session) {
+    super(`Session ${current.id} is at revision ${current.revision ?? 0}`);
+    this.name = 'SessionConflictError';
+  }
+}
+
+// Sessions are persisted by the store selected with SESSION_STORE (see
+// lib/session-store.ts). Ids are checked here, before any store sees them.
+
+function assertSessionId(sessionId: string): void {
+  if (!isValidSessionId(sessionId)) throw new Error(`Invalid session id: ${sessionId}`);
+}
 
 export function generateSessionId(): string {
   return nanoid(16);
 }
 
-export async function saveSession(session: Session): Promise<void> {
-  await fs.mkdir(SESSIONS_DIR, { recursive: true });
-  const filePath = path.join(SESSIONS_DIR, `${session.id}.json`);
-  await fs.writeFile(filePath, JSON.stringify(session, null, 2), 'utf-8');
+// Revision checks are read-modify-write, so writes to one session run one at
+// a time. On globalThis so every route shares the same queue, like the store.
+const globalLocks = globalThis as typeof globalThis & { __sessionLocks?: Map<string, Promise<unknown>> };
+
+function withSessionLock<T>(sessionId: string, fn: () => Promise<T>): Promise<T> {
+  const sessionLocks = (globalLocks.__sessionLocks ??= new Map());
+  const next = (sessionLocks.get(sessionId) ?? Promise.resolve()).then(fn);
+  const settled = next.catch(() => undefined);
+  sessionLocks.set(sessionId, settled);
+  settled.then(() => {
+    if (sessionLocks.get(sessionId) === settled) sessionLocks.delete(sessionId);
+  });
+  return next;
 }
 
-export async function loadSession(sessionId: string): Promise<Session | null> {
-  try {
-    const filePath = path.join(SESSIONS_DIR, `${sessionId}.json`);
-    const data = await fs.readFile(filePath, 'utf-8');
-    return JSON.parse(data);
-  } catch {
-    return null;
+async function writeSession(session: Session, clientId?: string): Promise<Session> {
+  const store = await getSessionStore();
+  const current = await store.loadSession(session.id);
+  if (current && (session.revision ?? 0) !== (current.revision ?? 0)) {
+    throw new SessionConflictError(current);
   }
+
+  const saved: Session = { ...session, revision: current ? (current.revision ?? 0) + 1 : 1 };
+  await store.saveSession(saved);
+  publishSessionChange({ sessionId: saved.id, revision: saved.revision!, updatedAt: saved.updatedAt, clientId });
+  return saved;
+}
+
+/**
+ * Saves a session and returns it with its new revision. Sessions that already
+ * exist must carry the stored revision, otherwise SessionConflictError is thrown.
+ */
+export async function saveSession(
+  session: Session,
+  options: { clientId?: string } = {}
+): Promise<Session> {
+  assertSessionId(session.id);
+  return withSessionLock(session.id, () => writeSession(session, options.clientId));
+}
+
+/**
+ * Appends messages to a stored session without rewriting it and returns the
+ * new revision, or null if the session does not exist. With `revision` given,
+ * or when a message id is already taken, throws SessionConflictError so the
+ * caller can merge and retry.
+ */
+export async function appendMessages(
+  sessionId: string,
+  messages: SessionMessage[],
+  options: { revision?: number; clientId?: string } = {}
+): Promise<number | null> {
+  if (!isValidSessionId(sessionId)) return null;
+  return withSessionLock(sessionId, async () => {
+    const store = await getSessionStore();
+    const current = await store.loadSession(sessionId);
+    if (!current) return null;
+
+    const taken = new Set(current.messages.map((m) => m.id));
+    const stale = options.revision !== undefined && options.revision !== (current.revision ?? 0);
+    if (stale || messages.some((m) => taken.has(m.id))) throw new SessionConflictError(current);
+
+    const entry: SessionLogEntry = {
+      revision: (current.revision ?? 0) + 1,
+      updatedAt: new Date().toISOString(),
+      messages,
+    };
+    await store.appendMessages(sessionId, entry);
+    publishSessionChange({ sessionId, revision: entry.revision, updatedAt: entry.updatedAt, clientId: options.clientId });
+    return entry.revision;
+  });
+}
+
+/** Lists session summaries matching the query, newest first, one page at a time. */
+export async function querySessions(query: SessionQuery = {}): Promise<SessionPage> {
+  const store = await getSessionStore();
+  return store.querySessions(query);
+}
+
+export async function loadSession(sessionId: string): Promise<Session | null> {
+  if (!isValidSessionId(sessionId)) return null;
+  const store = await getSessionStore();
+  return store.loadSession(sessionId);
 }
 
+/** Loads every session in full; use `querySessions` for listing. */
 export async function listSessions(): Promise<Session[]> {
-  try {
-    await fs.mkdir(SESSIONS_DIR, { recursive: true });
-    const files = await fs.readdir(SESSIONS_DIR);
-    const sessions: Session[] = [];
-
-    for (const file of files) {
-      if (file.endsWith('.json')) {
-        const filePath = path.join(SESSIONS_DIR, file);
-        const data = await fs.readFile(filePath, 'utf-8');
-        sessions.push(JSON.parse(data));
-      }
-    }
-
-    // Sort by updatedAt descending
-    return sessions.sort((a, b) =>
-      new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime()
-    );
-  } catch {
-    return [];
-  }
+  const store = await getSessionStore();
+  return store.listSessions();
 }
 
 export async function deleteSession(sessionId: string): Promise<boolean> {
-  try {
-    const filePath = path.join(SESSIONS_DIR, `${sessionId}.json`);
-    await fs.unlink(filePath);
-    return true;
-  } catch {
-    return false;
+  if (!isValidSessionId(sessionId)) return false;
+  const store = await getSessionStore();
+  return store.deleteSession(sessionId);
+}
+
+/** Updates a session's title, description, tags or pinned flag; null if it does not exist. */
+export async function updateSessionDetails(
+  sessionId: string,
+  details: SessionDetails
+): Promise<Session | null> {
+  if (!isValidSessionId(sessionId)) return null;
+  return withSessionLock(sessionId, async () => {
+    const store = await getSessionStore();
+    const session = await store.loadSession(sessionId);
+    if (!session) return null;
+    return writeSession({ ...session, ...details, updatedAt: new Date().toISOString() });
+  });
+}
+
+/**
+ * Creates a new session holding the original's messages up to and including
+ * `messageId` and its tests, together with the artifacts they reference.
+ */
+export async function forkSession(sessionId: string, messageId: number): Promise<Session | null> {
+  const session = await loadSession(sessionId);
+  const index = session?.messages.findIndex((m) => m.id === messageId) ?? -1;
+  if (!session || index === -1) return null;
+
+  const now = new Date().toISOString();
+  const fork: Session = {
+    ...session,
+    id: generateSessionId(),
+    revision: undefined,
+    createdAt: now,
+    updatedAt: now,
+    title: `${session.title || session.id} (fork)`,
+    pinned: false,
+    forkedFrom: { sessionId, messageId },
+    messages: session.messages.slice(0, index + 1),
+  };
+  const saved = await saveSession(fork);
+
+  const store = await getSessionStore();
+  const artifacts = [
+    ...fork.messages.map((m) => m.artifact),
+    ...(fork.tests ?? []).map((t) => t.golden),
+  ];
+  for (const artifact of artifacts) {
+    if (!artifact) continue;
+    const data = await store.loadArtifact(sessionId, artifact.id);
+    if (data) await store.saveArtifact(fork.id, artifact, data);
   }
+  return saved;
+}
+
+export async function saveArtifact(
+  sessionId: string,
+  data: Buffer,
+  mimeType: string,
+  /** Prepended to the generated id, e.g. to tell where the file came from. */
+  prefix = ''
+): Promise<SessionArtifact> {
+  assertSessionId(sessionId);
+
+  // Trust the bytes over the declared type
+  const format = sniffFormat(data) ?? formatFromMimeType(mimeType);
+  const artifact: SessionArtifact = {
+    id: `${prefix}${nanoid(10)}.${format?.extension ?? 'bin'}`,
+    mimeType: format?.mimeType ?? 'application/octet-stream',
+    size: data.byteLength,
+    createdAt: new Date().toISOString(),
+  };
+
+  const store = await getSessionStore();
+  await store.saveArtifact(sessionId, artifact, data);
+  return artifact;
+}
+
+export async function loadArtifact(
+  sessionId: string,
+  artifactId: string
+): Promise<{ data: Buffer; mimeType: string } | null> {
+  if (!isValidSessionId(sessionId) || !isValidArtifactId(artifactId)) return null;
+  const store = await getSessionStore();
+  const data = await store.loadArtifact(sessionId, artifactId);
+  if (!data) return null;
+
+  const extension = artifactId.split('.').pop() ?? '';
+  return { data, mimeType: formatFromExtension(extension)?.mimeType ?? 'application/octet-stream' };
+}
+
+/** Stores an artifact under its existing id, e.g. when importing a session. */
+export async function restoreArtifact(
+  sessionId: string,
+  artifact: SessionArtifact,
+  data: Buffer
+): Promise<void> {
+  assertSessionId(sessionId);
+  if (!isValidArtifactId(artifact.id)) throw new Error(`Invalid artifact id: ${artifact.id}`);
+
+  const store = await getSessionStore();
+  await store.saveArtifact(sessionId, {
+    id: artifact.id,
+    mimeType: typeof artifact.mimeType === 'string' ? artifact.mimeType : 'application/octet-stream',
+    size: data.byteLength,
+    createdAt: typeof artifact.createdAt === 'string' ? artifact.createdAt : new Date().toISOString(),
+  }, data);
+}
+
+export async function listArtifacts(sessionId: string): Promise<SessionArtifact[]> {
+  if (!isValidSessionId(sessionId)) return [];
+  const store = await getSessionStore();
+  return store.listArtifacts(sessionId);
 }
@@ -0,0 +1,180 @@
+import { trackOpenedDocuments } from './opened-documents';
+import type { PhotopeaClient } from './photopea-client';
+import type { SessionArtifact } from './session';
+import { formatScriptError } from './script-errors';
+
+// Golden-image regression tests for scripts. A session can hold a suite of
+// cases, each opening some input images, running a script and exporting the
+// active document; the export is compared pixel by pixel against an accepted
+// "golden" export stored as an artifact of the same session.
+
+export interface VisualTest {
+  id: string;
+  name: string;
+  /** Image URLs opened in order before the script runs; the last one is the active document. */
+  inputs: string[];
+  script: string;
+  /** `saveToOE` format of the export: one of VISUAL_TEST_FORMATS. */
+  format: string;
+  /** The accepted export; a test fails until it has one. */
+  golden?: SessionArtifact;
+  /** Largest per-channel difference (0-255) for two pixels to count as the same. */
+  tolerance: number;
+  /** Share of differing pixels (0-1) a run may have and still pass. */
+  maxDiffRatio: number;
+}
+
+// Formats the browser can decode for the pixel comparison
+export const VISUAL_TEST_FORMATS = ['png', 'webp', 'jpg'];
+
+export const DEFAULT_TOLERANCE = 0;
+export const DEFAULT_MAX_DIFF_RATIO = 0;
+
+export interface PixelImage {
+  width: number;
+  height: number;
+  /** RGBA, 4 bytes per pixel, like `ImageData.data`. */
+  data: Uint8ClampedArray;
+}
+
+export interface PixelDiff {
+  differing: number;
+  total: number;
+  ratio: number;
+  /** The expected image dimmed, with differing pixels in red. */
+  image: PixelImage;
+}
+
+export type VisualTestStatus = 'pending' | 'running' | 'passed' | 'failed' | 'no-golden' | 'error';
+
+export interface VisualTestResult {
+  testId: string;
+  status: VisualTestStatus;
+  error?: string;
+  durationMs?: number;
+  /** The export made by this run, e.g. to accept as the new golden. */
+  actual?: ArrayBuffer;
+  diff?: PixelDiff;
+}
+
+export interface VisualTestEnvironment {
+  /** Bytes of an input to post to Photopea, or null to let Photopea open the URL itself. */
+  readInput: (url: string) => Promise<ArrayBuffer | null>;
+  readGolden: (golden: SessionArtifact) => Promise<ArrayBuffer>;
+  decode: (data: ArrayBuffer) => Promise<PixelImage>;
+  timeoutMs?: number;
+}
+
+export interface VisualTestRunOptions extends VisualTestEnvironment {
+  onUpdate?: (results: VisualTestResult[]) => void;
+  /** Checked between tests; remaining tests stay pending once it returns true. */
+  isCancelled?: () => boolean;
+}
+
+/**
+ * Compares two images of the same size. A pixel differs when any channel,
+ * alpha included, differs by more than `tolerance`. Returns null when the
+ * sizes differ.
+ */
+export function diffPixels(expected: PixelImage, actual: PixelImage, tolerance: number): PixelDiff | null {
+  if (expected.width !== actual.width || expected.height !== actual.height) return null;
+
+  const total = expected.width * expected.height;
+  const out = new Uint8ClampedArray(total * 4);
+  let differing = 0;
+  for (let i = 0; i < total * 4; i += 4) {
+    let same = true;
+    for (let c = 0; c < 4; c++) {
+      if (Math.abs(expected.data[i + c] - actual.data[i + c]) > tolerance) {
+        same = false;
+        break;
+      }
+    }
+    if (same) {
+      const gray = (expected.data[i] * 0.3 + expected.data[i + 1] * 0.59 + expected.data[i + 2] * 0.11) / 4 + 32;
+      out.set([gray, gray, gray, 255], i);
+    } else {
+      differing++;
+      out.set([255, 0, 0, 255], i);
+    }
+  }
+
+  return {
+    differing,
+    total,
+    ratio: total > 0 ? differing / total : 0,
+    image: { width: expected.width, height: expected.height, data: out },
+  };
+}
+
+/** Runs one test case: opens its inputs, runs the script, exports and compares. */
+export async function runVisualTest(
+  client: PhotopeaClient,
+  test: VisualTest,
+  env: VisualTestEnvironment
+): Promise<VisualTestResult> {
+  const startedAt = Date.now();
+  const run = (payload: string | ArrayBuffer) =>
+    client.run(payload, { timeoutMs: env.timeoutMs, silent: true, catchErrors: true });
+  const done = (result: Omit<VisualTestResult, 'testId' | 'durationMs'>): VisualTestResult => ({
+    testId: test.id,
+    durationMs: Date.now() - startedAt,
+    ...result,
+  });
+
+  // Whatever the test opens is closed again, leaving Photopea as it was. An
+  // input that does not open fails the case rather than letting the script
+  // run on whatever was active.
+  const opened = trackOpenedDocuments(run);
+  try {
+    for (const url of test.inputs) {
+      await opened.open((await env.readInput(url)) ?? url, url);
+    }
+
+    const scriptResult = await run(test.script);
+    if (scriptResult.error) return done({ status: 'error', error: formatScriptError(scriptResult.error) });
+
+    const exportResult = await run(`app.activeDocument.saveToOE(${JSON.stringify(test.format)});`);
+    const actual = exportResult.outputs.find((o): o is ArrayBuffer => o instanceof ArrayBuffer);
+    if (!actual) return done({ status: 'error', error: 'Export produced no file' });
+    if (!test.golden) return done({ status: 'no-golden', actual });
+
+    const [expectedImage, actualImage] = await Promise.all([
+      env.readGolden(test.golden).then(env.decode),
+      env.decode(actual),
+    ]);
+    const diff = diffPixels(expectedImage, actualImage, test.tolerance);
+    if (!diff) {
+      return done({
+        status: 'failed',
+        actual,
+        error: `Size changed from ${expectedImage.width}×${expectedImage.height} to ${actualImage.width}×${actualImage.height}`,
+      });
+    }
+    return done({ status: diff.ratio <= test.maxDiffRatio ? 'passed' : 'failed', actual, diff });
+  } catch (error) {
+    return done({ status: 'error', error: error instanceof Error ? error.message : String(error) });
+  } finally {
+    await opened.closeAll();
+  }
+}
+
+/** Runs test cases one after another. */
+export async function runVisualTests(
+  client: PhotopeaClient,
+  tests: VisualTest[],
+  options: VisualTestRunOptions
+): Promise<VisualTestResult[]> {
+  let results: VisualTestResult[] = tests.map((test) => ({ testId: test.id, status: 'pending' }));
+  const update = (index: number, result: VisualTestResult) => {
+    results = results.map((r, i) => (i === index ? result : r));
+    options.onUpdate?.(results);
+  };
+
+  for (const [index, test] of tests.entries()) {
+    if (options.isCancelled?.()) break;
+    update(index, { testId: test.id, status: 'running' });
+    update(index, await runVisualTest(client, test, options));
+  }
+  return results;
+}
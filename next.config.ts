@@ -1,7 +1,16 @@
 import type { NextConfig } from "next";
+import { MOCK_PHOTOPEA_PATH } from "./lib/photopea-source";
 
 const nextConfig: NextConfig = {
-  /* config options here */
+  async headers() {
+    return [
+      {
+        // The mock runs posted scripts on this origin, so only this app may frame it
+        source: MOCK_PHOTOPEA_PATH,
+        headers: [{ key: "Content-Security-Policy", value: "frame-ancestors 'self'" }],
+      },
+    ];
+  },
 };
 
 export default nextConfig;
@@ -0,0 +1,56 @@
+// Copies the file-based sessions in `.sessions/` (sessions and artifacts)
+// into another session store.
+//
+//   npm run sessions:migrate -- --to sqlite [--from .sessions]
+//
+// The target defaults to SESSION_STORE. Sessions that already exist in the
+// target are overwritten.
+
+import path from 'path';
+import { parseArgs } from 'util';
+import { createSessionStore, getSessionStoreKind, isSessionStoreKind } from '../lib/session-store';
+import { DEFAULT_SESSIONS_DIR, FileSessionStore } from '../lib/session-store-fs';
+
+async function main() {
+  const { values } = parseArgs({
+    options: {
+      to: { type: 'string' },
+      from: { type: 'string' },
+    },
+  });
+
+  const kind = values.to ?? getSessionStoreKind();
+  if (!isSessionStoreKind(kind)) {
+    throw new Error(`Unknown store "${kind}"`);
+  }
+  if (kind === 'memory') {
+    throw new Error('The memory store does not outlive this command; pick another target');
+  }
+  const fromDir = values.from ? path.resolve(values.from) : DEFAULT_SESSIONS_DIR;
+  if (kind === 'fs' && fromDir === DEFAULT_SESSIONS_DIR) {
+    throw new Error('Source and target are the same directory');
+  }
+
+  const source = new FileSessionStore(fromDir);
+  const target = await createSessionStore(kind);
+  const sessions = await source.listSessions();
+  let artifactCount = 0;
+
+  for (const session of sessions) {
+    await target.saveSession(session);
+    for (const artifact of await source.listArtifacts(session.id)) {
+      const data = await source.loadArtifact(session.id, artifact.id);
+      if (!data) continue;
+      await target.saveArtifact(session.id, artifact, data);
+      artifactCount++;
+    }
+    console.log(`  ${session.id} (${session.messages.length} messages)`);
+  }
+
+  console.log(`Copied ${sessions.length} session(s) and ${artifactCount} artifact(s) from ${fromDir} to the ${kind} store`);
+}
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
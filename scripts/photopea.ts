@@ -0,0 +1,275 @@
+// Runs a Photopea script from the terminal. A headless browser opens the
+// app's automation page, which talks to Photopea through the same bridge as
+// the console; the run is recorded as a regular session.
+//
+//   npm run photopea -- run script.js [--image a.png]... [--out out.png]
+//     [--format png] [--session <id>] [--source live|mock]
+//     [--app http://localhost:3000] [--timeout 30000] [--browser <path>]
+//
+// The app must be running (`npm run dev` or `npm start`). Images given as URLs
+// are opened by Photopea at startup, local files are posted once it is ready.
+// Strings the script echoes go to stdout. Files it exports with saveToOE are
+// written to --out; when it exports nothing, the active document is exported
+// in --format (by default the extension of --out).
+//
+//   npm run photopea -- worker [--source live|mock] [--app ...] [--browser ...]
+//
+// keeps a headless Photopea open that runs the jobs queued with
+// `POST /api/run`, until interrupted.
+
+import { readFile, writeFile } from 'fs/promises';
+import path from 'path';
+import { parseArgs } from 'util';
+import { chromium, type Page } from 'playwright-core';
+import {
+  AUTOMATION_PATH,
+  bytesToBase64,
+  decodeData,
+  recordExchange,
+  type AutomationPayload,
+  type AutomationResult,
+  type RecordedOutput,
+} from '../lib/automation';
+import { sniffFormat } from '../lib/file-format';
+import { encodePhotopeaConfig, type PhotopeaConfig } from '../lib/photopea-config';
+import { DEFAULT_TIMEOUT_MS, type PhotopeaOutput } from '../lib/photopea-client';
+import { getDefaultSourceId, isPhotopeaSourceId } from '../lib/photopea-source';
+import { formatScriptError, parseScriptError } from '../lib/script-errors';
+import { formatDiagnostic, lintScript } from '../lib/script-lint';
+import { generateSessionId, type Session, type SessionArtifact, type SessionMessage } from '../lib/session';
+import { isValidSessionId } from '../lib/session-schema';
+
+const USAGE = [
+  'Usage: npm run photopea -- run <script.js> [--image <path|url>]... [--out <file>] [--session <id>]',
+  '       npm run photopea -- worker',
+].join('\n');
+const READY_TIMEOUT_MS = 60000;
+
+interface Run {
+  script: string;
+  result: AutomationResult;
+}
+
+function isUrl(value: string): boolean {
+  return /^https?:\/\//i.test(value);
+}
+
+async function api<T>(appUrl: string, pathname: string, init?: RequestInit): Promise<T> {
+  const res = await fetch(new URL(pathname, appUrl), init);
+  const body = await res.json().catch(() => null);
+  if (!res.ok) throw new Error(`${init?.method ?? 'GET'} ${pathname} failed with ${res.status}: ${body?.error ?? res.statusText}`);
+  return body as T;
+}
+
+const COMMON_OPTIONS = {
+  source: { type: 'string' },
+  app: { type: 'string' },
+  browser: { type: 'string' },
+} as const;
+
+interface PageOptions {
+  source?: string;
+  app?: string;
+  browser?: string;
+}
+
+/** Opens the automation page in a headless browser and waits for Photopea to be ready. */
+async function openAutomationPage(options: PageOptions, query: Record<string, string>, config: PhotopeaConfig = {}) {
+  const sourceId = options.source ?? getDefaultSourceId();
+  if (!isPhotopeaSourceId(sourceId)) throw new Error(`Unknown source "${sourceId}"; use live or mock`);
+  const appUrl = options.app ?? process.env.PHOTOPEA_APP_URL ?? 'http://localhost:3000';
+  const encoded = encodePhotopeaConfig(config);
+  const search = new URLSearchParams({ source: sourceId, ...query });
+  const pageUrl = new URL(`${AUTOMATION_PATH}?${search}${encoded ? `#${encoded}` : ''}`, appUrl);
+
+  const browser = await chromium.launch({ executablePath: options.browser });
+  try {
+    const page = await browser.newPage();
+    await page.goto(pageUrl.href);
+    await page.waitForFunction(() => !!window.photopeaAutomation, null, { timeout: READY_TIMEOUT_MS });
+    return { browser, page, appUrl };
+  } catch (error) {
+    await browser.close();
+    throw error;
+  }
+}
+
+async function runPayload(page: Page, payload: AutomationPayload, timeoutMs: number): Promise<AutomationResult> {
+  return page.evaluate(([p, t]) => window.photopeaAutomation!.run(p, t), [payload, timeoutMs] as const);
+}
+
+function describeFailure(result: AutomationResult): string | null {
+  if (result.failure) return result.failure.message;
+  if (result.error) return formatScriptError(result.error);
+  return null;
+}
+
+// Binary outputs become artifacts, so the session shows them like the console does
+async function recordRun(appUrl: string, sessionId: string, firstId: number, run: Run): Promise<SessionMessage[]> {
+  const received: RecordedOutput[] = [];
+  for (const message of run.result.messages) {
+    const data = decodeData(message);
+    if (typeof data === 'string') {
+      received.push({ data });
+      continue;
+    }
+    const format = sniffFormat(new Uint8Array(data));
+    const artifact = await api<SessionArtifact>(appUrl, `/api/sessions/${sessionId}/artifacts`, {
+      method: 'POST',
+      headers: { 'Content-Type': format?.mimeType ?? 'application/octet-stream' },
+      body: data,
+    });
+    received.push({ data, artifact, format: format?.id });
+  }
+  return recordExchange(firstId, run.script, received, run.result.failure);
+}
+
+async function saveRuns(
+  appUrl: string,
+  sessionId: string,
+  runs: Run[],
+  details: Pick<Session, 'title' | 'description' | 'tags' | 'metadata'>
+): Promise<void> {
+  const headers = { 'Content-Type': 'application/json' };
+  let existing = await api<Session>(appUrl, `/api/sessions/${sessionId}`).catch(() => null);
+  // Artifacts are only accepted for a stored session, so a new one is created first
+  if (!existing) {
+    const now = new Date().toISOString();
+    existing = { id: sessionId, createdAt: now, updatedAt: now, ...details, messages: [] };
+    await api(appUrl, '/api/sessions', { method: 'POST', headers, body: JSON.stringify(existing) });
+  }
+
+  let nextId = Math.max(0, ...existing.messages.map((m) => m.id)) + 1;
+  const messages: SessionMessage[] = [];
+  for (const run of runs) {
+    const recorded = await recordRun(appUrl, sessionId, nextId, run);
+    messages.push(...recorded);
+    nextId += recorded.length;
+  }
+
+  await api(appUrl, `/api/sessions/${sessionId}/messages`, {
+    method: 'POST',
+    headers,
+    body: JSON.stringify({ messages }),
+  });
+}
+
+function outputPath(out: string, index: number, extension: string | undefined): string {
+  if (index === 0) return out;
+  const parsed = path.parse(out);
+  return path.join(parsed.dir, `${parsed.name}-${index + 1}${extension ? `.${extension}` : parsed.ext}`);
+}
+
+async function runCommand(args: string[]) {
+  const { values, positionals } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      image: { type: 'string', multiple: true, default: [] },
+      out: { type: 'string' },
+      format: { type: 'string' },
+      session: { type: 'string' },
+      timeout: { type: 'string' },
+      ...COMMON_OPTIONS,
+    },
+  });
+
+  const [scriptPath] = positionals;
+  if (!scriptPath || positionals.length > 1) throw new Error(USAGE);
+  if (values.session !== undefined && !isValidSessionId(values.session)) {
+    throw new Error(`Invalid session id "${values.session}"`);
+  }
+  const timeoutMs = values.timeout ? Number(values.timeout) : DEFAULT_TIMEOUT_MS;
+  if (!Number.isFinite(timeoutMs) || timeoutMs <= 0) throw new Error(`Invalid timeout "${values.timeout}"`);
+  const format = values.format || (values.out && path.extname(values.out).slice(1)) || 'png';
+
+  // Photopea reports syntax errors without a position, so catch them here
+  const script = await readFile(scriptPath, 'utf8');
+  const [syntaxError] = lintScript(script);
+  if (syntaxError) throw new Error(`${scriptPath}: ${formatDiagnostic(syntaxError)}`);
+
+  const imageUrls = values.image.filter(isUrl);
+  const imageFiles = values.image.filter((image) => !isUrl(image));
+  const files = await Promise.all(imageFiles.map((file) => readFile(file)));
+  const config: PhotopeaConfig = imageUrls.length > 0 ? { files: imageUrls } : {};
+
+  const { browser, page, appUrl } = await openAutomationPage(values, {}, config);
+  const runs: Run[] = [];
+  let photopeaSrc: string;
+  try {
+    photopeaSrc = await page.evaluate(() => window.photopeaAutomation!.photopeaSrc);
+
+    for (const [index, data] of files.entries()) {
+      const result = await runPayload(page, { kind: 'file', base64: bytesToBase64(data) }, timeoutMs);
+      const failure = describeFailure(result);
+      if (failure) throw new Error(`Could not open ${imageFiles[index]}: ${failure}`);
+    }
+
+    const result = await runPayload(page, { kind: 'script', script }, timeoutMs);
+    runs.push({ script, result });
+
+    const exported = result.messages.some((m) => m.kind === 'binary');
+    if (values.out && !exported && !describeFailure(result)) {
+      const exportScript = `app.activeDocument.saveToOE(${JSON.stringify(format)});`;
+      runs.push({ script: exportScript, result: await runPayload(page, { kind: 'script', script: exportScript }, timeoutMs) });
+    }
+  } finally {
+    await browser.close();
+  }
+
+  const outputs: PhotopeaOutput[] = runs.flatMap((run) =>
+    run.result.messages.map(decodeData).filter((data) => data !== 'done' && !parseScriptError(data))
+  );
+  for (const output of outputs) {
+    if (typeof output === 'string') console.log(output);
+  }
+
+  const binaries = outputs.filter((output): output is ArrayBuffer => output instanceof ArrayBuffer);
+  if (values.out) {
+    for (const [index, data] of binaries.entries()) {
+      const file = outputPath(values.out, index, sniffFormat(new Uint8Array(data))?.extension);
+      await writeFile(file, new Uint8Array(data));
+      console.error(`Wrote ${file} (${data.byteLength} bytes)`);
+    }
+  }
+
+  const sessionId = values.session ?? generateSessionId();
+  await saveRuns(appUrl, sessionId, runs, {
+    title: `photopea run ${path.basename(scriptPath)}`,
+    description: imageFiles.length > 0 ? `Opened from disk: ${imageFiles.map((f) => path.basename(f)).join(', ')}` : undefined,
+    tags: ['cli'],
+    metadata: { imageUrls, photopeaSrc, config },
+  });
+  console.error(`Recorded as session ${sessionId}`);
+
+  const failures = runs.map((run) => describeFailure(run.result)).filter((f): f is string => f !== null);
+  if (failures.length > 0) throw new Error(failures.join('\n'));
+  if (values.out && binaries.length === 0) throw new Error('The script produced no file to write');
+}
+
+async function workerCommand(args: string[]) {
+  const { values } = parseArgs({ args, options: COMMON_OPTIONS });
+  const { browser, page, appUrl } = await openAutomationPage(values, { worker: '1' });
+  // The page logs every job it takes and finishes
+  page.on('console', (message) => console.error(message.text()));
+  console.error(`Taking jobs from ${appUrl}; press Ctrl+C to stop`);
+
+  await new Promise<void>((resolve) => {
+    process.once('SIGINT', () => resolve());
+    process.once('SIGTERM', () => resolve());
+    browser.once('disconnected', () => resolve());
+  });
+  await browser.close();
+}
+
+async function main() {
+  const [command, ...args] = process.argv.slice(2);
+  if (command === 'run') await runCommand(args);
+  else if (command === 'worker') await workerCommand(args);
+  else throw new Error(USAGE);
+}
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});